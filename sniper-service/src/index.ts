@@ -9,6 +9,8 @@ import { z } from 'zod';
 import { createSnipe, listSnipes, getSnipe, updateSnipe, deleteSnipe } from './store.js';
 import { scheduleSnipe, cancelSnipe, isSnipeScheduled, loadPendingSnipes } from './sniper.js';
 import { resyClient } from './resy-client.js';
+import { parseDateExpression } from '../../src/utils/dates.js';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../../src/utils/time.js';
 import { randomUUID } from 'crypto';
 
 const app = express();
@@ -24,17 +26,16 @@ function parseRestaurantId(input: string | number): number {
   return num;
 }
 
-// Helper: Parse date from various formats
-function parseDate(input: string): string {
-  // Already in YYYY-MM-DD format
-  if (/^\d{4}-\d{2}-\d{2}$/.test(input)) return input;
-
-  // Try parsing common formats
-  const date = new Date(input);
-  if (isNaN(date.getTime())) {
-    throw new Error(`Invalid date: ${input}. Use YYYY-MM-DD format (e.g., "2026-02-15") or natural language like "February 15, 2026".`);
+// Helper: Parse date from various formats; "today" is the venue's
+function parseDate(input: string, timeZone: string): string {
+  const parsed = parseDateExpression(input, { timeZone });
+  if (!parsed.ok) {
+    throw new Error(`Invalid date: ${parsed.message}`);
+  }
+  if (parsed.dates.length > 1) {
+    throw new Error(`"${input}" covers ${parsed.dates.length} dates (${parsed.dates.join(', ')}). A snipe targets one date; create one snipe per date.`);
   }
-  return date.toISOString().split('T')[0];
+  return parsed.dates[0];
 }
 
 // Helper: Parse release time from various formats
@@ -105,6 +106,7 @@ const createSnipeSchema = z.object({
   partySize: z.union([z.string(), z.number()]).optional().default(2),
   preferredTimes: z.union([z.string(), z.array(z.string())]).optional().default(['7:00 PM', '7:30 PM', '8:00 PM']),
   releaseTime: z.string().min(1),
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional().default(DEFAULT_TIME_ZONE),
 });
 
 const snipeIdSchema = z.object({
@@ -155,7 +157,7 @@ DEFAULTS: partySize=2, preferredTimes=["7:00 PM", "7:30 PM", "8:00 PM"], platfor
             },
             date: {
               type: 'string',
-              description: 'Reservation date. Accepts "2026-02-15" or "February 15, 2026"'
+              description: 'Reservation date. Accepts "2026-02-15", "February 15, 2026", "friday", "Valentine\'s Day" or "the 14th"'
             },
             partySize: {
               type: ['string', 'number'],
@@ -169,6 +171,10 @@ DEFAULTS: partySize=2, preferredTimes=["7:00 PM", "7:30 PM", "8:00 PM"], platfor
               type: 'string',
               description: 'When reservations open. Accepts "9:00 AM" or "2026-02-01T09:00:00"'
             },
+            timeZone: {
+              type: 'string',
+              description: 'IANA time zone of the restaurant, which dates like "tonight" count from (optional, defaults to America/New_York)'
+            },
           },
           required: ['restaurantId', 'restaurantName', 'date', 'releaseTime'],
         },
@@ -226,7 +232,7 @@ DEFAULTS: partySize=2, preferredTimes=["7:00 PM", "7:30 PM", "8:00 PM"], platfor
 
           // Normalize all inputs
           const restaurantId = parseRestaurantId(raw.restaurantId);
-          const date = parseDate(raw.date);
+          const date = parseDate(raw.date, raw.timeZone);
           const releaseTime = parseReleaseTime(raw.releaseTime, date);
           const platform = raw.platform || detectPlatform(raw.restaurantId);
           const partySize = typeof raw.partySize === 'string' ? parseInt(raw.partySize, 10) : (raw.partySize || 2);
@@ -341,9 +347,9 @@ DEFAULTS: partySize=2, preferredTimes=["7:00 PM", "7:30 PM", "8:00 PM"], platfor
             };
           }
 
-          if (snipe.status !== 'pending') {
+          if (snipe.status !== 'pending' && snipe.status !== 'running') {
             return {
-              content: [{ type: 'text', text: `Cannot cancel snipe - status is "${snipe.status}". Only pending snipes can be cancelled.` }],
+              content: [{ type: 'text', text: `Cannot cancel snipe - status is "${snipe.status}". Only pending or running snipes can be cancelled.` }],
               isError: true,
             };
           }
@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 
-const BASE_URL = 'https://api.resy.com';
+// Override to point at a local mock server
+const BASE_URL = process.env.RESY_BASE_URL || 'https://api.resy.com';
 
 // Default API key (public, used by Resy web app)
 const DEFAULT_API_KEY = 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5';
@@ -36,13 +37,13 @@ export class ResyClient {
   private email: string | null = null;
   private password: string | null = null;
 
-  constructor() {
+  constructor(baseUrl = BASE_URL) {
     this.apiKey = process.env.RESY_API_KEY || DEFAULT_API_KEY;
     this.email = process.env.RESY_EMAIL || null;
     this.password = process.env.RESY_PASSWORD || null;
 
     this.client = axios.create({
-      baseURL: BASE_URL,
+      baseURL: baseUrl,
       timeout: 30000,
     });
   }
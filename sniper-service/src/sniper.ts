@@ -1,67 +1,40 @@
 import { resyClient } from './resy-client.js';
 import { openTableClient } from './opentable-client.js';
-import { getPendingSnipes, updateSnipe, type Snipe } from './store.js';
+import { getPendingSnipes, listSnipes, getSnipe, updateSnipe, type Snipe } from './store.js';
 import { notifySlotFound, notifyBookingSuccess, notifySnipeFailed } from './notifications.js';
+import { slotMatchesTime } from '../../src/utils/time.js';
+import { getClock, type TimerHandle } from '../../src/sniper/clock.js';
 
 const POLL_INTERVAL_MS = 500;
 const PRE_RELEASE_START_MS = 30000; // Start 30 seconds early
 const MAX_POLL_DURATION_MS = 120000; // Give up after 2 minutes
 
-const scheduledSnipes = new Map<string, NodeJS.Timeout>();
+const scheduledSnipes = new Map<string, TimerHandle>();
 
-function parseTime(timeStr: string): { hours: number; minutes: number } {
-  const normalized = timeStr.trim().toUpperCase();
+const PREFERRED_TIME_TOLERANCE_MINUTES = 15;
 
-  const match12 = normalized.match(/^(\d{1,2}):?(\d{2})?\s*(AM|PM)$/);
-  if (match12) {
-    let hours = parseInt(match12[1], 10);
-    const minutes = parseInt(match12[2] || '0', 10);
-    const period = match12[3];
-
-    if (period === 'PM' && hours !== 12) hours += 12;
-    if (period === 'AM' && hours === 12) hours = 0;
-
-    return { hours, minutes };
-  }
-
-  const match24 = normalized.match(/^(\d{1,2}):(\d{2})$/);
-  if (match24) {
-    return {
-      hours: parseInt(match24[1], 10),
-      minutes: parseInt(match24[2], 10),
-    };
-  }
-
-  throw new Error(`Cannot parse time: ${timeStr}`);
+function timeMatchesPreference(slotTime: string, preferredTime: string): boolean {
+  return slotMatchesTime(slotTime, preferredTime, PREFERRED_TIME_TOLERANCE_MINUTES);
 }
 
-function timeMatchesPreference(slotTime: string, preferredTime: string): boolean {
-  try {
-    const slot = parseTime(slotTime);
-    const preferred = parseTime(preferredTime);
-    const slotMinutes = slot.hours * 60 + slot.minutes;
-    const preferredMinutes = preferred.hours * 60 + preferred.minutes;
-    return Math.abs(slotMinutes - preferredMinutes) <= 15;
-  } catch {
-    return false;
-  }
+// Cancelling deletes the snipe, so a missing row means it was cancelled mid-run
+async function isCancelled(snipeId: string): Promise<boolean> {
+  const current = await getSnipe(snipeId);
+  return !current || current.status === 'cancelled';
 }
 
-async function executeResySnipe(snipe: Snipe): Promise<string> {
-  const startTime = Date.now();
+async function executeResySnipe(snipe: Snipe): Promise<string | null> {
+  const clock = getClock();
+  const startTime = clock.now();
   console.log(`[Sniper] Starting Resy snipe for ${snipe.restaurantName}`);
 
-  while (Date.now() - startTime < MAX_POLL_DURATION_MS) {
+  while (clock.now() - startTime < MAX_POLL_DURATION_MS) {
+    if (await isCancelled(snipe.id)) return null;
+
     const slots = await resyClient.getAvailability(snipe.restaurantId, snipe.date, snipe.partySize);
 
     for (const preferredTime of snipe.preferredTimes) {
-      const matchingSlot = slots.find((slot) => {
-        const slotTimeStr = new Date(slot.date.start).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-        });
-        return timeMatchesPreference(slotTimeStr, preferredTime);
-      });
+      const matchingSlot = slots.find((slot) => timeMatchesPreference(slot.date.start, preferredTime));
 
       if (matchingSlot) {
         console.log(`[Sniper] Found slot at ${matchingSlot.date.start}, booking...`);
@@ -82,17 +55,20 @@ async function executeResySnipe(snipe: Snipe): Promise<string> {
       }
     }
 
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    await clock.sleep(POLL_INTERVAL_MS);
   }
 
   throw new Error('Timed out - no matching slots found');
 }
 
-async function executeOpenTableSnipe(snipe: Snipe): Promise<string> {
-  const startTime = Date.now();
+async function executeOpenTableSnipe(snipe: Snipe): Promise<string | null> {
+  const clock = getClock();
+  const startTime = clock.now();
   console.log(`[Sniper] Starting OpenTable snipe for ${snipe.restaurantName}`);
 
-  while (Date.now() - startTime < MAX_POLL_DURATION_MS) {
+  while (clock.now() - startTime < MAX_POLL_DURATION_MS) {
+    if (await isCancelled(snipe.id)) return null;
+
     const slots = await openTableClient.getAvailability(snipe.restaurantId, snipe.date, snipe.partySize);
 
     for (const preferredTime of snipe.preferredTimes) {
@@ -114,7 +90,7 @@ async function executeOpenTableSnipe(snipe: Snipe): Promise<string> {
       }
     }
 
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    await clock.sleep(POLL_INTERVAL_MS);
   }
 
   throw new Error('Timed out - no matching slots found');
@@ -125,7 +101,7 @@ async function executeSnipe(snipe: Snipe, platform: 'resy' | 'opentable'): Promi
   console.log(`[Sniper] Executing snipe ${snipe.id} for ${snipe.restaurantName}`);
 
   try {
-    let result: string;
+    let result: string | null;
 
     if (platform === 'resy') {
       result = await executeResySnipe(snipe);
@@ -133,6 +109,11 @@ async function executeSnipe(snipe: Snipe, platform: 'resy' | 'opentable'): Promi
       result = await executeOpenTableSnipe(snipe);
     }
 
+    if (result === null) {
+      console.log(`[Sniper] Snipe ${snipe.id} was cancelled while running`);
+      return;
+    }
+
     await updateSnipe(snipe.id, 'success', result);
     console.log(`[Sniper] Success: ${result}`);
   } catch (error) {
@@ -147,13 +128,14 @@ export function scheduleSnipe(snipe: Snipe, platform: 'resy' | 'opentable'): voi
   // Cancel existing schedule if any
   cancelSnipe(snipe.id);
 
+  const clock = getClock();
   const releaseTime = new Date(snipe.releaseTime).getTime();
   const startTime = releaseTime - PRE_RELEASE_START_MS;
-  const delay = Math.max(0, startTime - Date.now());
+  const delay = Math.max(0, startTime - clock.now());
 
   console.log(`[Sniper] Scheduled ${snipe.id} for ${snipe.restaurantName} in ${Math.round(delay / 1000)}s`);
 
-  const timeout = setTimeout(() => {
+  const timeout = clock.setTimer(() => {
     executeSnipe(snipe, platform);
   }, delay);
 
@@ -163,7 +145,7 @@ export function scheduleSnipe(snipe: Snipe, platform: 'resy' | 'opentable'): voi
 export function cancelSnipe(snipeId: string): boolean {
   const timeout = scheduledSnipes.get(snipeId);
   if (timeout) {
-    clearTimeout(timeout);
+    getClock().clearTimer(timeout);
     scheduledSnipes.delete(snipeId);
     return true;
   }
@@ -175,16 +157,23 @@ export function isSnipeScheduled(snipeId: string): boolean {
 }
 
 export async function loadPendingSnipes(): Promise<void> {
+  const now = getClock().now();
   const pending = await getPendingSnipes();
-  console.log(`[Sniper] Loading ${pending.length} pending snipes`);
+  const interrupted = await listSnipes('running');
+  console.log(`[Sniper] Loading ${pending.length} pending snipes, ${interrupted.length} interrupted`);
 
-  for (const snipe of pending) {
+  for (const snipe of [...pending, ...interrupted]) {
     const releaseTime = new Date(snipe.releaseTime).getTime();
 
-    if (releaseTime < Date.now()) {
+    // Pending snipes need their warm-up; interrupted ones can resume while the poll window is open
+    if (snipe.status === 'pending' && releaseTime < now) {
       await updateSnipe(snipe.id, 'failed', 'Missed release time (server was restarted)');
       continue;
     }
+    if (snipe.status === 'running' && releaseTime + MAX_POLL_DURATION_MS < now) {
+      await updateSnipe(snipe.id, 'failed', 'Interrupted by a server restart before a slot was found');
+      continue;
+    }
 
     // Determine platform from restaurant ID format or default to resy
     const platform = snipe.restaurantName.toLowerCase().includes('opentable') ? 'opentable' : 'resy';
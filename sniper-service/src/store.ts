@@ -16,7 +16,7 @@ export interface Snipe {
 }
 
 // Use /tmp for Render free tier (ephemeral storage)
-const DATA_DIR = '/tmp/sniper-data';
+const DATA_DIR = process.env.SNIPER_DATA_DIR || '/tmp/sniper-data';
 const DB_PATH = join(DATA_DIR, 'snipes.db');
 
 let db: Database | null = null;
@@ -0,0 +1,452 @@
+/**
+ * Local fake of the Resy API for offline end-to-end testing
+ *
+ * Serves the endpoints the clients use (/4/find, /4/venue/calendar,
+ * /3/details, /3/book, /3/notify, /3/auth/password, /3/user/reservations)
+ * from an in-memory fixture. Scenarios can script release drops, token expiry,
+ * 429s and slot races.
+ *
+ * Run standalone with `npm run mock:resy`, then start the server with
+ * RESY_BASE_URL=http://localhost:4010 (and any API_KEY) to use it.
+ */
+
+import express from 'express';
+import type { Server } from 'http';
+import { pathToFileURL } from 'url';
+
+export interface MockSlot {
+  configId: number;
+  time: string;                  // Venue-local "HH:MM"
+  type?: string;
+  depositFee?: number;
+  cancellationFee?: number;
+}
+
+export interface MockVenue {
+  id: number;
+  name: string;
+  neighborhood?: string;
+  city?: string;
+  timeZone?: string;
+  cuisine?: string[];
+  priceRange?: number;
+  rating?: number;
+  lat?: number;
+  lng?: number;
+  bookingWindowDays?: number;    // Drives last_calendar_day on /4/venue/calendar
+  slots: Record<string, MockSlot[]>; // Keyed by date (YYYY-MM-DD)
+}
+
+export interface MockScenario {
+  /** Slots stay hidden until this instant (ISO 8601), simulating a release drop */
+  releaseAt?: string;
+  /** Every Nth request gets a 429 */
+  rateLimitEvery?: number;
+  /** The auth token expires after this many authenticated requests */
+  tokenExpiresAfter?: number;
+  /** Config IDs whose first /3/book attempt loses a race to another diner */
+  raceConfigIds?: number[];
+}
+
+export interface MockFixture {
+  apiKey?: string;               // If set, requests must send this API key
+  email?: string;
+  password?: string;
+  venues: MockVenue[];
+}
+
+export interface MockReservation {
+  resyToken: string;
+  reservationId: number;
+  venueId: number;
+  configId: number;
+  day: string;
+  time: string;
+  partySize: number;
+  status: 'confirmed' | 'cancelled';
+}
+
+export interface MockNotify {
+  id: number;
+  venueId: number;
+  day: string;
+  partySize: number;
+  start: string;                 // "HH:MM:SS"
+  end: string;
+}
+
+export interface MockResyServer {
+  app: express.Express;
+  /** Start listening; resolves with the base URL to hand to the clients */
+  start(port?: number): Promise<string>;
+  stop(): Promise<void>;
+  /** Make released inventory visible now */
+  releaseNow(): void;
+  /** Invalidate the current auth token so the next request gets a 401 */
+  expireToken(): void;
+  /** Remove a slot, as if someone else booked it first */
+  takeSlot(configId: number): void;
+  /** Replace the active scenario */
+  setScenario(scenario: MockScenario): void;
+  reservations: MockReservation[];
+  notifies: MockNotify[];
+  requestLog: Array<{ method: string; path: string; status: number }>;
+}
+
+const DEFAULT_FIXTURE: MockFixture = {
+  email: 'diner@example.com',
+  password: 'password',
+  venues: [
+    {
+      id: 1001,
+      name: 'Carbone',
+      neighborhood: 'Greenwich Village',
+      city: 'New York',
+      timeZone: 'America/New_York',
+      cuisine: ['Italian'],
+      priceRange: 4,
+      rating: 4.8,
+      lat: 40.7279,
+      lng: -74.0004,
+      bookingWindowDays: 30,
+      slots: {},
+    },
+    {
+      id: 1002,
+      name: 'Don Angie',
+      neighborhood: 'West Village',
+      city: 'New York',
+      timeZone: 'America/New_York',
+      cuisine: ['Italian', 'American'],
+      priceRange: 3,
+      rating: 4.7,
+      lat: 40.7376,
+      lng: -74.0041,
+      bookingWindowDays: 14,
+      slots: {},
+    },
+  ],
+};
+
+// Default evening inventory for any date a fixture venue doesn't list explicitly
+const DEFAULT_SLOTS: Array<Omit<MockSlot, 'configId'>> = [
+  { time: '17:30', type: 'Dining Room' },
+  { time: '19:00', type: 'Dining Room', depositFee: 25, cancellationFee: 50 },
+  { time: '19:30', type: 'Bar' },
+  { time: '21:00', type: 'Patio' },
+];
+
+function defaultSlotsFor(venueId: number, day: string): MockSlot[] {
+  const dayNumber = parseInt(day.replace(/-/g, ''), 10) % 100000;
+  return DEFAULT_SLOTS.map((slot, i) => ({ ...slot, configId: venueId * 1000000 + dayNumber * 10 + i }));
+}
+
+/**
+ * Build a mock Resy server from a fixture and scenario
+ */
+export function createMockResyServer(
+  fixture: MockFixture = DEFAULT_FIXTURE,
+  initialScenario: MockScenario = {}
+): MockResyServer {
+  const app = express();
+  let scenario = { ...initialScenario };
+  let released = !scenario.releaseAt;
+  let requestCount = 0;
+  let authedRequests = 0;
+  let currentToken: string | null = null;
+  let tokenCounter = 0;
+  let reservationCounter = 5000;
+  const takenConfigIds = new Set<number>();
+  const racedConfigIds = new Set<number>();
+  const reservations: MockReservation[] = [];
+  const notifies: MockNotify[] = [];
+  let notifyCounter = 700;
+  const requestLog: MockResyServer['requestLog'] = [];
+  let server: Server | null = null;
+
+  function isReleased(): boolean {
+    if (released) return true;
+    if (scenario.releaseAt && Date.now() >= new Date(scenario.releaseAt).getTime()) {
+      released = true;
+    }
+    return released;
+  }
+
+  function slotsFor(venue: MockVenue, day: string): MockSlot[] {
+    if (!isReleased()) return [];
+    const slots = venue.slots[day] || defaultSlotsFor(venue.id, day);
+    const booked = new Set(
+      reservations.filter((r) => r.status === 'confirmed' && r.day === day).map((r) => r.configId)
+    );
+    return slots.filter((s) => !takenConfigIds.has(s.configId) && !booked.has(s.configId));
+  }
+
+  function findSlot(configId: number, day: string): { venue: MockVenue; slot: MockSlot } | null {
+    for (const venue of fixture.venues) {
+      const slot = slotsFor(venue, day).find((s) => s.configId === configId);
+      if (slot) return { venue, slot };
+    }
+    return null;
+  }
+
+  function toResySlot(venue: MockVenue, slot: MockSlot, day: string, partySize: number) {
+    return {
+      config: {
+        id: slot.configId,
+        type: slot.type || 'Dining Room',
+        token: `rgs://resy/${venue.id}/${slot.configId}/2/${day}/${day}/${slot.time}:00/${partySize}/${slot.type || 'Dining Room'}`,
+      },
+      date: { start: `${day} ${slot.time}:00`, end: `${day} ${slot.time}:00` },
+      payment: { deposit_fee: slot.depositFee, cancellation_fee: slot.cancellationFee },
+    };
+  }
+
+  function toResyVenue(venue: MockVenue) {
+    return {
+      id: { resy: venue.id },
+      name: venue.name,
+      location: {
+        name: venue.city || 'New York',
+        neighborhood: venue.neighborhood || '',
+        time_zone: venue.timeZone || 'America/New_York',
+        geo: { lat: venue.lat ?? 40.7128, lon: venue.lng ?? -73.9352 },
+      },
+      cuisine: venue.cuisine || [],
+      price_range: venue.priceRange || 2,
+      rating: venue.rating || 0,
+      images: [],
+      url_slug: venue.name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    };
+  }
+
+  app.use(express.urlencoded({ extended: false }));
+
+  // Request log, API key check and scripted 429s
+  app.use((req, res, next) => {
+    requestCount++;
+    res.on('finish', () => requestLog.push({ method: req.method, path: req.path, status: res.statusCode }));
+
+    if (fixture.apiKey && req.headers.authorization !== `ResyAPI api_key="${fixture.apiKey}"`) {
+      return res.status(401).json({ message: 'Invalid API key' });
+    }
+    if (scenario.rateLimitEvery && requestCount % scenario.rateLimitEvery === 0) {
+      return res.status(429).json({ message: 'Too many requests' });
+    }
+    next();
+  });
+
+  function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
+    const token = req.headers['x-resy-auth-token'];
+    if (!currentToken || token !== currentToken) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+
+    authedRequests++;
+    if (scenario.tokenExpiresAfter && authedRequests > scenario.tokenExpiresAfter) {
+      authedRequests = 0;
+      currentToken = null;
+      return res.status(401).json({ message: 'Token expired' });
+    }
+    next();
+  }
+
+  app.post('/3/auth/password', (req, res) => {
+    const { email, password } = req.body as { email?: string; password?: string };
+    if (email !== (fixture.email || DEFAULT_FIXTURE.email) || password !== (fixture.password || DEFAULT_FIXTURE.password)) {
+      return res.status(419).json({ message: 'Invalid credentials' });
+    }
+
+    currentToken = `mock-token-${++tokenCounter}`;
+    authedRequests = 0;
+    res.json({ id: 1, token: currentToken, first_name: 'Mock', last_name: 'Diner', email });
+  });
+
+  app.get('/4/find', (req, res) => {
+    const day = String(req.query.day || '');
+    const partySize = parseInt(String(req.query.party_size || '2'), 10);
+    const venueId = req.query.venue_id ? parseInt(String(req.query.venue_id), 10) : null;
+    const query = String(req.query.query || '').toLowerCase();
+
+    const venues = fixture.venues.filter((v) =>
+      venueId !== null ? v.id === venueId : !query || query.includes(v.name.toLowerCase()) || v.name.toLowerCase().includes(query)
+    );
+
+    res.json({
+      results: {
+        venues: venues.map((v) => ({
+          venue: toResyVenue(v),
+          slots: slotsFor(v, day).map((s) => toResySlot(v, s, day, partySize)),
+        })),
+      },
+      search: { hits: venueId !== null ? [] : venues.map(toResyVenue) },
+    });
+  });
+
+  app.get('/4/venue/calendar', (req, res) => {
+    const venue = fixture.venues.find((v) => v.id === parseInt(String(req.query.venue_id), 10));
+    if (!venue) return res.status(404).json({ message: 'Venue not found' });
+
+    const start = String(req.query.start_date);
+    const end = String(req.query.end_date);
+    const lastDay = new Date(`${start}T00:00:00Z`);
+    lastDay.setUTCDate(lastDay.getUTCDate() + (venue.bookingWindowDays ?? 30));
+    const lastCalendarDay = lastDay.toISOString().split('T')[0];
+
+    const scheduled: Array<{ date: string; inventory: { reservation: string } }> = [];
+    for (let d = new Date(`${start}T00:00:00Z`); d.toISOString().split('T')[0] <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+      const date = d.toISOString().split('T')[0];
+      const status = date > lastCalendarDay ? 'not available' : slotsFor(venue, date).length > 0 ? 'available' : 'sold-out';
+      scheduled.push({ date, inventory: { reservation: status } });
+    }
+
+    res.json({ last_calendar_day: lastCalendarDay, scheduled });
+  });
+
+  app.get('/3/details', requireAuth, (req, res) => {
+    const configId = parseInt(String(req.query.config_id), 10);
+    const day = String(req.query.day);
+    const found = findSlot(configId, day);
+    if (!found) return res.status(404).json({ message: 'Slot no longer available' });
+
+    const expires = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+    res.json({
+      book_token: { value: `book:${configId}:${day}:${req.query.party_size}`, date_expires: expires },
+      cancellation: {
+        fee: found.slot.cancellationFee ? { amount: found.slot.cancellationFee } : null,
+        display: { policy: ['Cancel up to 24 hours before without charge.'] },
+      },
+      payment: { deposit_fee: found.slot.depositFee ?? null },
+      user: { payment_methods: [{ id: 42, is_default: true, type: 'visa', display: '4242' }] },
+    });
+  });
+
+  app.post('/3/book', requireAuth, (req, res) => {
+    const [, configStr, day, partyStr] = String((req.body as { book_token?: string }).book_token || '').split(':');
+    const configId = parseInt(configStr, 10);
+
+    if (scenario.raceConfigIds?.includes(configId) && !racedConfigIds.has(configId)) {
+      racedConfigIds.add(configId);
+      takenConfigIds.add(configId);
+      return res.status(412).json({ message: 'Slot was booked by someone else' });
+    }
+
+    const found = findSlot(configId, day);
+    if (!found) return res.status(412).json({ message: 'Slot no longer available' });
+
+    const reservation: MockReservation = {
+      resyToken: `resy-token-${++reservationCounter}`,
+      reservationId: reservationCounter,
+      venueId: found.venue.id,
+      configId,
+      day,
+      time: found.slot.time,
+      partySize: parseInt(partyStr, 10) || 2,
+      status: 'confirmed',
+    };
+    reservations.push(reservation);
+
+    res.status(201).json({ resy_token: reservation.resyToken, reservation_id: reservation.reservationId });
+  });
+
+  app.delete('/3/book', requireAuth, (req, res) => {
+    const reservation = reservations.find((r) => r.resyToken === req.query.resy_token && r.status === 'confirmed');
+    if (!reservation) return res.status(404).json({ message: 'Reservation not found' });
+
+    reservation.status = 'cancelled';
+    res.json({ status: 'cancelled' });
+  });
+
+  app.post('/3/notify', requireAuth, (req, res) => {
+    const body = req.body as Record<string, string | undefined>;
+    const venueId = parseInt(body.venue_id || '', 10);
+    if (!fixture.venues.some((v) => v.id === venueId) || !body.day) {
+      return res.status(400).json({ message: 'Unknown venue or day' });
+    }
+
+    const notify: MockNotify = {
+      id: ++notifyCounter,
+      venueId,
+      day: body.day,
+      partySize: parseInt(body.num_seats || '2', 10),
+      start: body.time_preferred_start || '00:00:00',
+      end: body.time_preferred_end || '23:59:00',
+    };
+    notifies.push(notify);
+    res.status(201).json({ notify: { id: notify.id } });
+  });
+
+  app.delete('/3/notify', requireAuth, (req, res) => {
+    const index = notifies.findIndex((n) => String(n.id) === String(req.query.notify_id));
+    if (index === -1) return res.status(404).json({ message: 'Notify not found' });
+
+    notifies.splice(index, 1);
+    res.json({ status: 'deleted' });
+  });
+
+  app.get('/3/user/reservations', requireAuth, (_req, res) => {
+    res.json({
+      reservations: reservations.map((r) => {
+        const venue = fixture.venues.find((v) => v.id === r.venueId)!;
+        return {
+          resy_token: r.resyToken,
+          reservation_id: r.reservationId,
+          venue: { id: { resy: venue.id }, name: venue.name, location: { name: venue.city || 'New York' } },
+          reservation: { day: r.day, time_slot: `${r.time}:00`, num_seats: r.partySize },
+          status: r.status,
+        };
+      }),
+    });
+  });
+
+  return {
+    app,
+    reservations,
+    notifies,
+    requestLog,
+    start(port = 0) {
+      return new Promise((resolve) => {
+        server = app.listen(port, '127.0.0.1', () => {
+          const address = server!.address();
+          const actualPort = typeof address === 'object' && address ? address.port : port;
+          resolve(`http://127.0.0.1:${actualPort}`);
+        });
+      });
+    },
+    stop() {
+      return new Promise((resolve) => {
+        if (!server) return resolve();
+        server.close(() => resolve());
+        server = null;
+      });
+    },
+    releaseNow() {
+      released = true;
+    },
+    expireToken() {
+      currentToken = null;
+    },
+    takeSlot(configId: number) {
+      takenConfigIds.add(configId);
+    },
+    setScenario(next: MockScenario) {
+      scenario = { ...next };
+      released = !scenario.releaseAt;
+      racedConfigIds.clear();
+    },
+  };
+}
+
+// Run standalone: node dist/dev/mock-resy-server.js
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_RESY_PORT || '4010', 10);
+  const scenario: MockScenario = {
+    releaseAt: process.env.MOCK_RESY_RELEASE_AT,
+    rateLimitEvery: process.env.MOCK_RESY_RATE_LIMIT_EVERY ? parseInt(process.env.MOCK_RESY_RATE_LIMIT_EVERY, 10) : undefined,
+    tokenExpiresAfter: process.env.MOCK_RESY_TOKEN_EXPIRES_AFTER ? parseInt(process.env.MOCK_RESY_TOKEN_EXPIRES_AFTER, 10) : undefined,
+  };
+
+  createMockResyServer(DEFAULT_FIXTURE, scenario).start(port).then((url) => {
+    console.log(`Mock Resy API running at ${url}`);
+    console.log(`Log in with ${DEFAULT_FIXTURE.email} / ${DEFAULT_FIXTURE.password}`);
+  });
+}
@@ -0,0 +1,317 @@
+/**
+ * Bundled gazetteer of US cities and dining neighborhoods
+ *
+ * Coordinates are city (or neighborhood) centers, good to a few hundred
+ * meters. Where a name is shared ("Portland", "Chelsea"), the entry listed
+ * first wins an unqualified lookup; "Portland, ME" picks the other.
+ */
+
+export interface GazetteerEntry {
+  name: string;
+  state: string;                 // Two-letter code
+  lat: number;
+  lng: number;
+  kind: 'city' | 'neighborhood';
+  city?: string;                 // Parent city, for neighborhoods
+  aliases?: string[];
+}
+
+export const STATE_NAMES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina',
+  SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia',
+  WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+function city(name: string, state: string, lat: number, lng: number, aliases?: string[]): GazetteerEntry {
+  return { name, state, lat, lng, kind: 'city', aliases };
+}
+
+function hood(name: string, parent: string, state: string, lat: number, lng: number, aliases?: string[]): GazetteerEntry {
+  return { name, state, lat, lng, kind: 'neighborhood', city: parent, aliases };
+}
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // Cities, largest first within shared names
+  city('New York', 'NY', 40.7128, -74.0060, ['nyc', 'new york city', 'manhattan']),
+  city('Los Angeles', 'CA', 34.0522, -118.2437, ['la', 'l a']),
+  city('Chicago', 'IL', 41.8781, -87.6298),
+  city('Houston', 'TX', 29.7604, -95.3698),
+  city('Phoenix', 'AZ', 33.4484, -112.0740),
+  city('Philadelphia', 'PA', 39.9526, -75.1652, ['philly']),
+  city('San Antonio', 'TX', 29.4241, -98.4936),
+  city('San Diego', 'CA', 32.7157, -117.1611),
+  city('Dallas', 'TX', 32.7767, -96.7970),
+  city('San Jose', 'CA', 37.3382, -121.8863),
+  city('Austin', 'TX', 30.2672, -97.7431),
+  city('Jacksonville', 'FL', 30.3322, -81.6557),
+  city('Fort Worth', 'TX', 32.7555, -97.3308),
+  city('Columbus', 'OH', 39.9612, -82.9988),
+  city('Charlotte', 'NC', 35.2271, -80.8431),
+  city('Indianapolis', 'IN', 39.7684, -86.1581),
+  city('San Francisco', 'CA', 37.7749, -122.4194, ['sf', 'san fran']),
+  city('Seattle', 'WA', 47.6062, -122.3321),
+  city('Denver', 'CO', 39.7392, -104.9903),
+  city('Washington', 'DC', 38.9072, -77.0369, ['dc', 'washington dc', 'washington d c']),
+  city('Nashville', 'TN', 36.1627, -86.7816),
+  city('Oklahoma City', 'OK', 35.4676, -97.5164, ['okc']),
+  city('El Paso', 'TX', 31.7619, -106.4850),
+  city('Boston', 'MA', 42.3601, -71.0589),
+  city('Portland', 'OR', 45.5152, -122.6784, ['pdx']),
+  city('Las Vegas', 'NV', 36.1699, -115.1398, ['vegas']),
+  city('Detroit', 'MI', 42.3314, -83.0458),
+  city('Memphis', 'TN', 35.1495, -90.0490),
+  city('Louisville', 'KY', 38.2527, -85.7585),
+  city('Baltimore', 'MD', 39.2904, -76.6122),
+  city('Milwaukee', 'WI', 43.0389, -87.9065),
+  city('Albuquerque', 'NM', 35.0844, -106.6504),
+  city('Tucson', 'AZ', 32.2226, -110.9747),
+  city('Fresno', 'CA', 36.7378, -119.7871),
+  city('Sacramento', 'CA', 38.5816, -121.4944),
+  city('Kansas City', 'MO', 39.0997, -94.5786, ['kc']),
+  city('Mesa', 'AZ', 33.4152, -111.8315),
+  city('Atlanta', 'GA', 33.7490, -84.3880, ['atl']),
+  city('Omaha', 'NE', 41.2565, -95.9345),
+  city('Colorado Springs', 'CO', 38.8339, -104.8214),
+  city('Raleigh', 'NC', 35.7796, -78.6382),
+  city('Long Beach', 'CA', 33.7701, -118.1937),
+  city('Virginia Beach', 'VA', 36.8529, -75.9780),
+  city('Miami', 'FL', 25.7617, -80.1918),
+  city('Oakland', 'CA', 37.8044, -122.2712),
+  city('Minneapolis', 'MN', 44.9778, -93.2650),
+  city('Tulsa', 'OK', 36.1540, -95.9928),
+  city('Tampa', 'FL', 27.9506, -82.4572),
+  city('Arlington', 'VA', 38.8816, -77.0910),
+  city('New Orleans', 'LA', 29.9511, -90.0715, ['nola']),
+  city('Wichita', 'KS', 37.6872, -97.3301),
+  city('Cleveland', 'OH', 41.4993, -81.6944),
+  city('Bakersfield', 'CA', 35.3733, -119.0187),
+  city('Aurora', 'CO', 39.7294, -104.8319),
+  city('Anaheim', 'CA', 33.8366, -117.9143),
+  city('Honolulu', 'HI', 21.3069, -157.8583),
+  city('Santa Ana', 'CA', 33.7455, -117.8677),
+  city('Riverside', 'CA', 33.9806, -117.3755),
+  city('Corpus Christi', 'TX', 27.8006, -97.3964),
+  city('Lexington', 'KY', 38.0406, -84.5037),
+  city('Pittsburgh', 'PA', 40.4406, -79.9959),
+  city('Anchorage', 'AK', 61.2181, -149.9003),
+  city('Stockton', 'CA', 37.9577, -121.2908),
+  city('Cincinnati', 'OH', 39.1031, -84.5120),
+  city('Saint Paul', 'MN', 44.9537, -93.0900, ['st paul']),
+  city('Greensboro', 'NC', 36.0726, -79.7920),
+  city('Toledo', 'OH', 41.6528, -83.5379),
+  city('Newark', 'NJ', 40.7357, -74.1724),
+  city('Plano', 'TX', 33.0198, -96.6989),
+  city('Henderson', 'NV', 36.0395, -114.9817),
+  city('Orlando', 'FL', 28.5384, -81.3789),
+  city('Jersey City', 'NJ', 40.7178, -74.0431),
+  city('Saint Louis', 'MO', 38.6270, -90.1994, ['st louis', 'stl']),
+  city('Saint Petersburg', 'FL', 27.7676, -82.6403, ['st petersburg', 'st pete']),
+  city('Durham', 'NC', 35.9940, -78.8986),
+  city('Buffalo', 'NY', 42.8864, -78.8784),
+  city('Madison', 'WI', 43.0731, -89.4012),
+  city('Scottsdale', 'AZ', 33.4942, -111.9261),
+  city('Reno', 'NV', 39.5296, -119.8138),
+  city('Boise', 'ID', 43.6150, -116.2023),
+  city('Richmond', 'VA', 37.5407, -77.4360),
+  city('Spokane', 'WA', 47.6588, -117.4260),
+  city('Des Moines', 'IA', 41.5868, -93.6250),
+  city('Birmingham', 'AL', 33.5186, -86.8104),
+  city('Salt Lake City', 'UT', 40.7608, -111.8910, ['slc']),
+  city('Providence', 'RI', 41.8240, -71.4128),
+  city('Fort Lauderdale', 'FL', 26.1224, -80.1373),
+  city('Grand Rapids', 'MI', 42.9634, -85.6681),
+  city('Knoxville', 'TN', 35.9606, -83.9207),
+  city('Chattanooga', 'TN', 35.0456, -85.3097),
+  city('Charleston', 'SC', 32.7765, -79.9311, ['chs']),
+  city('Savannah', 'GA', 32.0809, -81.0912),
+  city('Asheville', 'NC', 35.5951, -82.5515),
+  city('Napa', 'CA', 38.2975, -122.2869),
+  city('Healdsburg', 'CA', 38.6105, -122.8692),
+  city('Santa Barbara', 'CA', 34.4208, -119.6982),
+  city('Palm Springs', 'CA', 33.8303, -116.5453),
+  city('Berkeley', 'CA', 37.8715, -122.2730),
+  city('Palo Alto', 'CA', 37.4419, -122.1430),
+  city('Pasadena', 'CA', 34.1478, -118.1445),
+  city('Santa Monica', 'CA', 34.0195, -118.4912),
+  city('Malibu', 'CA', 34.0259, -118.7798),
+  city('Miami Beach', 'FL', 25.7907, -80.1300),
+  city('Palm Beach', 'FL', 26.7056, -80.0364),
+  city('Naples', 'FL', 26.1420, -81.7948),
+  city('Key West', 'FL', 24.5551, -81.7800),
+  city('Hoboken', 'NJ', 40.7440, -74.0324),
+  city('Princeton', 'NJ', 40.3573, -74.6672),
+  city('New Haven', 'CT', 41.3083, -72.9279),
+  city('Hartford', 'CT', 41.7658, -72.6734),
+  city('Cambridge', 'MA', 42.3736, -71.1097),
+  city('Somerville', 'MA', 42.3876, -71.0995),
+  city('Portland', 'ME', 43.6591, -70.2568),
+  city('Burlington', 'VT', 44.4759, -73.2121),
+  city('Alexandria', 'VA', 38.8048, -77.0469),
+  city('Bethesda', 'MD', 38.9807, -77.1003),
+  city('Annapolis', 'MD', 38.9784, -76.4922),
+  city('Charlottesville', 'VA', 38.0293, -78.4767),
+  city('Hudson', 'NY', 42.2529, -73.7909),
+  city('Woodstock', 'NY', 42.0409, -74.1182),
+  city('Montauk', 'NY', 41.0359, -71.9545),
+  city('East Hampton', 'NY', 40.9634, -72.1848, ['the hamptons', 'hamptons']),
+  city('Sag Harbor', 'NY', 40.9979, -72.2926),
+  city('Greenwich', 'CT', 41.0262, -73.6282),
+  city('Stamford', 'CT', 41.0534, -73.5387),
+  city('Aspen', 'CO', 39.1911, -106.8175),
+  city('Boulder', 'CO', 40.0150, -105.2705),
+  city('Park City', 'UT', 40.6461, -111.4980),
+  city('Jackson', 'WY', 43.4799, -110.7624, ['jackson hole']),
+  city('Santa Fe', 'NM', 35.6870, -105.9378),
+  city('Sedona', 'AZ', 34.8697, -111.7610),
+  city('Fort Myers', 'FL', 26.6406, -81.8723),
+  city('Sarasota', 'FL', 27.3364, -82.5307),
+  city('Tallahassee', 'FL', 30.4383, -84.2807),
+  city('Athens', 'GA', 33.9519, -83.3576),
+  city('Columbia', 'SC', 34.0007, -81.0348),
+  city('Greenville', 'SC', 34.8526, -82.3940),
+  city('Birmingham', 'MI', 42.5467, -83.2113),
+  city('Ann Arbor', 'MI', 42.2808, -83.7430),
+  city('Evanston', 'IL', 42.0451, -87.6877),
+  city('Oak Park', 'IL', 41.8850, -87.7845),
+  city('Sonoma', 'CA', 38.2919, -122.4580),
+  city('Carmel', 'CA', 36.5552, -121.9233, ['carmel by the sea']),
+  city('Monterey', 'CA', 36.6002, -121.8947),
+  city('La Jolla', 'CA', 32.8328, -117.2713),
+  city('Newport Beach', 'CA', 33.6189, -117.9298),
+  city('Laguna Beach', 'CA', 33.5427, -117.7854),
+  city('Tacoma', 'WA', 47.2529, -122.4443),
+  city('Bellevue', 'WA', 47.6101, -122.2015),
+  city('Kirkland', 'WA', 47.6769, -122.2060),
+
+  // New York
+  hood('Brooklyn', 'New York', 'NY', 40.6782, -73.9442),
+  hood('Queens', 'New York', 'NY', 40.7282, -73.7949),
+  hood('The Bronx', 'New York', 'NY', 40.8448, -73.8648, ['bronx']),
+  hood('Staten Island', 'New York', 'NY', 40.5795, -74.1502),
+  hood('West Village', 'New York', 'NY', 40.7358, -74.0036),
+  hood('Greenwich Village', 'New York', 'NY', 40.7336, -74.0027, ['the village']),
+  hood('East Village', 'New York', 'NY', 40.7265, -73.9815),
+  hood('SoHo', 'New York', 'NY', 40.7233, -74.0030),
+  hood('NoHo', 'New York', 'NY', 40.7289, -73.9925),
+  hood('Nolita', 'New York', 'NY', 40.7230, -73.9949),
+  hood('Tribeca', 'New York', 'NY', 40.7163, -74.0086),
+  hood('Lower East Side', 'New York', 'NY', 40.7150, -73.9843, ['les']),
+  hood('Chinatown', 'New York', 'NY', 40.7158, -73.9970),
+  hood('Little Italy', 'New York', 'NY', 40.7191, -73.9973),
+  hood('Financial District', 'New York', 'NY', 40.7075, -74.0113, ['fidi']),
+  hood('Chelsea', 'New York', 'NY', 40.7465, -74.0014),
+  hood('Meatpacking District', 'New York', 'NY', 40.7406, -74.0078, ['meatpacking']),
+  hood('Flatiron', 'New York', 'NY', 40.7411, -73.9897, ['flatiron district']),
+  hood('Gramercy', 'New York', 'NY', 40.7368, -73.9845, ['gramercy park']),
+  hood('Union Square', 'New York', 'NY', 40.7359, -73.9911),
+  hood('Murray Hill', 'New York', 'NY', 40.7479, -73.9757),
+  hood('NoMad', 'New York', 'NY', 40.7448, -73.9880),
+  hood('Midtown', 'New York', 'NY', 40.7549, -73.9840, ['midtown manhattan']),
+  hood('Hell\'s Kitchen', 'New York', 'NY', 40.7638, -73.9918, ['hells kitchen', 'clinton']),
+  hood('Upper West Side', 'New York', 'NY', 40.7870, -73.9754, ['uws']),
+  hood('Upper East Side', 'New York', 'NY', 40.7736, -73.9566, ['ues']),
+  hood('Harlem', 'New York', 'NY', 40.8116, -73.9465),
+  hood('Williamsburg', 'New York', 'NY', 40.7081, -73.9571),
+  hood('Greenpoint', 'New York', 'NY', 40.7304, -73.9515),
+  hood('Bushwick', 'New York', 'NY', 40.6944, -73.9213),
+  hood('DUMBO', 'New York', 'NY', 40.7033, -73.9881),
+  hood('Brooklyn Heights', 'New York', 'NY', 40.6960, -73.9933),
+  hood('Cobble Hill', 'New York', 'NY', 40.6860, -73.9969),
+  hood('Carroll Gardens', 'New York', 'NY', 40.6795, -73.9991),
+  hood('Park Slope', 'New York', 'NY', 40.6710, -73.9814),
+  hood('Fort Greene', 'New York', 'NY', 40.6892, -73.9766),
+  hood('Prospect Heights', 'New York', 'NY', 40.6775, -73.9692),
+  hood('Crown Heights', 'New York', 'NY', 40.6694, -73.9422),
+  hood('Red Hook', 'New York', 'NY', 40.6734, -74.0083),
+  hood('Long Island City', 'New York', 'NY', 40.7447, -73.9485, ['lic']),
+  hood('Astoria', 'New York', 'NY', 40.7644, -73.9235),
+  hood('Flushing', 'New York', 'NY', 40.7675, -73.8331),
+  hood('Jackson Heights', 'New York', 'NY', 40.7557, -73.8831),
+
+  // Los Angeles
+  hood('Hollywood', 'Los Angeles', 'CA', 34.0928, -118.3287),
+  hood('West Hollywood', 'Los Angeles', 'CA', 34.0900, -118.3617, ['weho']),
+  hood('Silver Lake', 'Los Angeles', 'CA', 34.0869, -118.2702, ['silverlake']),
+  hood('Echo Park', 'Los Angeles', 'CA', 34.0782, -118.2606),
+  hood('Los Feliz', 'Los Angeles', 'CA', 34.1063, -118.2848),
+  hood('Downtown Los Angeles', 'Los Angeles', 'CA', 34.0407, -118.2468, ['dtla']),
+  hood('Arts District', 'Los Angeles', 'CA', 34.0403, -118.2330),
+  hood('Koreatown', 'Los Angeles', 'CA', 34.0618, -118.3004, ['ktown']),
+  hood('Venice', 'Los Angeles', 'CA', 33.9850, -118.4695),
+  hood('Beverly Hills', 'Los Angeles', 'CA', 34.0736, -118.4004),
+  hood('Culver City', 'Los Angeles', 'CA', 34.0211, -118.3965),
+  hood('Studio City', 'Los Angeles', 'CA', 34.1396, -118.3870),
+
+  // San Francisco Bay Area
+  hood('Mission District', 'San Francisco', 'CA', 37.7599, -122.4148, ['the mission']),
+  hood('Hayes Valley', 'San Francisco', 'CA', 37.7759, -122.4245),
+  hood('North Beach', 'San Francisco', 'CA', 37.8061, -122.4103),
+  hood('Nob Hill', 'San Francisco', 'CA', 37.7930, -122.4161),
+  hood('SoMa', 'San Francisco', 'CA', 37.7785, -122.4056, ['south of market']),
+  hood('Marina', 'San Francisco', 'CA', 37.8037, -122.4368, ['marina district']),
+  hood('Castro', 'San Francisco', 'CA', 37.7609, -122.4350, ['the castro']),
+  hood('Noe Valley', 'San Francisco', 'CA', 37.7502, -122.4337),
+  hood('Pacific Heights', 'San Francisco', 'CA', 37.7925, -122.4382),
+  hood('Russian Hill', 'San Francisco', 'CA', 37.8011, -122.4194),
+  hood('Dogpatch', 'San Francisco', 'CA', 37.7577, -122.3926),
+
+  // Chicago
+  hood('West Loop', 'Chicago', 'IL', 41.8826, -87.6509),
+  hood('River North', 'Chicago', 'IL', 41.8924, -87.6341),
+  hood('Wicker Park', 'Chicago', 'IL', 41.9088, -87.6796),
+  hood('Logan Square', 'Chicago', 'IL', 41.9234, -87.7083),
+  hood('Lincoln Park', 'Chicago', 'IL', 41.9214, -87.6513),
+  hood('Gold Coast', 'Chicago', 'IL', 41.9058, -87.6273),
+  hood('Fulton Market', 'Chicago', 'IL', 41.8866, -87.6482),
+  hood('Pilsen', 'Chicago', 'IL', 41.8560, -87.6564),
+  hood('The Loop', 'Chicago', 'IL', 41.8786, -87.6251, ['loop']),
+
+  // Other cities
+  hood('Back Bay', 'Boston', 'MA', 42.3503, -71.0810),
+  hood('South End', 'Boston', 'MA', 42.3388, -71.0765),
+  hood('North End', 'Boston', 'MA', 42.3647, -71.0542),
+  hood('Seaport', 'Boston', 'MA', 42.3519, -71.0446, ['seaport district']),
+  hood('Georgetown', 'Washington', 'DC', 38.9097, -77.0654),
+  hood('Dupont Circle', 'Washington', 'DC', 38.9096, -77.0434, ['dupont']),
+  hood('Logan Circle', 'Washington', 'DC', 38.9097, -77.0297),
+  hood('Shaw', 'Washington', 'DC', 38.9123, -77.0219),
+  hood('Navy Yard', 'Washington', 'DC', 38.8764, -77.0030),
+  hood('Capitol Hill', 'Washington', 'DC', 38.8899, -76.9905),
+  hood('Capitol Hill', 'Seattle', 'WA', 47.6253, -122.3222),
+  hood('Ballard', 'Seattle', 'WA', 47.6681, -122.3847),
+  hood('Fremont', 'Seattle', 'WA', 47.6505, -122.3493),
+  hood('Wynwood', 'Miami', 'FL', 25.8010, -80.1994),
+  hood('Brickell', 'Miami', 'FL', 25.7617, -80.1918),
+  hood('Little Havana', 'Miami', 'FL', 25.7655, -80.2196),
+  hood('Design District', 'Miami', 'FL', 25.8133, -80.1930),
+  hood('Coconut Grove', 'Miami', 'FL', 25.7280, -80.2374),
+  hood('South Beach', 'Miami', 'FL', 25.7826, -80.1341, ['sobe']),
+  hood('French Quarter', 'New Orleans', 'LA', 29.9584, -90.0644),
+  hood('Garden District', 'New Orleans', 'LA', 29.9285, -90.0842),
+  hood('Marigny', 'New Orleans', 'LA', 29.9647, -90.0563),
+  hood('East Austin', 'Austin', 'TX', 30.2630, -97.7222),
+  hood('South Congress', 'Austin', 'TX', 30.2475, -97.7502, ['soco']),
+  hood('Deep Ellum', 'Dallas', 'TX', 32.7843, -96.7836),
+  hood('Bishop Arts', 'Dallas', 'TX', 32.7485, -96.8290, ['bishop arts district']),
+  hood('Montrose', 'Houston', 'TX', 29.7444, -95.3905),
+  hood('Houston Heights', 'Houston', 'TX', 29.7980, -95.3980, ['the heights']),
+  hood('East Nashville', 'Nashville', 'TN', 36.1840, -86.7470),
+  hood('The Gulch', 'Nashville', 'TN', 36.1512, -86.7854, ['gulch']),
+  hood('Germantown', 'Nashville', 'TN', 36.1785, -86.7905),
+  hood('LoDo', 'Denver', 'CO', 39.7528, -105.0007, ['lower downtown']),
+  hood('RiNo', 'Denver', 'CO', 39.7684, -104.9794, ['river north art district']),
+  hood('Fishtown', 'Philadelphia', 'PA', 39.9726, -75.1340),
+  hood('Rittenhouse', 'Philadelphia', 'PA', 39.9496, -75.1718, ['rittenhouse square']),
+  hood('Old City', 'Philadelphia', 'PA', 39.9522, -75.1432),
+  hood('Pearl District', 'Portland', 'OR', 45.5290, -122.6819, ['the pearl']),
+  hood('Inman Park', 'Atlanta', 'GA', 33.7576, -84.3530),
+  hood('Midtown', 'Atlanta', 'GA', 33.7838, -84.3830),
+  hood('Buckhead', 'Atlanta', 'GA', 33.8384, -84.3799),
+  hood('The Strip', 'Las Vegas', 'NV', 36.1147, -115.1728, ['las vegas strip', 'strip']),
+];
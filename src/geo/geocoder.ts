@@ -0,0 +1,219 @@
+/**
+ * Offline geocoding for search locations
+ *
+ * Turns "Charleston", "West Village, New York" or "40.73,-74.00" into a
+ * point and a search radius. The default geocoder reads the bundled
+ * gazetteer; setGeocoder() swaps in another (e.g. an online service).
+ * Unknown locations are an error, never a silent default.
+ */
+
+import { ErrorCode, ReservationError, type Coordinates } from '../types/restaurant.js';
+import { removeAccents } from '../utils/normalize.js';
+import { levenshteinDistance } from '../utils/fuzzy.js';
+import { GAZETTEER, STATE_NAMES, type GazetteerEntry } from './gazetteer.js';
+
+// Rough extent of each kind of place, reported with the geocoded result
+const CITY_RADIUS_MILES = 10;
+const NEIGHBORHOOD_RADIUS_MILES = 1.5;
+const POINT_RADIUS_MILES = 3;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export interface GeoPlace {
+  name: string;                  // Display name, e.g. "Charleston, SC"
+  coordinates: Coordinates;
+  kind: 'city' | 'neighborhood' | 'point';
+  radiusMiles: number;           // Rough extent of the place
+}
+
+export interface Geocoder {
+  readonly name: string;
+  geocode(location: string): Promise<GeoPlace | null>;
+  suggest?(location: string): string[];  // Close names, for the unknown-location error
+}
+
+// Where to search: a center, an optional radius filter and what it came from
+export interface SearchArea {
+  coordinates: Coordinates;
+  radiusMiles?: number;          // Only set when the caller asked for one
+  place: GeoPlace;
+}
+
+function normalize(text: string): string {
+  return removeAccents(text.toLowerCase())
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9,]+/g, ' ')
+    .replace(/\bst\b/g, 'saint')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function displayName(entry: GazetteerEntry): string {
+  return entry.kind === 'neighborhood'
+    ? `${entry.name}, ${entry.city}, ${entry.state}`
+    : `${entry.name}, ${entry.state}`;
+}
+
+function toPlace(entry: GazetteerEntry): GeoPlace {
+  return {
+    name: displayName(entry),
+    coordinates: { lat: entry.lat, lng: entry.lng },
+    kind: entry.kind,
+    radiusMiles: entry.kind === 'city' ? CITY_RADIUS_MILES : NEIGHBORHOOD_RADIUS_MILES,
+  };
+}
+
+/**
+ * Geocoder over the bundled gazetteer of US cities and neighborhoods
+ *
+ * Accepts a name with optional qualifiers: "Portland, ME", "Chelsea, New
+ * York", "Charleston SC". Unqualified shared names resolve to the entry
+ * listed first.
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly name = 'gazetteer';
+  private byName = new Map<string, GazetteerEntry[]>();
+  private states = new Map<string, string>();
+
+  constructor(entries: GazetteerEntry[] = GAZETTEER) {
+    for (const entry of entries) {
+      // "St." and "Saint" normalize the same way
+      for (const name of [entry.name, ...(entry.aliases || [])]) {
+        const key = normalize(name).replace(/,/g, '');
+        const list = this.byName.get(key) ?? [];
+        list.push(entry);
+        this.byName.set(key, list);
+      }
+    }
+    for (const [code, name] of Object.entries(STATE_NAMES)) {
+      this.states.set(code.toLowerCase(), code);
+      this.states.set(normalize(name), code);
+    }
+  }
+
+  async geocode(location: string): Promise<GeoPlace | null> {
+    const entry = this.lookup(location);
+    return entry ? toPlace(entry) : null;
+  }
+
+  suggest(location: string): string[] {
+    const key = normalize(location).split(',')[0].trim();
+    if (!key) return [];
+
+    return Array.from(this.byName.entries())
+      .map(([name, entries]) => ({ entries, distance: levenshteinDistance(key, name) }))
+      .filter((c) => c.distance <= Math.max(2, Math.floor(key.length / 3)))
+      .sort((a, b) => a.distance - b.distance)
+      .flatMap((c) => c.entries.map(displayName))
+      .filter((name, i, all) => all.indexOf(name) === i)
+      .slice(0, 5);
+  }
+
+  private lookup(location: string): GazetteerEntry | null {
+    const parts = normalize(location).split(',').map((p) => p.trim()).filter(Boolean);
+    if (parts.length === 0) return null;
+
+    // Whole string first ("washington dc", "new york city"), then name + qualifiers
+    const whole = this.byName.get(parts.join(' '));
+    if (whole) return whole[0];
+
+    let [head, ...qualifiers] = parts;
+
+    // "Charleston SC", "West Village NYC": a trailing qualifier with no comma
+    if (!this.byName.has(head)) {
+      const words = head.split(' ');
+      for (let take = 1; take < words.length; take++) {
+        const tail = words.slice(-take).join(' ');
+        const rest = words.slice(0, -take).join(' ');
+        if ((this.states.has(tail) || this.byName.has(tail)) && this.byName.has(rest)) {
+          head = rest;
+          qualifiers = [tail, ...qualifiers];
+          break;
+        }
+      }
+    }
+
+    const candidates = this.byName.get(head);
+    if (!candidates) return null;
+
+    const matching = candidates.filter((entry) => qualifiers.every((q) => this.qualifies(entry, q)));
+    return matching[0] ?? null;
+  }
+
+  // A qualifier names the entry's state or, for a neighborhood, its city (or another part of it)
+  private qualifies(entry: GazetteerEntry, qualifier: string): boolean {
+    if (this.states.get(qualifier) === entry.state) return true;
+    if (!entry.city) return false;
+    return this.byName.get(qualifier)?.some((c) => (c.kind === 'city' ? c.name : c.city) === entry.city) ?? false;
+  }
+}
+
+let geocoder: Geocoder = new GazetteerGeocoder();
+
+/**
+ * Replace the geocoder used by search
+ */
+export function setGeocoder(next: Geocoder): void {
+  geocoder = next;
+}
+
+export function getGeocoder(): Geocoder {
+  return geocoder;
+}
+
+// "40.7336,-74.0027" or "40.7336, -74.0027"
+function parseCoordinates(location: string): Coordinates | null {
+  const match = location.trim().match(/^(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * Geocode a location, throwing UNKNOWN_LOCATION when it can't be placed
+ */
+export async function geocodeLocation(location: string): Promise<GeoPlace> {
+  const coordinates = parseCoordinates(location);
+  if (coordinates) {
+    return { name: location.trim(), coordinates, kind: 'point', radiusMiles: POINT_RADIUS_MILES };
+  }
+
+  const place = await geocoder.geocode(location);
+  if (place) return place;
+
+  const suggestions = geocoder.suggest?.(location) ?? [];
+  throw new ReservationError(
+    ErrorCode.UNKNOWN_LOCATION,
+    `Unknown location: "${location}". Use a US city or neighborhood (e.g., "Charleston, SC" or "West Village, New York") or pass latitude and longitude.`,
+    { suggestions: suggestions.map((s) => `Did you mean ${s}?`) }
+  );
+}
+
+/**
+ * The area to search: explicit coordinates win over the location name
+ */
+export async function resolveSearchArea(
+  location: string,
+  coordinates?: Coordinates,
+  radiusMiles?: number
+): Promise<SearchArea> {
+  const place: GeoPlace = coordinates
+    ? { name: `${coordinates.lat},${coordinates.lng}`, coordinates, kind: 'point', radiusMiles: POINT_RADIUS_MILES }
+    : await geocodeLocation(location);
+
+  return { coordinates: place.coordinates, radiusMiles, place };
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function distanceMiles(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
@@ -10,9 +10,7 @@ import {
   getOpenTableAuthStatus,
 } from './credentials.js';
 import { resyClient } from './platforms/resy.js';
-import { openTableClient } from './platforms/opentable.js';
-import { tockClient } from './platforms/tock.js';
-import { parseRestaurantId } from './platforms/base.js';
+import { listPlatforms, platformEnum } from './platforms/index.js';
 import {
   findTable,
   searchRestaurant,
@@ -20,14 +18,23 @@ import {
   getRestaurantsByIds,
   getRestaurantDetails,
   checkAvailability,
+  checkAvailabilityRange,
+  findSlotListing,
+  MAX_AVAILABILITY_RANGE_DAYS,
   getBookingOptions,
   getPlatformHealth,
   getAvailablePlatforms,
-  getPlatformClient,
 } from './services/search.js';
+import { listReservations, cancelReservation, modifyReservation, bookReservation } from './services/reservations.js';
+import { checkBookingConflicts } from './services/conflicts.js';
+import { confirmHold, releaseHold } from './services/holds.js';
+import { exportCalendar } from './services/calendar.js';
+import { confirmMatch, splitMatch } from './services/catalog.js';
+import { discoverTables } from './services/discovery.js';
+import { clockTimeToMinutes, isValidTimeZone } from './utils/time.js';
 import { rateLimiter } from './services/rate-limiter.js';
 import { cache } from './services/cache.js';
-import type { PlatformName, ReservationParams } from './types/restaurant.js';
+import type { PlatformName, PriceRange, ReservationParams } from './types/restaurant.js';
 import {
   snipeReservation,
   snipeReservationSchema,
@@ -35,28 +42,91 @@ import {
   listSnipesSchema,
   cancelSnipe,
   cancelSnipeSchema,
+  snipeCampaign,
+  snipeCampaignSchema,
+  listScheduledCampaigns,
+  listCampaignsSchema,
+  cancelCampaign,
+  cancelCampaignSchema,
 } from './tools/snipe.js';
+import {
+  watchAvailability,
+  watchAvailabilitySchema,
+  listAvailabilityWatches,
+  listWatchesSchema,
+  cancelWatch,
+  cancelWatchSchema,
+} from './tools/watch.js';
+import {
+  joinNotify,
+  joinNotifySchema,
+  listNotifyRequests,
+  listNotifiesSchema,
+  removeNotify,
+  removeNotifySchema,
+} from './tools/notify.js';
+import {
+  setReleasePolicy,
+  setReleasePolicySchema,
+  getVenueReleasePolicy,
+  getReleasePolicySchema,
+} from './tools/release-policy.js';
+import { slotPreferenceFields, toSlotPreferences } from './tools/preferences.js';
+import { conflictGuardFields, toConflictOptions } from './tools/conflicts.js';
+import { searchAreaFields, searchErrorPayload, toSearchArea } from './tools/search-area.js';
+import { paymentFields, toPaymentOptions } from './tools/payment.js';
 import { startScheduler, stopScheduler } from './sniper/scheduler.js';
 
 // Schemas for tool inputs
 const findTableSchema = z.object({
   restaurant: z.string().min(1).max(100).describe('Restaurant name'),
-  location: z.string().min(1).max(100).describe('City or neighborhood'),
-  date: z.string().describe('Date (YYYY-MM-DD) or relative like "friday", "tomorrow"'),
-  time: z.string().describe('Preferred time like "noon", "7pm", "around 8"'),
+  location: z.string().min(1).max(100).describe('City or neighborhood (e.g., "Charleston, SC", "West Village, New York") or "lat,lng"'),
+  date: z.string().describe('Date (YYYY-MM-DD) or a phrase like "friday", "tomorrow", "this weekend", "Thu or Fri", "Valentine\'s Day", "the 14th"; several dates are tried in order'),
+  time: z.string().describe('Preferred time like "7:30pm", "around 8", "before 7", "after 9:15", "early dinner" or "between 6 and 7:30"'),
   party_size: z.number().int().min(1).max(20).default(2).describe('Number of guests'),
-  book: z.boolean().default(true).describe('Automatically book the best available slot'),
+  book: z.boolean().default(true).describe('Book (or hold) the best available slot'),
+  hold: z.boolean().default(true).describe('Hold the slot and return its deposit, cancellation fee and policy for confirm_booking instead of booking straight away. Platforms without holds book directly.'),
+  notify: z.boolean().default(false).describe('If the restaurant has no availability, join its notify list (Resy) for the first date and the time window'),
+  notify_auto_book: z.boolean().default(false).describe('With notify, also have the sniper book the first matching slot that opens up'),
+  time_zone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional().describe('Your IANA time zone (e.g., "America/Los_Angeles"), which "today" and "tonight" count from; defaults to America/New_York'),
+  ...slotPreferenceFields,
+  ...conflictGuardFields,
+  ...searchAreaFields,
+  ...paymentFields,
+});
+
+const discoverTablesSchema = z.object({
+  location: z.string().min(1).max(100).describe('City or neighborhood (e.g., "Charleston, SC", "West Village, New York") or "lat,lng"'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Date (YYYY-MM-DD)'),
+  time: z.string().describe('Preferred time (e.g., "8:00 PM")'),
+  party_size: z.number().int().min(1).max(20).default(2).describe('Number of guests'),
+  cuisine: z.string().max(50).optional().describe('Only restaurants serving this cuisine (e.g., "italian")'),
+  price_range: z.array(z.number().int().min(1).max(4)).max(4).optional().describe('Acceptable price levels, 1 ($) to 4 ($$$$)'),
+  min_rating: z.number().min(0).max(5).optional().describe('Minimum rating'),
+  sort_by: z.enum(['best', 'distance']).default('best').describe('Rank by rating and closeness to the time, or nearest first'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Maximum number of restaurants to return'),
+  ...slotPreferenceFields,
+  ...searchAreaFields,
 });
 
 const searchRestaurantSchema = z.object({
   name: z.string().min(1).max(100).describe('Restaurant name to search for'),
-  location: z.string().min(1).max(100).describe('City or neighborhood'),
+  location: z.string().min(1).max(100).describe('City or neighborhood (e.g., "Charleston, SC", "West Village, New York") or "lat,lng"'),
   date: z.string().optional().describe('Optional date for availability context (YYYY-MM-DD)'),
   party_size: z.number().int().min(1).max(20).default(2).describe('Party size'),
+  ...searchAreaFields,
 });
 
 const getRestaurantSchema = z.object({
-  restaurant_id: z.string().min(1).describe('Restaurant ID in format "platform-id" (e.g., resy-12345, opentable-67890, tock-venue-slug)'),
+  restaurant_id: z.string().min(1).describe('Restaurant ID on any platform (e.g., resy-12345, opentable-67890, tock-venue-slug) or a venue ID from search_restaurant'),
+});
+
+const confirmMatchSchema = z.object({
+  restaurant_ids: z.array(z.string().min(1)).min(2).max(10).describe('Platform IDs of the same restaurant (e.g., ["resy-12345", "opentable-67890"])'),
+});
+
+const splitMatchSchema = z.object({
+  restaurant_id: z.string().min(1).describe('Platform ID wrongly matched to another restaurant (e.g., opentable-67890)'),
 });
 
 const getRestaurantsSchema = z.object({
@@ -69,25 +139,59 @@ const checkAvailabilitySchema = z.object({
   party_size: z.number().int().min(1).max(20).describe('Number of guests'),
 });
 
+const checkAvailabilityRangeSchema = z.object({
+  restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345, opentable-67890, tock-abc)'),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('First date to check (YYYY-MM-DD)'),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe(`Last date to check (YYYY-MM-DD), at most ${MAX_AVAILABILITY_RANGE_DAYS} days after start_date`),
+  party_size: z.number().int().min(1).max(20).describe('Number of guests'),
+});
+
 const makeReservationSchema = z.object({
   restaurant_id: z.string().min(1).describe('Restaurant ID'),
   slot_id: z.string().min(1).describe('Time slot ID from check_availability'),
+  platform: platformEnum().optional().describe('Platform the slot is on (the slot\'s `platform`); found automatically when omitted'),
   party_size: z.number().int().min(1).max(20).describe('Number of guests'),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Reservation date (YYYY-MM-DD)'),
+  ...conflictGuardFields,
+  ...paymentFields,
 });
 
+const confirmBookingSchema = z.object({
+  hold_id: z.string().min(1).describe('Hold ID from find_table'),
+  release: z.boolean().default(false).describe('Drop the hold without booking'),
+  ...conflictGuardFields,
+  ...paymentFields,
+});
 
 const getBookingOptionsSchema = z.object({
   restaurant_id: z.string().min(1).describe('Restaurant ID'),
 });
 
 const listReservationsSchema = z.object({
-  platform: z.enum(['resy', 'opentable', 'tock', 'all']).default('all').describe('Platform filter'),
+  platform: platformEnum(undefined, 'all').default('all').describe('Platform filter'),
+  when: z.enum(['upcoming', 'past', 'all']).default('upcoming').describe('Upcoming (today onward), past, or all bookings'),
+  status: z.enum(['confirmed', 'handoff', 'failed', 'cancelled']).optional().describe('Only bookings with this status (handoff = finish on the platform\'s website)'),
 });
 
 const cancelReservationSchema = z.object({
   reservation_id: z.string().min(1).describe('Reservation ID to cancel'),
-  platform: z.enum(['resy', 'opentable', 'tock']).describe('Platform'),
+  platform: platformEnum().describe('Platform'),
+});
+
+const modifyReservationSchema = z.object({
+  reservation_id: z.string().min(1).describe('Reservation ID to move (from list_reservations)'),
+  platform: platformEnum().describe('Platform'),
+  restaurant_id: z.string().min(1).describe('Restaurant ID'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('New date (YYYY-MM-DD)'),
+  party_size: z.number().int().min(1).max(20).describe('New number of guests'),
+  slot_id: z.string().optional().describe('New time slot ID from check_availability'),
+  time: z.string().optional().describe('Preferred new time (e.g., "7:30 PM") if no slot_id; the closest open slot is used'),
+  ...conflictGuardFields,
+});
+
+const exportCalendarSchema = z.object({
+  when: z.enum(['upcoming', 'all']).default('upcoming').describe('Upcoming reservations only, or the full history'),
+  include_cancelled: z.boolean().default(true).describe('Include cancelled bookings as STATUS:CANCELLED events so calendars remove them'),
 });
 
 const setCredentialsSchema = z.object({
@@ -103,7 +207,7 @@ const setLoginSchema = z.object({
 });
 
 const checkAuthStatusSchema = z.object({
-  platform: z.enum(['resy', 'opentable', 'tock', 'all']).default('all').describe('Platform to check'),
+  platform: platformEnum(undefined, 'all').default('all').describe('Platform to check'),
 });
 
 const refreshTokenSchema = z.object({
@@ -111,25 +215,94 @@ const refreshTokenSchema = z.object({
 });
 
 function registerTools(server: McpServer) {
-  server.tool('find_table', 'Find and book a table at a restaurant.', findTableSchema.shape, async (args) => {
+  server.tool('find_table', 'Find a table at a restaurant and hold it for confirm_booking, or book it.', findTableSchema.shape, async (args) => {
     const input = findTableSchema.parse(args);
-    const result = await findTable(input.restaurant, input.location, input.date, input.time, input.party_size, input.book);
-    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+    let preferences;
+    let area;
+    let payment;
+    try {
+      preferences = toSlotPreferences(input);
+      area = toSearchArea(input);
+      payment = toPaymentOptions(input);
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Invalid time preferences' }, null, 2) }] };
+    }
+    try {
+      const result = await findTable(input.restaurant, input.location, input.date, input.time, input.party_size, input.book ? (input.hold ? 'hold' : 'book') : 'search', preferences, toConflictOptions(input), area, payment, input.notify ? { autoBook: input.notify_auto_book } : undefined, input.time_zone);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify(searchErrorPayload(error), null, 2) }] };
+    }
+  });
+
+  server.tool('discover_tables', 'Find every restaurant with an open table near a time, e.g. "anywhere good at 8pm". Ranked by rating and closeness to the preferred time, or by distance.', discoverTablesSchema.shape, async (args) => {
+    const input = discoverTablesSchema.parse(args);
+    let preferences;
+    let area;
+    try {
+      preferences = toSlotPreferences(input);
+      clockTimeToMinutes(input.time);
+      area = toSearchArea(input);
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Invalid time preferences' }, null, 2) }] };
+    }
+    try {
+      const result = await discoverTables({
+        location: input.location,
+        ...area,
+        date: input.date,
+        time: input.time,
+        partySize: input.party_size,
+        cuisine: input.cuisine,
+        priceRange: input.price_range as PriceRange[] | undefined,
+        minRating: input.min_rating,
+        preferences,
+        sortBy: input.sort_by,
+        limit: input.limit,
+      });
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify(searchErrorPayload(error), null, 2) }] };
+    }
   });
 
   server.tool('search_restaurant', 'Search for a restaurant by name and location.', searchRestaurantSchema.shape, async (args) => {
     const input = searchRestaurantSchema.parse(args);
-    const result = await searchRestaurant(input.name, input.location, input.date, input.party_size);
-    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+    try {
+      const result = await searchRestaurant(input.name, input.location, input.date, input.party_size, toSearchArea(input));
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify(searchErrorPayload(error), null, 2) }] };
+    }
   });
 
   server.tool('get_restaurant', 'Look up a restaurant by its platform-specific ID.', getRestaurantSchema.shape, async (args) => {
     const input = getRestaurantSchema.parse(args);
     const result = await getRestaurantById(input.restaurant_id);
     if (result.error || !result.restaurant) {
-      return { content: [{ type: 'text' as const, text: JSON.stringify({ error: result.error || 'Restaurant not found' }, null, 2) }] };
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ error: result.error || 'Restaurant not found', venue: result.venue }, null, 2) }] };
+    }
+    return { content: [{ type: 'text' as const, text: JSON.stringify({ ...result.restaurant, venue: result.venue }, null, 2) }] };
+  });
+
+  server.tool('confirm_match', 'Mark listings on different platforms as the same restaurant in the venue catalog. Searches won\'t separate them again.', confirmMatchSchema.shape, async (args) => {
+    const input = confirmMatchSchema.parse(args);
+    try {
+      const venue = await confirmMatch(input.restaurant_ids);
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: true, venue }, null, 2) }] };
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Confirm failed' }, null, 2) }] };
+    }
+  });
+
+  server.tool('split_match', 'Separate a listing that was wrongly matched to another restaurant into its own venue. Searches won\'t merge them again.', splitMatchSchema.shape, async (args) => {
+    const input = splitMatchSchema.parse(args);
+    try {
+      const result = await splitMatch(input.restaurant_id);
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: true, ...result }, null, 2) }] };
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Split failed' }, null, 2) }] };
     }
-    return { content: [{ type: 'text' as const, text: JSON.stringify(result.restaurant, null, 2) }] };
   });
 
   server.tool('get_restaurants', 'Look up multiple restaurants by their IDs.', getRestaurantsSchema.shape, async (args) => {
@@ -145,13 +318,50 @@ function registerTools(server: McpServer) {
     return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
   });
 
+  server.tool('check_availability_range', 'Find which days in a date range have tables, with the open slots for each day.', checkAvailabilityRangeSchema.shape, async (args) => {
+    const input = checkAvailabilityRangeSchema.parse(args);
+    const result = await checkAvailabilityRange(input.restaurant_id, input.start_date, input.end_date, input.party_size);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
   server.tool('make_reservation', 'Book a reservation.', makeReservationSchema.shape, async (args) => {
     const input = makeReservationSchema.parse(args);
-    const parsed = parseRestaurantId(input.restaurant_id);
-    if (!parsed) return { content: [{ type: 'text' as const, text: `Invalid restaurant ID: ${input.restaurant_id}` }] };
-    const client = getPlatformClient(parsed.platform);
-    const params: ReservationParams = { restaurantId: input.restaurant_id, platform: parsed.platform, slotId: input.slot_id, date: input.date, partySize: input.party_size };
-    const result = await client.makeReservation(params);
+    let payment;
+    try {
+      payment = toPaymentOptions(input);
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Invalid payment options' }, null, 2) }] };
+    }
+    // The slot can be on any platform the restaurant was matched to; usually cached from check_availability
+    const found = await findSlotListing(input.restaurant_id, input.date, input.party_size, input.slot_id, input.platform);
+    if (!found) {
+      const reason = input.platform ? `No ${input.platform} listing known for ${input.restaurant_id}` : `Invalid restaurant ID: ${input.restaurant_id}`;
+      return { content: [{ type: 'text' as const, text: reason }] };
+    }
+    const { listing, slot } = found;
+    const params: ReservationParams = { restaurantId: listing.restaurantId, platform: listing.client.name, slotId: input.slot_id, date: input.date, partySize: input.party_size, payment };
+    const check = await checkBookingConflicts({ date: input.date, time: slot?.time, timeZone: slot?.timeZone }, toConflictOptions(input));
+    if (!check.allowed) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, platform: listing.client.name, error: check.message, conflicts: check.conflicts }, null, 2) }] };
+    }
+    const booking = await bookReservation(listing.client, params, { source: 'make_reservation', slot });
+    const result = check.conflicts.length > 0 ? { ...booking, conflicts: check.conflicts } : booking;
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('confirm_booking', 'Book a slot held by find_table, after its fees and cancellation policy are approved, or release the hold.', confirmBookingSchema.shape, async (args) => {
+    const input = confirmBookingSchema.parse(args);
+    if (input.release) {
+      const released = releaseHold(input.hold_id);
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: released, error: released ? undefined : `No hold ${input.hold_id}` }, null, 2) }] };
+    }
+    let payment;
+    try {
+      payment = toPaymentOptions(input);
+    } catch (error) {
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, error: error instanceof Error ? error.message : 'Invalid payment options' }, null, 2) }] };
+    }
+    const result = await confirmHold(input.hold_id, toConflictOptions(input), payment);
     return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
   });
 
@@ -161,31 +371,35 @@ function registerTools(server: McpServer) {
     return { content: [{ type: 'text' as const, text: JSON.stringify(options, null, 2) }] };
   });
 
-  server.tool('list_reservations', 'View your upcoming reservations.', listReservationsSchema.shape, async (args) => {
+  server.tool('list_reservations', 'View your reservations and booking history, reconciled with each platform\'s live reservations.', listReservationsSchema.shape, async (args) => {
     const input = listReservationsSchema.parse(args);
-    const results: Array<{ platform: string; reservationId: string; restaurantName: string; location: string; date: string; time: string; partySize: number; status: string }> = [];
-    if (input.platform === 'resy' || input.platform === 'all') {
-      try {
-        const resyReservations = await resyClient.getReservations();
-        for (const r of resyReservations) {
-          results.push({ platform: 'resy', reservationId: r.reservationId, restaurantName: r.venue.name, location: r.venue.location, date: r.date, time: r.time, partySize: r.partySize, status: r.status });
-        }
-      } catch {}
-    }
-    return { content: [{ type: 'text' as const, text: JSON.stringify(results, null, 2) }] };
+    const result = await listReservations(input.platform, { when: input.when, status: input.status });
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
   });
 
   server.tool('cancel_reservation', 'Cancel an existing reservation.', cancelReservationSchema.shape, async (args) => {
     const input = cancelReservationSchema.parse(args);
-    if (input.platform === 'resy') {
-      try {
-        await resyClient.cancelReservation(input.reservation_id);
-        return { content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message: 'Reservation cancelled successfully' }, null, 2) }] };
-      } catch (error) {
-        return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, message: error instanceof Error ? error.message : 'Failed to cancel' }, null, 2) }] };
-      }
-    }
-    return { content: [{ type: 'text' as const, text: JSON.stringify({ success: false, message: `${input.platform} reservations must be cancelled on their website` }, null, 2) }] };
+    const result = await cancelReservation(input.platform, input.reservation_id);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('modify_reservation', 'Move a reservation to a new time, date or party size. The new slot is booked before the original is cancelled, so a failed change leaves the original in place.', modifyReservationSchema.shape, async (args) => {
+    const input = modifyReservationSchema.parse(args);
+    const result = await modifyReservation(input.platform, {
+      reservationId: input.reservation_id,
+      restaurantId: input.restaurant_id,
+      date: input.date,
+      partySize: input.party_size,
+      slotId: input.slot_id,
+      time: input.time,
+    }, toConflictOptions(input));
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('export_calendar', 'Export reservations as an iCalendar (.ics) document.', exportCalendarSchema.shape, async (args) => {
+    const input = exportCalendarSchema.parse(args);
+    const ics = await exportCalendar({ when: input.when, includeCancelled: input.include_cancelled });
+    return { content: [{ type: 'text' as const, text: ics }] };
   });
 
   server.tool('set_credentials', 'Securely store API credentials.', setCredentialsSchema.shape, async (args) => {
@@ -225,8 +439,12 @@ function registerTools(server: McpServer) {
       const status = await getOpenTableAuthStatus();
       statuses.push({ ...status, isValid: true });
     }
-    if (input.platform === 'tock' || input.platform === 'all') {
-      statuses.push({ platform: 'tock', hasApiKey: false, hasAuthToken: false, hasLogin: false, isValid: true });
+    // Platforms without stored credentials report their own status
+    for (const client of listPlatforms()) {
+      if (client.name === 'resy' || client.name === 'opentable') continue;
+      if (input.platform === client.name || input.platform === 'all') {
+        statuses.push({ platform: client.name, hasApiKey: false, hasAuthToken: false, hasLogin: false, isValid: await client.isAuthenticated() });
+      }
     }
     return { content: [{ type: 'text' as const, text: JSON.stringify(statuses, null, 2) }] };
   });
@@ -265,11 +483,87 @@ function registerTools(server: McpServer) {
     return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
   });
 
+  server.tool('snipe_campaign', 'Schedule a ranked set of snipe options; books the best one that hits and skips the rest.', snipeCampaignSchema.shape, async (args) => {
+    const input = snipeCampaignSchema.parse(args);
+    const result = await snipeCampaign(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('list_campaigns', 'View all snipe campaigns and the status of each option.', listCampaignsSchema.shape, async (args) => {
+    const input = listCampaignsSchema.parse(args);
+    const results = await listScheduledCampaigns(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(results, null, 2) }] };
+  });
+
+  server.tool('cancel_campaign', 'Cancel a snipe campaign.', cancelCampaignSchema.shape, async (args) => {
+    const input = cancelCampaignSchema.parse(args);
+    const result = await cancelCampaign(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('watch_availability', 'Keep checking a restaurant over a date range and catch cancellations.', watchAvailabilitySchema.innerType().shape, async (args) => {
+    const input = watchAvailabilitySchema.parse(args);
+    const result = await watchAvailability(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('list_watches', 'View all availability watches.', listWatchesSchema.shape, async (args) => {
+    const input = listWatchesSchema.parse(args);
+    const results = await listAvailabilityWatches(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(results, null, 2) }] };
+  });
+
+  server.tool('cancel_watch', 'Stop an availability watch.', cancelWatchSchema.shape, async (args) => {
+    const input = cancelWatchSchema.parse(args);
+    const result = await cancelWatch(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('join_notify', 'Join a restaurant\'s notify list (Resy) for a sold-out date, party size and time range; optionally have the sniper book a slot when one opens.', joinNotifySchema.shape, async (args) => {
+    const input = joinNotifySchema.parse(args);
+    const result = await joinNotify(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('list_notifies', 'View notify list entries joined through this server.', listNotifiesSchema.shape, async (args) => {
+    const input = listNotifiesSchema.parse(args);
+    const results = await listNotifyRequests(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(results, null, 2) }] };
+  });
+
+  server.tool('remove_notify', 'Leave a notify list and stop any auto-booking for it.', removeNotifySchema.shape, async (args) => {
+    const input = removeNotifySchema.parse(args);
+    const result = await removeNotify(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('set_release_policy', 'Configure when a venue releases reservations (days ahead and local time).', setReleasePolicySchema.shape, async (args) => {
+    const input = setReleasePolicySchema.parse(args);
+    const result = await setReleasePolicy(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
+  server.tool('get_release_policy', 'Show a venue\'s release policy and when a given date opens.', getReleasePolicySchema.shape, async (args) => {
+    const input = getReleasePolicySchema.parse(args);
+    const result = await getVenueReleasePolicy(input);
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+  });
+
   server.tool('get_platform_status', 'Check health and rate limit status of all platforms.', {}, async () => {
     const health = await getPlatformHealth();
     const rateLimits = rateLimiter.getAllStatus();
     const cacheStats = cache.stats();
-    const status = { platforms: Object.entries(health).map(([platform, available]) => ({ platform, available, rateLimit: rateLimits.find((r) => r.platform === platform) })), cache: cacheStats };
+    const status = {
+      platforms: listPlatforms().map((client) => ({
+        platform: client.name,
+        idPrefix: client.idPrefix,
+        available: health[client.name],
+        capabilities: client.capabilities,
+        requiresAuth: client.requiresAuth,
+        rateLimit: rateLimits.find((r) => r.platform === client.name),
+      })),
+      cache: cacheStats,
+    };
     return { content: [{ type: 'text' as const, text: JSON.stringify(status, null, 2) }] };
   });
 }
@@ -324,6 +618,25 @@ function requireApiKey(req: express.Request, res: express.Response, next: expres
   next();
 }
 
+// Calendar apps can't send headers when subscribing, so the feed also takes ?key=
+function requireCalendarKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (typeof req.query.key === 'string' && MCP_API_KEY && req.query.key === MCP_API_KEY) return next();
+  requireApiKey(req, res, next);
+}
+
+// Subscribable iCalendar feed of reservations
+app.get('/calendar.ics', requireCalendarKey, async (req, res) => {
+  try {
+    const ics = await exportCalendar({
+      when: req.query.when === 'all' ? 'all' : 'upcoming',
+      includeCancelled: req.query.include_cancelled !== 'false',
+    });
+    res.type('text/calendar; charset=utf-8').send(ics);
+  } catch (err) {
+    res.status(500).json({ error: 'Calendar export failed' });
+  }
+});
+
 // Handle all MCP requests via POST /mcp
 app.post('/mcp', requireApiKey, async (req, res) => {
   try {
@@ -1,63 +1,39 @@
-import axios, { AxiosInstance } from 'axios';
+import {
+  buildOpenTableBookingUrl,
+  createDefaultAdapter,
+  type OpenTableAdapter,
+} from './scraper.js';
 import type { OpenTableSearchResult, OpenTableSlot } from './types.js';
 
-const BASE_URL = 'https://www.opentable.com/restref/api';
-const BOOKING_BASE = 'https://www.opentable.com/booking/experiences-availability';
-
+// The restref API is gone; data comes from the scraper adapter (see scraper.ts)
 export class OpenTableClient {
-  private client: AxiosInstance;
+  constructor(private adapter: OpenTableAdapter = createDefaultAdapter()) {}
 
-  constructor() {
-    this.client = axios.create({
-      baseURL: BASE_URL,
-      timeout: 30000,
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    });
+  setAdapter(adapter: OpenTableAdapter): void {
+    this.adapter = adapter;
   }
 
   async search(
     query: string,
     location: string,
-    _cuisine?: string
+    cuisine?: string
   ): Promise<OpenTableSearchResult[]> {
-    interface SearchResponse {
-      restaurants: Array<{
-        rid: number;
-        name: string;
-        address: string;
-        city: string;
-        cuisine: string;
-        price_range: number;
-        rating?: number;
-        reviews_count?: number;
-        photos?: string[];
-      }>;
-    }
-
     try {
-      const response = await this.client.get<SearchResponse>('/restaurants', {
-        params: {
-          name: query,
-          city: location,
-        },
-      });
+      const restaurants = await this.adapter.search({ query, location, cuisine });
 
-      return (response.data.restaurants || []).map((r) => ({
-        id: r.rid,
+      return restaurants.map((r) => ({
+        id: Number(r.platformId),
         name: r.name,
-        address: r.address,
-        city: r.city,
-        cuisine: r.cuisine || '',
-        priceRange: r.price_range || 0,
-        rating: r.rating || 0,
-        reviewsCount: r.reviews_count || 0,
-        imageUrl: r.photos?.[0],
+        address: r.neighborhood || '',
+        city: r.location,
+        cuisine: r.cuisine,
+        priceRange: r.priceRange,
+        rating: r.rating,
+        reviewsCount: r.reviewCount || 0,
+        imageUrl: r.imageUrl,
       }));
     } catch {
-      // OpenTable's public API is limited; return empty on failure
+      // Scraping can break when the site changes; return empty on failure
       return [];
     }
   }
@@ -67,35 +43,17 @@ export class OpenTableClient {
     date: string,
     partySize: number
   ): Promise<OpenTableSlot[]> {
-    interface AvailabilityResponse {
-      availability: {
-        [date: string]: Array<{
-          time: string;
-          available: boolean;
-        }>;
-      };
-    }
-
     try {
-      const response = await this.client.get<AvailabilityResponse>('/availability', {
-        params: {
-          rid: restaurantId,
-          datetime: `${date}T19:00`,
-          party_size: partySize,
-        },
-      });
-
-      const daySlots = response.data.availability?.[date] || [];
+      const slots = await this.adapter.getAvailability(restaurantId, date, partySize);
 
-      return daySlots
-        .filter((slot) => slot.available)
-        .map((slot) => ({
-          slotId: `ot-${restaurantId}-${date}-${slot.time}`,
-          time: slot.time,
-          bookingUrl: this.buildBookingUrl(restaurantId, date, slot.time, partySize),
-        }));
+      return slots.map((slot) => ({
+        slotId: slot.slotId,
+        time: slot.time,
+        type: slot.type,
+        bookingUrl: slot.bookingUrl || this.buildBookingUrl(restaurantId, date, slot.time, partySize),
+      }));
     } catch {
-      // Return empty if API fails
+      // Return empty if the page can't be fetched or parsed
       return [];
     }
   }
@@ -106,12 +64,7 @@ export class OpenTableClient {
     time: string,
     partySize: number
   ): string {
-    const params = new URLSearchParams({
-      rid: String(restaurantId),
-      datetime: `${date}T${time}`,
-      covers: String(partySize),
-    });
-    return `${BOOKING_BASE}?${params.toString()}`;
+    return buildOpenTableBookingUrl(restaurantId, date, time, partySize);
   }
 
   async getBookingUrl(
@@ -0,0 +1,310 @@
+/**
+ * OpenTable web scraper
+ *
+ * The restref API is gone, so OpenTable data comes from the public website.
+ * Search and profile pages embed their state as JSON (window.__INITIAL_STATE__),
+ * and availability comes from the web app's RestaurantsAvailability query.
+ *
+ * Fetching sits behind OpenTablePageSource so recorded fixture pages can stand
+ * in for the live site: set OPENTABLE_FIXTURE_DIR (e.g. fixtures/opentable) to
+ * run offline.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  OpenTableAvailabilityPayload,
+  OpenTableProfileState,
+  OpenTableSearchState,
+  OpenTableWebRestaurant,
+} from './types.js';
+import type {
+  PriceRange,
+  Restaurant,
+  RestaurantDetails,
+  SearchQuery,
+  TimeSlot,
+} from '../types/restaurant.js';
+import { minutesToClockTime, clockTimeToMinutes } from '../utils/time.js';
+import { extractEmbeddedState } from '../utils/embedded-state.js';
+
+const WEB_BASE = process.env.OPENTABLE_BASE_URL || 'https://www.opentable.com';
+const BOOKING_BASE = 'https://www.opentable.com/booking/experiences-availability';
+const STATE_MARKER = '__INITIAL_STATE__';
+const DEFAULT_SEARCH_TIME = '19:00'; // OpenTable returns slots within a few hours of the requested time
+
+const AVAILABILITY_QUERY = `query RestaurantsAvailability($restaurantIds: [Int!]!, $date: String!, $time: String!, $partySize: Int!, $databaseRegion: String!) {
+  availability(restaurantIds: $restaurantIds, date: $date, time: $time, partySize: $partySize, databaseRegion: $databaseRegion) {
+    restaurantId
+    availabilityDays { dayOffset slots { isAvailable timeOffsetMinutes slotHash attributes } }
+  }
+}`;
+
+// Slot attributes as OpenTable names them, mapped to seating types
+const SEATING_TYPES: Record<string, string> = {
+  default: 'Standard',
+  bar: 'Bar',
+  outdoor: 'Outdoor',
+  highTop: 'High Top',
+  counter: 'Counter',
+};
+
+/**
+ * Where raw OpenTable pages come from: the live site or recorded fixtures
+ */
+export interface OpenTablePageSource {
+  fetchSearchPage(term: string, date: string, partySize: number): Promise<string>;
+  fetchRestaurantPage(restaurantId: number): Promise<string>;
+  fetchAvailability(restaurantId: number, date: string, time: string, partySize: number): Promise<OpenTableAvailabilityPayload>;
+}
+
+/**
+ * What the OpenTable clients need from a data source, already in unified types
+ */
+export interface OpenTableAdapter {
+  search(query: SearchQuery): Promise<Restaurant[]>;
+  getDetails(restaurantId: number): Promise<RestaurantDetails | null>;
+  getAvailability(restaurantId: number, date: string, partySize: number): Promise<TimeSlot[]>;
+}
+
+export function buildOpenTableBookingUrl(restaurantId: number, date: string, time: string, partySize: number): string {
+  const params = new URLSearchParams({
+    rid: String(restaurantId),
+    datetime: `${date}T${time}`,
+    covers: String(partySize),
+  });
+  return `${BOOKING_BASE}?${params.toString()}`;
+}
+
+function toPriceRange(priceBandId?: number): PriceRange {
+  return Math.min(4, Math.max(1, priceBandId || 2)) as PriceRange;
+}
+
+function mapToRestaurant(r: OpenTableWebRestaurant): Restaurant {
+  const cuisines = (r.cuisines || []).map((c) => c.name).filter((c): c is string => !!c);
+
+  return {
+    id: `opentable-${r.restaurantId}`,
+    platform: 'opentable',
+    platformId: r.restaurantId,
+    name: r.name,
+    location: r.address?.city || r.neighborhood?.name || '',
+    neighborhood: r.neighborhood?.name,
+    cuisine: r.primaryCuisine?.name || cuisines[0] || '',
+    cuisines: cuisines.length > 0 ? cuisines : undefined,
+    priceRange: toPriceRange(r.priceBand?.priceBandId),
+    rating: r.statistics?.reviews?.ratings?.overall?.rating || 0,
+    reviewCount: r.statistics?.reviews?.allTimeTextReviewCount,
+    imageUrl: r.photos?.profile?.medium?.url,
+    coordinates: r.coordinates?.latitude !== undefined && r.coordinates?.longitude !== undefined
+      ? { lat: r.coordinates.latitude, lng: r.coordinates.longitude }
+      : undefined,
+  };
+}
+
+/**
+ * Restaurants listed in a search page's embedded state
+ */
+export function parseSearchResults(state: OpenTableSearchState | null): Restaurant[] {
+  return (state?.multiSearch?.restaurants || [])
+    .filter((r) => r.restaurantId && r.name)
+    .map(mapToRestaurant);
+}
+
+/**
+ * Restaurant details from a profile page's embedded state
+ */
+export function parseRestaurantDetails(state: OpenTableProfileState | null): RestaurantDetails | null {
+  const r = state?.restaurantProfile?.restaurant;
+  if (!r?.restaurantId || !r.name) return null;
+
+  const cuisines = (r.cuisines || []).map((c) => c.name).filter((c): c is string => !!c);
+  const images = (r.photos?.gallery?.photos || [])
+    .map((p) => p.thumbnails?.[0]?.url)
+    .filter((u): u is string => !!u);
+
+  return {
+    id: `opentable-${r.restaurantId}`,
+    platformIds: { opentable: r.restaurantId },
+    name: r.name,
+    description: r.description,
+    cuisines: cuisines.length > 0 ? cuisines : r.primaryCuisine?.name ? [r.primaryCuisine.name] : [],
+    priceRange: toPriceRange(r.priceBand?.priceBandId),
+    rating: r.statistics?.reviews?.ratings?.overall?.rating || 0,
+    reviewCount: r.statistics?.reviews?.allTimeTextReviewCount || 0,
+    address: {
+      street: [r.address?.line1, r.address?.line2].filter(Boolean).join(', '),
+      city: r.address?.city || '',
+      state: r.address?.state || '',
+      zip: r.address?.postCode || '',
+      neighborhood: r.neighborhood?.name,
+      coordinates: r.coordinates?.latitude !== undefined && r.coordinates?.longitude !== undefined
+        ? { lat: r.coordinates.latitude, lng: r.coordinates.longitude }
+        : undefined,
+    },
+    phone: r.contactInformation?.formattedPhoneNumber,
+    website: r.website,
+    acceptsOnlineReservations: true,
+    reservationPlatforms: ['opentable'],
+    bookingUrls: {
+      opentable: `https://www.opentable.com/restaurant/profile/${r.restaurantId}`,
+    },
+    menuUrl: r.menuUrl,
+    images: images.length > 0 ? images : r.photos?.profile?.medium?.url ? [r.photos.profile.medium.url] : [],
+    tags: r.tags,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Bookable slots for the requested date from a RestaurantsAvailability response.
+ * Slot times are offsets from the requested time, in the venue's wall clock.
+ */
+export function parseAvailability(
+  payload: OpenTableAvailabilityPayload,
+  restaurantId: number,
+  date: string,
+  time: string,
+  partySize: number
+): TimeSlot[] {
+  const entry = payload.data?.availability?.find((a) => a.restaurantId === restaurantId);
+  const day = entry?.availabilityDays?.find((d) => d.dayOffset === 0);
+  const base = clockTimeToMinutes(time);
+
+  return (day?.slots || [])
+    .filter((s) => s.isAvailable && s.timeOffsetMinutes !== undefined)
+    .map((s) => {
+      const slotTime = minutesToClockTime(base + (s.timeOffsetMinutes || 0));
+      const attribute = s.attributes?.[0];
+
+      return {
+        slotId: `ot-${restaurantId}-${date}-${slotTime}`,
+        platform: 'opentable' as const,
+        time: slotTime,
+        type: attribute ? SEATING_TYPES[attribute] || attribute : undefined,
+        bookingUrl: buildOpenTableBookingUrl(restaurantId, date, slotTime, partySize),
+      };
+    });
+}
+
+/**
+ * Fetches pages from opentable.com
+ */
+export class WebPageSource implements OpenTablePageSource {
+  private client: AxiosInstance;
+  private csrfToken: string | null = null;
+
+  constructor(baseUrl = WEB_BASE) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 15000,
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/json',
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/144.0.0.0 Safari/537.36',
+      },
+    });
+  }
+
+  async fetchSearchPage(term: string, date: string, partySize: number): Promise<string> {
+    const response = await this.client.get<string>('/s', {
+      params: { term, covers: partySize, dateTime: `${date}T${DEFAULT_SEARCH_TIME}` },
+      responseType: 'text',
+    });
+    return response.data;
+  }
+
+  async fetchRestaurantPage(restaurantId: number): Promise<string> {
+    const response = await this.client.get<string>(`/restaurant/profile/${restaurantId}`, { responseType: 'text' });
+
+    // The availability query needs the page's CSRF token
+    const token = response.data.match(/__CSRF_TOKEN__\s*=\s*['"]([^'"]+)['"]/);
+    if (token) this.csrfToken = token[1];
+
+    return response.data;
+  }
+
+  async fetchAvailability(restaurantId: number, date: string, time: string, partySize: number): Promise<OpenTableAvailabilityPayload> {
+    if (!this.csrfToken) {
+      await this.fetchRestaurantPage(restaurantId);
+    }
+
+    const response = await this.client.post<OpenTableAvailabilityPayload>(
+      '/dapi/fe/gql?optype=query&opname=RestaurantsAvailability',
+      {
+        operationName: 'RestaurantsAvailability',
+        query: AVAILABILITY_QUERY,
+        variables: { restaurantIds: [restaurantId], date, time, partySize, databaseRegion: 'NA' },
+      },
+      { headers: { 'Content-Type': 'application/json', 'x-csrf-token': this.csrfToken || '' } }
+    );
+    return response.data;
+  }
+}
+
+/**
+ * Serves recorded pages from a directory: search.html, restaurant-<rid>.html
+ * and availability-<rid>.json, falling back to restaurant.html and
+ * availability.json for any restaurant without its own recording
+ */
+export class FixturePageSource implements OpenTablePageSource {
+  constructor(private dir: string) {}
+
+  private async read(name: string, fallback: string): Promise<string> {
+    try {
+      return await readFile(join(this.dir, name), 'utf-8');
+    } catch {
+      return readFile(join(this.dir, fallback), 'utf-8');
+    }
+  }
+
+  fetchSearchPage(): Promise<string> {
+    return readFile(join(this.dir, 'search.html'), 'utf-8');
+  }
+
+  fetchRestaurantPage(restaurantId: number): Promise<string> {
+    return this.read(`restaurant-${restaurantId}.html`, 'restaurant.html');
+  }
+
+  async fetchAvailability(restaurantId: number): Promise<OpenTableAvailabilityPayload> {
+    const payload = JSON.parse(await this.read(`availability-${restaurantId}.json`, 'availability.json')) as OpenTableAvailabilityPayload;
+
+    // A shared recording belongs to some other restaurant; re-key it so it applies
+    for (const entry of payload.data?.availability || []) {
+      entry.restaurantId = restaurantId;
+    }
+    return payload;
+  }
+}
+
+/**
+ * Adapter that parses OpenTable's web pages into unified types
+ */
+export class ScraperAdapter implements OpenTableAdapter {
+  constructor(private source: OpenTablePageSource) {}
+
+  async search(query: SearchQuery): Promise<Restaurant[]> {
+    const term = [query.query, query.location].filter(Boolean).join(' ');
+    const date = query.date || new Date().toISOString().split('T')[0];
+    const html = await this.source.fetchSearchPage(term, date, query.partySize || 2);
+    return parseSearchResults(extractEmbeddedState<OpenTableSearchState>(html, STATE_MARKER));
+  }
+
+  async getDetails(restaurantId: number): Promise<RestaurantDetails | null> {
+    const html = await this.source.fetchRestaurantPage(restaurantId);
+    return parseRestaurantDetails(extractEmbeddedState<OpenTableProfileState>(html, STATE_MARKER));
+  }
+
+  async getAvailability(restaurantId: number, date: string, partySize: number): Promise<TimeSlot[]> {
+    const payload = await this.source.fetchAvailability(restaurantId, date, DEFAULT_SEARCH_TIME, partySize);
+    return parseAvailability(payload, restaurantId, date, DEFAULT_SEARCH_TIME, partySize);
+  }
+}
+
+/**
+ * Adapter for the current environment: fixtures if OPENTABLE_FIXTURE_DIR is set, else the live site
+ */
+export function createDefaultAdapter(): OpenTableAdapter {
+  const fixtureDir = process.env.OPENTABLE_FIXTURE_DIR;
+  return new ScraperAdapter(fixtureDir ? new FixturePageSource(fixtureDir) : new WebPageSource());
+}
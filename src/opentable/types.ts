@@ -49,5 +49,67 @@ export interface OpenTableSearchResult {
 export interface OpenTableSlot {
   slotId: string;
   time: string;
+  type?: string;
   bookingUrl: string;
 }
+
+// Embedded page state (window.__INITIAL_STATE__) on opentable.com web pages.
+// Only the fields the scraper reads are listed; everything is optional
+// because the shape drifts between page versions.
+
+export interface OpenTableWebRestaurant {
+  restaurantId: number;
+  name: string;
+  description?: string;
+  neighborhood?: { name?: string };
+  address?: { line1?: string; line2?: string; city?: string; state?: string; postCode?: string };
+  coordinates?: { latitude?: number; longitude?: number };
+  primaryCuisine?: { name?: string };
+  cuisines?: Array<{ name?: string }>;
+  priceBand?: { priceBandId?: number };
+  statistics?: {
+    reviews?: {
+      allTimeTextReviewCount?: number;
+      ratings?: { overall?: { rating?: number } };
+    };
+  };
+  photos?: {
+    profile?: { medium?: { url?: string } };
+    gallery?: { photos?: Array<{ thumbnails?: Array<{ url?: string }> }> };
+  };
+  contactInformation?: { formattedPhoneNumber?: string };
+  website?: string;
+  menuUrl?: string;
+  hoursOfOperation?: string;
+  tags?: string[];
+}
+
+export interface OpenTableSearchState {
+  multiSearch?: {
+    restaurants?: OpenTableWebRestaurant[];
+  };
+}
+
+export interface OpenTableProfileState {
+  restaurantProfile?: {
+    restaurant?: OpenTableWebRestaurant;
+  };
+}
+
+// Response of the web app's RestaurantsAvailability query
+export interface OpenTableAvailabilityPayload {
+  data?: {
+    availability?: Array<{
+      restaurantId: number;
+      availabilityDays?: Array<{
+        dayOffset: number;
+        slots?: Array<{
+          isAvailable: boolean;
+          timeOffsetMinutes?: number;
+          slotHash?: string;
+          attributes?: string[];
+        }>;
+      }>;
+    }>;
+  };
+}
@@ -9,8 +9,33 @@ import type {
   TimeSlot,
   ReservationParams,
   ReservationResult,
+  Reservation,
+  ModifyReservationParams,
+  AvailabilityCalendarDay,
+  VenueAvailability,
   SearchQuery,
+  BookingQuote,
+  NotifyParams,
 } from '../types/restaurant.js';
+import type { RateLimitConfig } from '../services/rate-limiter.js';
+import { todayIn, toVenueLocalTime } from '../utils/time.js';
+import { getPlatform, listPlatforms } from './registry.js';
+
+/**
+ * What a platform can do; tools and booking options check these instead of platform names
+ */
+export interface PlatformCapabilities {
+  search: boolean;
+  availability: boolean;
+  directBooking: boolean;        // Books in-app; otherwise makeReservation returns a URL
+  cancellation: boolean;
+  listing: boolean;              // Can list the user's reservations
+  modification: boolean;         // Can move a reservation to another slot
+  calendar: boolean;             // Can tell which days have inventory in one request
+  discovery: boolean;            // Can list open slots across every venue in an area
+  holds: boolean;                // Can quote a slot's fees and hold it before booking
+  notify: boolean;               // Can join a venue's notify list for a sold-out date
+}
 
 /**
  * Base interface that all platform clients must implement
@@ -19,6 +44,18 @@ export interface PlatformClient {
   /** Platform identifier */
   readonly name: PlatformName;
 
+  /** Prefix for unified restaurant IDs, e.g. "resy" in "resy-12345" */
+  readonly idPrefix: string;
+
+  /** Features this platform supports */
+  readonly capabilities: PlatformCapabilities;
+
+  /** Request budget, enforced by the shared rate limiter */
+  readonly rateLimit: RateLimitConfig;
+
+  /** Whether booking needs stored credentials */
+  readonly requiresAuth: boolean;
+
   /**
    * Search for restaurants
    * @param query Search parameters
@@ -42,6 +79,21 @@ export interface PlatformClient {
    */
   getAvailability(id: string | number, date: string, partySize: number): Promise<TimeSlot[]>;
 
+  /**
+   * Which days in a range have inventory (capabilities.calendar)
+   * @param id Platform-specific restaurant ID
+   * @param startDate First date, YYYY-MM-DD
+   * @param endDate Last date, YYYY-MM-DD
+   * @param partySize Number of guests
+   */
+  getAvailabilityCalendar?(id: string | number, startDate: string, endDate: string, partySize: number): Promise<AvailabilityCalendarDay[]>;
+
+  /**
+   * Every venue near query.location with open slots on query.date (capabilities.discovery)
+   * @param query Location, date and party size; query.query is ignored
+   */
+  findOpenings?(query: SearchQuery): Promise<VenueAvailability[]>;
+
   /**
    * Make a reservation
    * @param params Reservation parameters
@@ -49,6 +101,51 @@ export interface PlatformClient {
    */
   makeReservation(params: ReservationParams): Promise<ReservationResult>;
 
+  /**
+   * Fetch a slot's booking terms and a short-lived token to book it with (capabilities.holds)
+   * @param params Reservation parameters
+   * @returns Fees, cancellation policy and the token's expiry
+   */
+  quoteReservation?(params: ReservationParams): Promise<BookingQuote>;
+
+  /**
+   * Book with a token from quoteReservation (capabilities.holds)
+   * @param params The same reservation parameters the quote was for
+   * @param quote Quote whose token completes the booking
+   */
+  confirmReservation?(params: ReservationParams, quote: BookingQuote): Promise<ReservationResult>;
+
+  /**
+   * Join the venue's notify list for a date, party size and time range (capabilities.notify)
+   * @param params Restaurant, date, party size and time range
+   * @returns The platform's ID for the request
+   */
+  joinNotify?(params: NotifyParams): Promise<string>;
+
+  /**
+   * Leave a notify list joined with joinNotify (capabilities.notify)
+   * @param notifyId ID returned by joinNotify
+   */
+  leaveNotify?(notifyId: string): Promise<void>;
+
+  /**
+   * List the user's reservations (capabilities.listing)
+   */
+  listReservations?(): Promise<Reservation[]>;
+
+  /**
+   * Cancel a reservation (capabilities.cancellation)
+   * @param reservationId Platform reservation token from listReservations
+   */
+  cancelReservation?(reservationId: string): Promise<void>;
+
+  /**
+   * Move a reservation to another slot (capabilities.modification)
+   * @param params Existing reservation and the new slot
+   * @returns Result for the new booking
+   */
+  modifyReservation?(params: ModifyReservationParams): Promise<ReservationResult>;
+
   /**
    * Check if the platform is available/healthy
    * @returns true if platform is reachable and functional
@@ -66,20 +163,22 @@ export interface PlatformClient {
  * Helper to create a prefixed restaurant ID
  */
 export function createRestaurantId(platform: PlatformName, id: string | number): string {
-  return `${platform}-${id}`;
+  const prefix = getPlatform(platform)?.idPrefix ?? platform;
+  return `${prefix}-${id}`;
 }
 
 /**
  * Helper to extract platform and ID from a prefixed restaurant ID
  */
 export function parseRestaurantId(fullId: string): { platform: PlatformName; id: string } | null {
-  const platforms: PlatformName[] = ['resy', 'opentable', 'tock'];
+  // Longest prefix first, so "foo-bar-1" can't be claimed by a platform named "foo"
+  const clients = listPlatforms().sort((a, b) => b.idPrefix.length - a.idPrefix.length);
 
-  for (const platform of platforms) {
-    const prefix = `${platform}-`;
+  for (const client of clients) {
+    const prefix = `${client.idPrefix}-`;
     if (fullId.startsWith(prefix)) {
       return {
-        platform,
+        platform: client.name,
         id: fullId.slice(prefix.length),
       };
     }
@@ -93,6 +192,16 @@ export function parseRestaurantId(fullId: string): { platform: PlatformName; id:
  */
 export abstract class BasePlatformClient implements PlatformClient {
   abstract readonly name: PlatformName;
+  abstract readonly capabilities: PlatformCapabilities;
+  abstract readonly rateLimit: RateLimitConfig;
+  abstract readonly requiresAuth: boolean;
+
+  /**
+   * ID prefix, the platform name unless a client overrides it
+   */
+  get idPrefix(): string {
+    return this.name;
+  }
 
   abstract search(query: SearchQuery): Promise<Restaurant[]>;
   abstract getDetails(id: string | number): Promise<RestaurantDetails | null>;
@@ -112,7 +221,7 @@ export abstract class BasePlatformClient implements PlatformClient {
    * Extract the numeric/string ID from a prefixed ID
    */
   protected extractId(fullId: string): string {
-    const prefix = `${this.name}-`;
+    const prefix = `${this.idPrefix}-`;
     if (fullId.startsWith(prefix)) {
       return fullId.slice(prefix.length);
     }
@@ -120,33 +229,16 @@ export abstract class BasePlatformClient implements PlatformClient {
   }
 
   /**
-   * Get current date in YYYY-MM-DD format
+   * Get current date in YYYY-MM-DD format, in the venue's zone if known
    */
-  protected today(): string {
-    return new Date().toISOString().split('T')[0];
+  protected today(timeZone?: string): string {
+    return todayIn(timeZone);
   }
 
   /**
-   * Format time to HH:MM format
+   * Format a slot time to venue-local HH:MM format
    */
-  protected formatTime(time: string): string {
-    // Handle various time formats
-    const date = new Date(`2000-01-01T${time}`);
-    if (isNaN(date.getTime())) {
-      // Try parsing as 12-hour format
-      const match = time.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-      if (match) {
-        let hours = parseInt(match[1], 10);
-        const minutes = match[2];
-        const period = match[3]?.toUpperCase();
-
-        if (period === 'PM' && hours !== 12) hours += 12;
-        if (period === 'AM' && hours === 12) hours = 0;
-
-        return `${hours.toString().padStart(2, '0')}:${minutes}`;
-      }
-      return time;
-    }
-    return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  protected formatTime(time: string, timeZone?: string): string {
+    return toVenueLocalTime(time, timeZone)?.time ?? time;
   }
 }
@@ -0,0 +1,12 @@
+/**
+ * Built-in platforms
+ *
+ * Importing a client module registers it. Import this module (rather than
+ * registry.ts directly) anywhere the full set of platforms is needed.
+ */
+
+import './resy.js';
+import './opentable.js';
+import './tock.js';
+
+export * from './registry.js';
@@ -1,11 +1,15 @@
 /**
  * OpenTable platform client implementing PlatformClient interface
  * NOTE: The OpenTable public API (opentable.com/restref/api) has been shut down.
- * Search, details, and availability return empty results.
- * Booking URL construction still works for manual use.
+ * Search, details, and availability come from the website through a scraper
+ * adapter (see src/opentable/scraper.ts). Booking still hands back a URL.
  */
 
-import { BasePlatformClient } from './base.js';
+import { BasePlatformClient, type PlatformCapabilities } from './base.js';
+import { registerPlatform } from './registry.js';
+import { buildOpenTableBookingUrl, createDefaultAdapter, type OpenTableAdapter } from '../opentable/scraper.js';
+import { rateLimiter, type RateLimitConfig } from '../services/rate-limiter.js';
+import { cache, CacheKeys, CacheTTL } from '../services/cache.js';
 import type {
   PlatformName,
   Restaurant,
@@ -16,25 +20,91 @@ import type {
   SearchQuery,
 } from '../types/restaurant.js';
 
-const BOOKING_BASE = 'https://www.opentable.com/booking/experiences-availability';
-
 export class OpenTablePlatformClient extends BasePlatformClient {
   readonly name: PlatformName = 'opentable';
+  readonly capabilities: PlatformCapabilities = {
+    search: true,
+    availability: true,
+    directBooking: false,
+    cancellation: false,
+    listing: false,
+    modification: false,
+    calendar: false,
+    discovery: false,
+    holds: false,
+    notify: false,
+  };
+  readonly rateLimit: RateLimitConfig = { tokens: 30, refillRate: 30, interval: 60000 };
+  readonly requiresAuth = false;
+
+  constructor(private adapter: OpenTableAdapter = createDefaultAdapter()) {
+    super();
+  }
+
+  /**
+   * Swap the data source, e.g. for a fixture-backed adapter
+   */
+  setAdapter(adapter: OpenTableAdapter): void {
+    this.adapter = adapter;
+  }
+
+  async search(query: SearchQuery): Promise<Restaurant[]> {
+    console.error(`OpenTable search: "${query.query}" in "${query.location}"`);
+
+    try {
+      if (!await rateLimiter.acquire(this.name)) {
+        throw new Error('Rate limited. Please try again later.');
+      }
 
-  async search(_query: SearchQuery): Promise<Restaurant[]> {
-    // OpenTable public API is no longer available
-    console.error('OpenTable search unavailable: public API has been shut down. Use opentable.com directly.');
-    return [];
+      const results = await this.adapter.search(query);
+      console.error(`OpenTable search found ${results.length} results`);
+      return results;
+    } catch (error) {
+      console.error('OpenTable search error:', error instanceof Error ? error.message : error);
+      return [];
+    }
   }
 
-  async getDetails(_id: string | number): Promise<RestaurantDetails | null> {
-    // OpenTable public API is no longer available
-    return null;
+  async getDetails(id: string | number): Promise<RestaurantDetails | null> {
+    const numericId = typeof id === 'string' ? parseInt(this.extractId(id), 10) : id;
+
+    const cacheKey = CacheKeys.details(this.name, numericId);
+    const cached = cache.get<RestaurantDetails>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      if (!await rateLimiter.acquire(this.name)) {
+        throw new Error('Rate limited. Please try again later.');
+      }
+
+      const details = await this.adapter.getDetails(numericId);
+      if (details) cache.set(cacheKey, details, CacheTTL.RESTAURANT_DETAILS);
+      return details;
+    } catch (error) {
+      console.error('OpenTable getDetails error:', error instanceof Error ? error.message : error);
+      return null;
+    }
   }
 
-  async getAvailability(_id: string | number, _date: string, _partySize: number): Promise<TimeSlot[]> {
-    // OpenTable public API is no longer available
-    return [];
+  async getAvailability(id: string | number, date: string, partySize: number): Promise<TimeSlot[]> {
+    const numericId = typeof id === 'string' ? parseInt(this.extractId(id), 10) : id;
+
+    const cacheKey = CacheKeys.availability(this.name, numericId, date, partySize);
+    const cached = cache.get<TimeSlot[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      if (!await rateLimiter.acquire(this.name)) {
+        throw new Error('Rate limited. Please try again later.');
+      }
+
+      const slots = await this.adapter.getAvailability(numericId, date, partySize);
+      cache.set(cacheKey, slots, CacheTTL.AVAILABILITY);
+      return slots;
+    } catch (error) {
+      console.error('OpenTable getAvailability error:', error instanceof Error ? error.message : error);
+      return [];
+    }
   }
 
   async makeReservation(params: ReservationParams): Promise<ReservationResult> {
@@ -57,8 +127,20 @@ export class OpenTablePlatformClient extends BasePlatformClient {
   }
 
   async isAvailable(): Promise<boolean> {
-    // OpenTable public API is no longer available
-    return false;
+    const cacheKey = CacheKeys.health(this.name);
+    const cached = cache.get<boolean>(cacheKey);
+    if (cached !== null) return cached;
+
+    // Scraped, so healthy as long as the site (or fixture set) answers a search
+    try {
+      await this.adapter.search({ query: '', location: 'New York' });
+      cache.set(cacheKey, true, CacheTTL.PLATFORM_HEALTH);
+      return true;
+    } catch (error) {
+      console.error('OpenTable isAvailable error:', error instanceof Error ? error.message : error);
+      cache.set(cacheKey, false, CacheTTL.PLATFORM_HEALTH);
+      return false;
+    }
   }
 
   async isAuthenticated(): Promise<boolean> {
@@ -67,14 +149,10 @@ export class OpenTablePlatformClient extends BasePlatformClient {
 
   // Build booking URL
   buildBookingUrl(restaurantId: number, date: string, time: string, partySize: number): string {
-    const params = new URLSearchParams({
-      rid: String(restaurantId),
-      datetime: `${date}T${time}`,
-      covers: String(partySize),
-    });
-    return `${BOOKING_BASE}?${params.toString()}`;
+    return buildOpenTableBookingUrl(restaurantId, date, time, partySize);
   }
 }
 
 // Singleton instance
 export const openTableClient = new OpenTablePlatformClient();
+registerPlatform(openTableClient);
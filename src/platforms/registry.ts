@@ -0,0 +1,59 @@
+/**
+ * Platform plugin registry
+ *
+ * Each platform client registers itself with its name, ID prefix,
+ * capabilities and rate limits. Lookups, tool schemas, health checks and
+ * booking options all read from here, so adding a platform means writing a
+ * client and importing it from src/platforms/index.ts.
+ */
+
+import { z } from 'zod';
+import type { PlatformClient, PlatformCapabilities } from './base.js';
+import type { PlatformName } from '../types/restaurant.js';
+import { rateLimiter } from '../services/rate-limiter.js';
+
+const platforms = new Map<PlatformName, PlatformClient>();
+
+/**
+ * Register a platform client, replacing any earlier client with the same name
+ */
+export function registerPlatform(client: PlatformClient): void {
+  for (const other of platforms.values()) {
+    if (other.name !== client.name && other.idPrefix === client.idPrefix) {
+      throw new Error(`ID prefix "${client.idPrefix}" is already used by ${other.name}`);
+    }
+  }
+
+  platforms.set(client.name, client);
+  rateLimiter.configure(client.name, client.rateLimit);
+}
+
+export function getPlatform(name: PlatformName): PlatformClient | undefined {
+  return platforms.get(name);
+}
+
+/**
+ * Registered platforms in registration order, optionally only those with a capability
+ */
+export function listPlatforms(capability?: keyof PlatformCapabilities): PlatformClient[] {
+  const all = Array.from(platforms.values());
+  return capability ? all.filter((p) => p.capabilities[capability]) : all;
+}
+
+export function getPlatformNames(capability?: keyof PlatformCapabilities): PlatformName[] {
+  return listPlatforms(capability).map((p) => p.name);
+}
+
+/**
+ * Zod enum of registered platform names for tool schemas
+ *
+ * @param capability - Only platforms with this capability
+ * @param extra - Additional values such as "all"
+ */
+export function platformEnum(capability?: keyof PlatformCapabilities, ...extra: string[]) {
+  const values = [...getPlatformNames(capability), ...extra];
+  if (values.length === 0) {
+    throw new Error(`No registered platform supports ${capability}`);
+  }
+  return z.enum(values as [string, ...string[]]);
+}
@@ -4,7 +4,8 @@
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { getCredential, setCredential } from '../credentials.js';
-import { BasePlatformClient } from './base.js';
+import { BasePlatformClient, type PlatformCapabilities } from './base.js';
+import { registerPlatform } from './registry.js';
 import type {
   PlatformName,
   Restaurant,
@@ -12,20 +13,32 @@ import type {
   TimeSlot,
   ReservationParams,
   ReservationResult,
+  Reservation,
+  ModifyReservationParams,
+  AvailabilityCalendarDay,
+  VenueAvailability,
   SearchQuery,
   PriceRange,
   ReservationError,
+  BookingQuote,
+  PaymentMethod,
+  PaymentOptions,
+  NotifyParams,
 } from '../types/restaurant.js';
 import { cache, CacheKeys, CacheTTL } from '../services/cache.js';
-import { rateLimiter } from '../services/rate-limiter.js';
+import { rateLimiter, type RateLimitConfig } from '../services/rate-limiter.js';
+import { clockTimeToMinutes, toVenueLocalTime } from '../utils/time.js';
+import { geocodeLocation } from '../geo/geocoder.js';
+import { checkFees } from '../services/fee-policy.js';
 
-const BASE_URL = 'https://api.resy.com';
+// Override to point at a local mock server (see src/dev/mock-resy-server.ts)
+const BASE_URL = process.env.RESY_BASE_URL || 'https://api.resy.com';
 
 // Resy API response types
 interface ResyVenueHit {
   id: { resy: number };
   name: string;
-  location: { name: string; neighborhood: string; time_zone?: string };
+  location: { name: string; neighborhood: string; time_zone?: string; geo?: { lat: number; lon: number } };
   cuisine: string[] | string;
   price_range: number;
   rating: number;
@@ -49,7 +62,8 @@ interface ResySlot {
 interface ResyVenueSlotsResponse {
   results: {
     venues: Array<{
-      venue: { id: { resy: number }; name: string };
+      // Geo searches return the full venue; venue_id lookups may only carry id, name and location
+      venue: Pick<ResyVenueHit, 'id' | 'name'> & Partial<Omit<ResyVenueHit, 'id' | 'name'>>;
       slots: ResySlot[];
     }>;
   };
@@ -57,7 +71,24 @@ interface ResyVenueSlotsResponse {
 
 interface ResyBookDetailsResponse {
   book_token: { value: string; date_expires: string };
-  user: { payment_methods: Array<{ id: number; is_default: boolean }> };
+  cancellation?: {
+    fee?: { amount?: number } | null;
+    display?: { policy?: string[] };
+  };
+  payment?: { deposit_fee?: number | null };
+  user: { payment_methods: Array<{ id: number; is_default: boolean; type?: string; display?: string }> };
+}
+
+interface ResyNotifyResponse {
+  notify: { id: number };
+}
+
+interface ResyVenueCalendarResponse {
+  last_calendar_day?: string;
+  scheduled?: Array<{
+    date: string;
+    inventory?: { reservation?: string };
+  }>;
 }
 
 interface ResyBookResponse {
@@ -75,14 +106,28 @@ interface ResyLoginResponse {
 
 export class ResyPlatformClient extends BasePlatformClient {
   readonly name: PlatformName = 'resy';
+  readonly capabilities: PlatformCapabilities = {
+    search: true,
+    availability: true,
+    directBooking: true,
+    cancellation: true,
+    listing: true,
+    modification: true,
+    calendar: true,
+    discovery: true,
+    holds: true,
+    notify: true,
+  };
+  readonly rateLimit: RateLimitConfig = { tokens: 20, refillRate: 20, interval: 60000 };
+  readonly requiresAuth = true;
   private client: AxiosInstance;
   private apiKey: string | null = null;
   private authToken: string | null = null;
 
-  constructor() {
+  constructor(baseUrl = BASE_URL) {
     super();
     this.client = axios.create({
-      baseURL: BASE_URL,
+      baseURL: baseUrl,
       timeout: 15000, // 15 second timeout
     });
   }
@@ -185,7 +230,8 @@ export class ResyPlatformClient extends BasePlatformClient {
   async search(query: SearchQuery): Promise<Restaurant[]> {
     const date = query.date || this.today();
     const partySize = query.partySize || 2;
-    const coords = this.getCityCoordinates(query.location);
+    // Outside the try: an unknown location is the caller's error, not an empty result
+    const coords = query.coordinates ?? (await geocodeLocation(query.location)).coordinates;
 
     console.error(`Resy search: "${query.query}" in "${query.location}"`);
 
@@ -211,6 +257,30 @@ export class ResyPlatformClient extends BasePlatformClient {
     }
   }
 
+  async findOpenings(query: SearchQuery): Promise<VenueAvailability[]> {
+    const date = query.date || this.today();
+    const partySize = query.partySize || 2;
+    const coords = query.coordinates ?? (await geocodeLocation(query.location)).coordinates;
+
+    // Geo search without venue_id or query returns every bookable venue nearby with its slots
+    const data = await this.request<ResyVenueSlotsResponse>('get', '/4/find', {
+      lat: coords.lat,
+      long: coords.lng,
+      day: date,
+      party_size: partySize,
+    });
+
+    return (data.results?.venues || [])
+      .filter((v) => v.slots?.length > 0)
+      .map((v) => {
+        const timeZone = v.venue.location?.time_zone;
+        return {
+          restaurant: this.mapToRestaurant(v.venue),
+          slots: v.slots.map((slot) => this.mapToTimeSlot(slot, timeZone)),
+        };
+      });
+  }
+
   private getLocationSlug(location: string): string {
     const locationLower = location.toLowerCase();
 
@@ -252,49 +322,6 @@ export class ResyPlatformClient extends BasePlatformClient {
     return locationLower.replace(/[^a-z0-9\s-]/g, '').replace(/\s+/g, '-');
   }
 
-  private getCityCoordinates(location: string): { lat: number; lng: number } {
-    const locationLower = location.toLowerCase();
-
-    // Common city coordinates
-    const cities: Record<string, { lat: number; lng: number }> = {
-      'new york': { lat: 40.7128, lng: -73.9352 },
-      'nyc': { lat: 40.7128, lng: -73.9352 },
-      'manhattan': { lat: 40.7831, lng: -73.9712 },
-      'brooklyn': { lat: 40.6782, lng: -73.9442 },
-      'los angeles': { lat: 34.0522, lng: -118.2437 },
-      'la': { lat: 34.0522, lng: -118.2437 },
-      'chicago': { lat: 41.8781, lng: -87.6298 },
-      'san francisco': { lat: 37.7749, lng: -122.4194 },
-      'sf': { lat: 37.7749, lng: -122.4194 },
-      'miami': { lat: 25.7617, lng: -80.1918 },
-      'austin': { lat: 30.2672, lng: -97.7431 },
-      'seattle': { lat: 47.6062, lng: -122.3321 },
-      'boston': { lat: 42.3601, lng: -71.0589 },
-      'denver': { lat: 39.7392, lng: -104.9903 },
-      'atlanta': { lat: 33.7490, lng: -84.3880 },
-      'dallas': { lat: 32.7767, lng: -96.7970 },
-      'houston': { lat: 29.7604, lng: -95.3698 },
-      'philadelphia': { lat: 39.9526, lng: -75.1652 },
-      'washington': { lat: 38.9072, lng: -77.0369 },
-      'dc': { lat: 38.9072, lng: -77.0369 },
-      'las vegas': { lat: 36.1699, lng: -115.1398 },
-      'vegas': { lat: 36.1699, lng: -115.1398 },
-      'nashville': { lat: 36.1627, lng: -86.7816 },
-      'portland': { lat: 45.5152, lng: -122.6784 },
-      'san diego': { lat: 32.7157, lng: -117.1611 },
-    };
-
-    // Check if location matches any known city
-    for (const [city, coords] of Object.entries(cities)) {
-      if (locationLower.includes(city)) {
-        return coords;
-      }
-    }
-
-    // Default to New York if no match
-    return { lat: 40.7128, lng: -73.9352 };
-  }
-
   async getDetails(id: string | number): Promise<RestaurantDetails | null> {
     const numericId = typeof id === 'string' ? parseInt(this.extractId(id), 10) : id;
 
@@ -370,7 +397,8 @@ export class ResyPlatformClient extends BasePlatformClient {
         return [];
       }
 
-      const slots = venue.slots.map((slot) => this.mapToTimeSlot(slot));
+      const timeZone = venue.venue?.location?.time_zone;
+      const slots = venue.slots.map((slot) => this.mapToTimeSlot(slot, timeZone));
       cache.set(cacheKey, slots, CacheTTL.AVAILABILITY);
       return slots;
     } catch (error) {
@@ -379,44 +407,133 @@ export class ResyPlatformClient extends BasePlatformClient {
     }
   }
 
+  async getAvailabilityCalendar(id: string | number, startDate: string, endDate: string, partySize: number): Promise<AvailabilityCalendarDay[]> {
+    const numericId = typeof id === 'string' ? parseInt(this.extractId(id), 10) : id;
+
+    const cacheKey = CacheKeys.availability(this.name, numericId, `${startDate}..${endDate}`, partySize);
+    const cached = cache.get<AvailabilityCalendarDay[]>(cacheKey);
+    if (cached) return cached;
+
+    const data = await this.request<ResyVenueCalendarResponse>('get', '/4/venue/calendar', {
+      venue_id: numericId,
+      num_seats: partySize,
+      start_date: startDate,
+      end_date: endDate,
+    });
+
+    const lastDay = data.last_calendar_day;
+    const days = (data.scheduled || []).map((day): AvailabilityCalendarDay => {
+      const inventory = day.inventory?.reservation;
+      if (lastDay && day.date > lastDay) return { date: day.date, status: 'not-released' };
+      if (inventory === 'available') return { date: day.date, status: 'available' };
+      if (inventory === 'sold-out') return { date: day.date, status: 'sold-out' };
+      return { date: day.date, status: 'closed' };
+    });
+
+    cache.set(cacheKey, days, CacheTTL.AVAILABILITY);
+    return days;
+  }
+
   async makeReservation(params: ReservationParams): Promise<ReservationResult> {
     try {
-      // Get booking details (includes book token and payment methods)
-      const details = await this.request<ResyBookDetailsResponse>('get', '/3/details', {
-        config_id: params.slotId,
-        day: params.date,
-        party_size: params.partySize,
-      });
+      const quote = await this.fetchQuote(params.slotId, params.date, params.partySize);
+      return await this.bookQuoted(quote, params.payment);
+    } catch (error) {
+      return {
+        success: false,
+        platform: this.name,
+        error: error instanceof Error ? error.message : 'Failed to make reservation',
+      };
+    }
+  }
 
-      // Get default payment method if available
-      const defaultPayment = details.user.payment_methods?.find((p) => p.is_default);
+  async quoteReservation(params: ReservationParams): Promise<BookingQuote> {
+    return this.fetchQuote(params.slotId, params.date, params.partySize);
+  }
 
-      // Make the reservation
-      const bookData: Record<string, string> = {
-        book_token: details.book_token.value,
+  async confirmReservation(params: ReservationParams, quote: BookingQuote): Promise<ReservationResult> {
+    if (Date.parse(quote.expiresAt) <= Date.now()) {
+      return { success: false, platform: this.name, error: `Booking token expired at ${quote.expiresAt}` };
+    }
+
+    try {
+      return await this.bookQuoted(quote, params.payment);
+    } catch (error) {
+      return {
+        success: false,
+        platform: this.name,
+        error: error instanceof Error ? error.message : 'Failed to make reservation',
       };
-      if (defaultPayment) {
-        bookData.struct_payment_method = JSON.stringify({ id: defaultPayment.id });
-      }
+    }
+  }
 
-      const result = await this.request<ResyBookResponse>('post', '/3/book', bookData);
+  /**
+   * Move a booking to another slot: book the new one first, then cancel the original.
+   * If the new booking fails the original is never touched.
+   */
+  async modifyReservation(params: ModifyReservationParams): Promise<ReservationResult> {
+    if (!params.slotId && !params.time) {
+      return { success: false, platform: this.name, error: 'Either a slot ID or a preferred time is required' };
+    }
 
-      // Invalidate availability cache
-      cache.invalidate(`availability:${this.name}:*`);
+    // Fresh availability, since the replacement is booked straight away
+    const numericId = parseInt(this.extractId(params.restaurantId), 10);
+    cache.delete(CacheKeys.availability(this.name, numericId, params.date, params.partySize));
+    const slots = await this.getAvailability(params.restaurantId, params.date, params.partySize);
+    const slot = params.slotId
+      ? slots.find((s) => s.slotId === params.slotId)
+      : this.closestSlot(slots, params.time!);
 
+    if (!slot) {
       return {
-        success: true,
+        success: false,
         platform: this.name,
-        reservationId: String(result.reservation_id),
-        confirmationDetails: `Reservation confirmed! ID: ${result.reservation_id}`,
+        error: `No matching slot for ${params.partySize} on ${params.date}; your original reservation is unchanged`,
+        suggestions: slots.slice(0, 5).map((s) => `${s.time}${s.type ? ` (${s.type})` : ''} - slot ${s.slotId}`),
       };
+    }
+
+    if (params.beforeBook) {
+      try {
+        await params.beforeBook(slot);
+      } catch (error) {
+        return {
+          success: false,
+          platform: this.name,
+          error: `${error instanceof Error ? error.message : 'The new slot was refused'} Your original reservation is unchanged.`,
+        };
+      }
+    }
+
+    let booked: ResyBookResponse;
+    try {
+      booked = await this.book(slot.slotId, params.date, params.partySize);
     } catch (error) {
       return {
         success: false,
         platform: this.name,
-        error: error instanceof Error ? error.message : 'Failed to make reservation',
+        error: `Could not book the new slot (${error instanceof Error ? error.message : 'unknown error'}); your original reservation is unchanged`,
       };
     }
+
+    try {
+      await this.cancelReservation(params.reservationId);
+    } catch (error) {
+      return {
+        success: true,
+        platform: this.name,
+        reservationId: booked.resy_token,
+        confirmationDetails: `New reservation confirmed for ${slot.time}, but the original could not be cancelled (${error instanceof Error ? error.message : 'unknown error'}). Cancel ${params.reservationId} yourself to avoid a no-show fee.`,
+      };
+    }
+
+    return {
+      success: true,
+      platform: this.name,
+      reservationId: booked.resy_token,
+      replacedReservationId: params.reservationId,
+      confirmationDetails: `Reservation moved to ${slot.time} for ${params.partySize}. New ID: ${booked.resy_token}; the original has been cancelled.`,
+    };
   }
 
   async isAvailable(): Promise<boolean> {
@@ -475,14 +592,7 @@ export class ResyPlatformClient extends BasePlatformClient {
   }
 
   // Get user's reservations
-  async getReservations(): Promise<Array<{
-    reservationId: string;
-    venue: { name: string; location: string };
-    date: string;
-    time: string;
-    partySize: number;
-    status: string;
-  }>> {
+  async listReservations(): Promise<Reservation[]> {
     interface ReservationsResponse {
       reservations: Array<{
         resy_token: string;
@@ -495,11 +605,10 @@ export class ResyPlatformClient extends BasePlatformClient {
     const data = await this.request<ReservationsResponse>('get', '/3/user/reservations');
 
     return (data.reservations || []).map((res) => ({
+      platform: this.name,
       reservationId: res.resy_token,
-      venue: {
-        name: res.venue.name,
-        location: res.venue.location?.name || '',
-      },
+      restaurantName: res.venue.name,
+      location: res.venue.location?.name || '',
       date: res.reservation.day,
       time: res.reservation.time_slot,
       partySize: res.reservation.num_seats,
@@ -507,14 +616,128 @@ export class ResyPlatformClient extends BasePlatformClient {
     }));
   }
 
+  async joinNotify(params: NotifyParams): Promise<string> {
+    const result = await this.request<ResyNotifyResponse>('post', '/3/notify', {
+      venue_id: this.extractId(params.restaurantId),
+      day: params.date,
+      num_seats: params.partySize,
+      time_preferred_start: `${params.earliestTime}:00`,
+      time_preferred_end: `${params.latestTime}:00`,
+      service_type_id: 2,
+    });
+    return String(result.notify.id);
+  }
+
+  async leaveNotify(notifyId: string): Promise<void> {
+    await this.request<void>('delete', '/3/notify', { notify_id: notifyId });
+  }
+
   // Cancel a reservation
   async cancelReservation(resyToken: string): Promise<void> {
     await this.request<void>('delete', '/3/book', { resy_token: resyToken });
   }
 
   // Helper methods
-  private mapToRestaurant(hit: ResyVenueHit): Restaurant {
-    const cuisines = Array.isArray(hit.cuisine) ? hit.cuisine : [hit.cuisine].filter(Boolean);
+  // Book on the account's default card, within the configured fee limits
+  private async book(slotId: string, date: string, partySize: number): Promise<ResyBookResponse> {
+    const quote = await this.fetchQuote(slotId, date, partySize);
+    const feeError = checkFees(quote);
+    if (feeError) throw new Error(feeError);
+    return this.bookWithQuote(quote, this.choosePaymentMethod(quote));
+  }
+
+  // Enforce the fee limits and pick the card, then book; the result carries both
+  private async bookQuoted(quote: BookingQuote, payment?: PaymentOptions): Promise<ReservationResult> {
+    const fees = { depositFee: quote.depositFee, cancellationFee: quote.cancellationFee };
+    const feeError = checkFees(quote, payment);
+    if (feeError) {
+      return { success: false, platform: this.name, error: feeError, ...fees };
+    }
+
+    const paymentMethod = this.choosePaymentMethod(quote, payment);
+    const result = await this.bookWithQuote(quote, paymentMethod);
+
+    // resy_token is what listing and cancellation use, so hand that back as the ID
+    return {
+      success: true,
+      platform: this.name,
+      reservationId: result.resy_token,
+      confirmationDetails: `Reservation confirmed! Confirmation number: ${result.reservation_id}`,
+      paymentMethod,
+      ...fees,
+    };
+  }
+
+  // The requested card, none when no charge is allowed, or the account default
+  private choosePaymentMethod(quote: BookingQuote, payment: PaymentOptions = {}): PaymentMethod | undefined {
+    if (payment.requireNoCharge) return undefined;
+
+    const methods = quote.paymentMethods ?? [];
+    if (!payment.paymentMethodId) return methods.find((m) => m.isDefault);
+
+    const chosen = methods.find((m) => m.id === payment.paymentMethodId);
+    if (!chosen) {
+      const available = methods.map((m) => `${m.id}${m.display ? ` (${[m.type, m.display].filter(Boolean).join(' ')})` : ''}`);
+      throw new Error(`Payment method ${payment.paymentMethodId} is not on your Resy account${available.length > 0 ? `; available: ${available.join(', ')}` : ''}`);
+    }
+    return chosen;
+  }
+
+  // Booking details: the book token, its expiry, fees and the account's cards
+  private async fetchQuote(slotId: string, date: string, partySize: number): Promise<BookingQuote> {
+    const details = await this.request<ResyBookDetailsResponse>('get', '/3/details', {
+      config_id: slotId,
+      day: date,
+      party_size: partySize,
+    });
+
+    return {
+      bookToken: details.book_token.value,
+      expiresAt: new Date(details.book_token.date_expires).toISOString(),
+      depositFee: details.payment?.deposit_fee ?? undefined,
+      cancellationFee: details.cancellation?.fee?.amount ?? undefined,
+      cancellationPolicy: details.cancellation?.display?.policy,
+      paymentMethods: (details.user.payment_methods ?? []).map((p) => ({
+        id: String(p.id),
+        type: p.type,
+        display: p.display,
+        isDefault: p.is_default,
+      })),
+    };
+  }
+
+  private async bookWithQuote(quote: BookingQuote, paymentMethod?: PaymentMethod): Promise<ResyBookResponse> {
+    const bookData: Record<string, string> = {
+      book_token: quote.bookToken,
+    };
+    if (paymentMethod) {
+      bookData.struct_payment_method = JSON.stringify({ id: parseInt(paymentMethod.id, 10) });
+    }
+
+    const result = await this.request<ResyBookResponse>('post', '/3/book', bookData);
+
+    // Invalidate availability cache
+    cache.invalidate(`availability:${this.name}:*`);
+
+    return result;
+  }
+
+  private closestSlot(slots: TimeSlot[], time: string): TimeSlot | undefined {
+    const target = clockTimeToMinutes(time);
+    let best: { slot: TimeSlot; distance: number } | undefined;
+
+    for (const slot of slots) {
+      const local = toVenueLocalTime(slot.time, slot.timeZone);
+      if (!local) continue;
+      const distance = Math.abs(local.minutes - target);
+      if (!best || distance < best.distance) best = { slot, distance };
+    }
+
+    return best?.slot;
+  }
+
+  private mapToRestaurant(hit: ResyVenueSlotsResponse['results']['venues'][number]['venue']): Restaurant {
+    const cuisines = Array.isArray(hit.cuisine) ? hit.cuisine : [hit.cuisine].filter((c): c is string => !!c);
 
     return {
       id: this.createId(hit.id.resy),
@@ -528,10 +751,11 @@ export class ResyPlatformClient extends BasePlatformClient {
       priceRange: hit.price_range || 0,
       rating: hit.rating || 0,
       imageUrl: hit.images?.[0],
+      coordinates: hit.location?.geo ? { lat: hit.location.geo.lat, lng: hit.location.geo.lon } : undefined,
     };
   }
 
-  private mapToTimeSlot(slot: ResySlot): TimeSlot {
+  private mapToTimeSlot(slot: ResySlot, timeZone?: string): TimeSlot {
     return {
       slotId: String(slot.config.id),
       platform: this.name,
@@ -541,9 +765,11 @@ export class ResyPlatformClient extends BasePlatformClient {
       token: slot.config.token,
       cancellationFee: slot.payment?.cancellation_fee,
       depositFee: slot.payment?.deposit_fee,
+      timeZone,
     };
   }
 }
 
 // Singleton instance
 export const resyClient = new ResyPlatformClient();
+registerPlatform(resyClient);
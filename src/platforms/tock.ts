@@ -1,11 +1,16 @@
 /**
  * Tock platform client implementing PlatformClient interface
  * NOTE: Tock does not have a public API (exploretock.com/api is not real).
- * Search, details, and availability return empty results.
- * Booking URL construction still works for manual use.
+ * Search, details, and availability come from the website through a scraper
+ * adapter (see src/tock/scraper.ts). Slots are per experience and carry the
+ * experience name and ticket price. Booking hands back a deep link.
  */
 
-import { BasePlatformClient } from './base.js';
+import { BasePlatformClient, type PlatformCapabilities } from './base.js';
+import { registerPlatform } from './registry.js';
+import { buildTockBookingUrl, createDefaultAdapter, type TockAdapter, type TockBookingUrlOptions } from '../tock/scraper.js';
+import { rateLimiter, type RateLimitConfig } from '../services/rate-limiter.js';
+import { cache, CacheKeys, CacheTTL } from '../services/cache.js';
 import type {
   PlatformName,
   Restaurant,
@@ -16,31 +21,103 @@ import type {
   SearchQuery,
 } from '../types/restaurant.js';
 
-const BASE_URL = 'https://www.exploretock.com';
+// Slot IDs look like tock-{experienceId}-{YYYY-MM-DD}-{HH:MM}
+const SLOT_ID_PATTERN = /^tock-(\d+)-(\d{4}-\d{2}-\d{2})-(\d{2}:\d{2})$/;
 
 export class TockPlatformClient extends BasePlatformClient {
   readonly name: PlatformName = 'tock';
+  readonly capabilities: PlatformCapabilities = {
+    search: true,
+    availability: true,
+    directBooking: false,
+    cancellation: false,
+    listing: false,
+    modification: false,
+    calendar: false,
+    discovery: false,
+    holds: false,
+    notify: false,
+  };
+  readonly rateLimit: RateLimitConfig = { tokens: 15, refillRate: 15, interval: 60000 };
+  readonly requiresAuth = false;
 
-  async search(_query: SearchQuery): Promise<Restaurant[]> {
-    // Tock does not have a public API
-    console.error('Tock search unavailable: no public API exists. Use exploretock.com directly.');
-    return [];
+  constructor(private adapter: TockAdapter = createDefaultAdapter()) {
+    super();
   }
 
-  async getDetails(_id: string | number): Promise<RestaurantDetails | null> {
-    // Tock does not have a public API
-    return null;
+  /**
+   * Swap the data source, e.g. for a fixture-backed adapter
+   */
+  setAdapter(adapter: TockAdapter): void {
+    this.adapter = adapter;
   }
 
-  async getAvailability(_id: string | number, _date: string, _partySize: number): Promise<TimeSlot[]> {
-    // Tock does not have a public API
-    return [];
+  async search(query: SearchQuery): Promise<Restaurant[]> {
+    console.error(`Tock search: "${query.query}" in "${query.location}"`);
+
+    try {
+      if (!await rateLimiter.acquire(this.name)) {
+        throw new Error('Rate limited. Please try again later.');
+      }
+
+      const results = await this.adapter.search(query);
+      console.error(`Tock search found ${results.length} results`);
+      return results;
+    } catch (error) {
+      console.error('Tock search error:', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  async getDetails(id: string | number): Promise<RestaurantDetails | null> {
+    const slug = this.extractId(String(id));
+
+    const cacheKey = CacheKeys.details(this.name, slug);
+    const cached = cache.get<RestaurantDetails>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      if (!await rateLimiter.acquire(this.name)) {
+        throw new Error('Rate limited. Please try again later.');
+      }
+
+      const details = await this.adapter.getDetails(slug);
+      if (details) cache.set(cacheKey, details, CacheTTL.RESTAURANT_DETAILS);
+      return details;
+    } catch (error) {
+      console.error('Tock getDetails error:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  async getAvailability(id: string | number, date: string, partySize: number): Promise<TimeSlot[]> {
+    const slug = this.extractId(String(id));
+
+    const cacheKey = CacheKeys.availability(this.name, slug, date, partySize);
+    const cached = cache.get<TimeSlot[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      if (!await rateLimiter.acquire(this.name)) {
+        throw new Error('Rate limited. Please try again later.');
+      }
+
+      const slots = await this.adapter.getAvailability(slug, date, partySize);
+      cache.set(cacheKey, slots, CacheTTL.AVAILABILITY);
+      return slots;
+    } catch (error) {
+      console.error('Tock getAvailability error:', error instanceof Error ? error.message : error);
+      return [];
+    }
   }
 
   async makeReservation(params: ReservationParams): Promise<ReservationResult> {
-    // Tock requires completing booking on their website
+    // Tock requires completing booking (and prepaying) on their website
     const venueId = this.extractId(params.restaurantId);
-    const bookingUrl = this.buildBookingUrl(venueId, params.date, params.partySize);
+    const slot = params.slotId.match(SLOT_ID_PATTERN);
+    const bookingUrl = this.buildBookingUrl(venueId, params.date, params.partySize, slot
+      ? { experienceId: slot[1], time: slot[3] }
+      : {});
 
     return {
       success: true,
@@ -51,23 +128,32 @@ export class TockPlatformClient extends BasePlatformClient {
   }
 
   async isAvailable(): Promise<boolean> {
-    // Tock does not have a public API
-    return false;
+    const cacheKey = CacheKeys.health(this.name);
+    const cached = cache.get<boolean>(cacheKey);
+    if (cached !== null) return cached;
+
+    // Scraped, so healthy as long as the site (or fixture set) answers a search
+    try {
+      await this.adapter.search({ query: '', location: 'New York' });
+      cache.set(cacheKey, true, CacheTTL.PLATFORM_HEALTH);
+      return true;
+    } catch (error) {
+      console.error('Tock isAvailable error:', error instanceof Error ? error.message : error);
+      cache.set(cacheKey, false, CacheTTL.PLATFORM_HEALTH);
+      return false;
+    }
   }
 
   async isAuthenticated(): Promise<boolean> {
     return true;
   }
 
-  // Build booking URL
-  buildBookingUrl(venueId: string, date: string, partySize: number): string {
-    const params = new URLSearchParams({
-      date,
-      size: String(partySize),
-    });
-    return `${BASE_URL}/${venueId}?${params.toString()}`;
+  // Build booking URL, deep-linking to an experience and time when given
+  buildBookingUrl(venueId: string, date: string, partySize: number, options: TockBookingUrlOptions = {}): string {
+    return buildTockBookingUrl(venueId, date, partySize, options);
   }
 }
 
 // Singleton instance
 export const tockClient = new TockPlatformClient();
+registerPlatform(tockClient);
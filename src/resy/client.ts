@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { getCredential, setCredential } from '../credentials.js';
+import type { QuotedFees } from '../services/fee-policy.js';
 import type {
   ResySearchResult,
   ResyTimeSlot,
@@ -7,18 +8,40 @@ import type {
   ResyLoginResponse,
   ResyBookResponse,
   ResyBookDetailsResponse,
+  ResyAvailability,
+  ResyVenue,
+  ResyVenueCalendar,
 } from './types.js';
 
-const BASE_URL = 'https://api.resy.com';
+// Override to point at a local mock server (see src/dev/mock-resy-server.ts)
+const BASE_URL = process.env.RESY_BASE_URL || 'https://api.resy.com';
+
+// Deposit and cancellation fee quoted with a book token
+export function bookingFees(details: ResyBookDetailsResponse): QuotedFees {
+  return {
+    depositFee: details.payment?.deposit_fee ?? undefined,
+    cancellationFee: details.cancellation?.fee?.amount ?? undefined,
+  };
+}
+
+// Resy throttled the request
+export function isRateLimited(error: unknown): boolean {
+  return error instanceof AxiosError && error.response?.status === 429;
+}
+
+// The slot went between listing and booking, usually to another diner
+export function isSlotTaken(error: unknown): boolean {
+  return error instanceof AxiosError && (error.response?.status === 404 || error.response?.status === 412);
+}
 
 export class ResyClient {
   private client: AxiosInstance;
   private apiKey: string | null = null;
   private authToken: string | null = null;
 
-  constructor() {
+  constructor(baseUrl = BASE_URL) {
     this.client = axios.create({
-      baseURL: BASE_URL,
+      baseURL: baseUrl,
       timeout: 30000,
     });
   }
@@ -169,18 +192,10 @@ export class ResyClient {
     date: string,
     partySize: number
   ): Promise<ResyTimeSlot[]> {
-    interface VenueCalendarResponse {
-      scheduled: Array<{
-        date: string;
-        inventory: {
-          reservation: string;
-        };
-      }>;
-    }
-
     interface VenueSlotsResponse {
       results: {
         venues: Array<{
+          venue?: { location?: { time_zone?: string } };
           slots: Array<{
             config: { id: number; type: string; token: string };
             date: { start: string; end: string };
@@ -190,19 +205,7 @@ export class ResyClient {
       };
     }
 
-    // First get the calendar to check if date has availability
-    try {
-      await this.request<VenueCalendarResponse>('get', `/4/venue/calendar`, {
-        venue_id: venueId,
-        num_seats: partySize,
-        start_date: date,
-        end_date: date,
-      });
-    } catch {
-      // Continue anyway, calendar check is optional
-    }
-
-    // Get actual slots
+    // Slots for the day (getVenueCalendar covers whole ranges)
     const data = await this.request<VenueSlotsResponse>('get', '/4/find', {
       lat: 0,
       long: 0,
@@ -216,6 +219,8 @@ export class ResyClient {
       return [];
     }
 
+    const timeZone = venue.venue?.location?.time_zone;
+
     return venue.slots.map((slot) => ({
       slotId: String(slot.config.id),
       token: slot.config.token,
@@ -224,9 +229,36 @@ export class ResyClient {
       type: slot.config.type,
       cancellationFee: slot.payment?.cancellation_fee,
       depositFee: slot.payment?.deposit_fee,
+      timeZone,
     }));
   }
 
+  async getVenue(venueId: number, date: string): Promise<ResyVenue | null> {
+    const data = await this.request<ResyAvailability>('get', '/4/find', {
+      lat: 0,
+      long: 0,
+      day: date,
+      party_size: 2,
+      venue_id: venueId,
+    });
+
+    return data.results?.venues?.[0]?.venue || null;
+  }
+
+  async getVenueCalendar(
+    venueId: number,
+    partySize: number,
+    startDate: string,
+    endDate: string
+  ): Promise<ResyVenueCalendar> {
+    return this.request<ResyVenueCalendar>('get', '/4/venue/calendar', {
+      venue_id: venueId,
+      num_seats: partySize,
+      start_date: startDate,
+      end_date: endDate,
+    });
+  }
+
   async getBookingDetails(
     configId: string,
     date: string,
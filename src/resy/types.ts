@@ -59,6 +59,7 @@ export interface ResyTimeSlot {
   type: string;
   cancellationFee?: number;
   depositFee?: number;
+  timeZone?: string;
 }
 
 export interface ResyBookingDetails {
@@ -99,6 +100,12 @@ export interface ResyBookDetailsResponse {
     value: string;
     date_expires: string;
   };
+  cancellation?: {
+    fee?: { amount?: number } | null;
+  };
+  payment?: {
+    deposit_fee?: number | null;
+  };
   user: {
     payment_methods: Array<{
       id: number;
@@ -106,3 +113,13 @@ export interface ResyBookDetailsResponse {
     }>;
   };
 }
+
+export interface ResyVenueCalendar {
+  last_calendar_day: string;
+  scheduled: Array<{
+    date: string;
+    inventory: {
+      reservation: string;
+    };
+  }>;
+}
@@ -0,0 +1,133 @@
+/**
+ * iCalendar (RFC 5545) export of reservations
+ *
+ * Confirmed and cancelled bookings from the ledger become VEVENTs: live Resy
+ * reservations (synced on export) and anything booked through this server,
+ * including successful snipes. Times are venue-local wall-clock times, so
+ * events use floating DTSTART values rather than a UTC instant.
+ */
+
+import { listLedger, type LedgerEntry } from './ledger.js';
+import { listReservations } from './reservations.js';
+import { toVenueLocalTime } from '../utils/time.js';
+
+const PRODUCT_ID = '-//restaurant-mcp//Reservations//EN';
+const DEFAULT_DURATION = 'PT2H';
+
+export interface CalendarExportOptions {
+  when?: 'upcoming' | 'all';
+  includeCancelled?: boolean;
+}
+
+// TEXT values escape backslash, semicolon, comma and newlines (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74);
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf-8');
+    if (currentBytes + charBytes > limit()) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatUtc(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function formatLocalDateTime(date: string, minutes: number): string {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mm = String(minutes % 60).padStart(2, '0');
+  return `${formatDate(date)}T${hh}${mm}00`;
+}
+
+function eventLines(entry: LedgerEntry): string[] {
+  const name = entry.restaurantName || entry.restaurantId || 'Restaurant reservation';
+  const details = [
+    `Party of ${entry.partySize}`,
+    entry.confirmationId ? `Confirmation: ${entry.confirmationId}` : undefined,
+    `Booked on ${entry.platform}`,
+    entry.slotType ? `Seating: ${entry.slotType}` : undefined,
+    entry.bookingUrl ? `Booking: ${entry.bookingUrl}` : undefined,
+  ].filter((line): line is string => !!line);
+
+  // All-day event when the time isn't known
+  const minutes = entry.time ? toVenueLocalTime(entry.time)?.minutes : undefined;
+  const start = minutes !== undefined
+    ? [`DTSTART:${formatLocalDateTime(entry.date, minutes)}`, `DURATION:${DEFAULT_DURATION}`]
+    : [`DTSTART;VALUE=DATE:${formatDate(entry.date)}`, 'DURATION:P1D'];
+
+  const cancelled = entry.status === 'cancelled';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${entry.id}@restaurant-mcp`,
+    `DTSTAMP:${formatUtc(entry.updatedAt)}`,
+    `LAST-MODIFIED:${formatUtc(entry.updatedAt)}`,
+    // Bumped on cancellation so subscribed calendars replace the confirmed copy
+    `SEQUENCE:${cancelled ? 1 : 0}`,
+    ...start,
+    `SUMMARY:${escapeText(`${name} (${entry.partySize})`)}`,
+    ...(entry.location ? [`LOCATION:${escapeText(entry.location)}`] : []),
+    `DESCRIPTION:${escapeText(details.join('\n'))}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Serialize ledger entries as an iCalendar document
+ */
+export function buildCalendar(entries: LedgerEntry[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Restaurant reservations',
+    ...entries.flatMap(eventLines),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Sync live reservations, then export confirmed (and optionally cancelled) bookings
+ */
+export async function exportCalendar(options: CalendarExportOptions = {}): Promise<string> {
+  const when = options.when || 'upcoming';
+  await listReservations('all', { when });
+
+  const entries = (await listLedger({ when }))
+    .filter((e) => e.status === 'confirmed' || (options.includeCancelled !== false && e.status === 'cancelled'));
+
+  return buildCalendar(entries);
+}
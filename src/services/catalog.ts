@@ -0,0 +1,518 @@
+/**
+ * Local venue catalog
+ *
+ * One canonical record per venue, with its listing on each platform. Search
+ * results populate it (grouped by the cross-platform matcher), details calls
+ * fill in address and coordinates, availability checks the time zone, and
+ * release policies are mirrored onto the listing they belong to. Any
+ * platform's ID, or the canonical venue ID, resolves to the same record.
+ *
+ * Matches can be corrected by hand: confirming or splitting a match pins the
+ * listings involved, and later searches never move a pinned listing.
+ *
+ * Stored with sql.js in ~/.restaurant-mcp/catalog.db, next to snipes.db.
+ */
+
+import initSqlJs, { Database } from 'sql.js';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { PlatformIds, PlatformName, Restaurant, RestaurantDetails } from '../types/restaurant.js';
+import type { ReleasePolicy } from '../sniper/store.js';
+import { createRestaurantId, parseRestaurantId } from '../platforms/base.js';
+import type { MatchedRestaurant } from './restaurant-matcher.js';
+
+const VENUE_ID_PREFIX = 'venue-';
+
+export interface CatalogListing {
+  platform: PlatformName;
+  platformId: string;
+  restaurantId: string;          // Prefixed ID, e.g. "resy-12345"
+  name?: string;                 // Name on this platform
+  pinned: boolean;               // Confirmed or split by hand; search never moves it
+  releasePolicy?: {
+    daysAhead: number;
+    releaseTime?: string;        // HH:MM in the venue's time zone, if known
+    source: ReleasePolicy['source'];
+    updatedAt: string;
+  };
+}
+
+export interface CatalogVenue {
+  id: string;                    // Canonical ID, e.g. "venue-1739577600000-k3j9x2"
+  name?: string;
+  address?: string;
+  location?: string;
+  neighborhood?: string;
+  coordinates?: { lat: number; lng: number };
+  timeZone?: string;
+  cuisines: string[];
+  priceRange?: number;
+  rating?: number;
+  platformIds: PlatformIds;
+  listings: CatalogListing[];    // Resy > OpenTable > Tock, but the named platform first when resolved by a platform ID
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SplitResult {
+  split: CatalogVenue;           // New venue holding the split-off listing
+  remaining: CatalogVenue | null;
+}
+
+const DB_DIR = join(homedir(), '.restaurant-mcp');
+const DB_PATH = join(DB_DIR, 'catalog.db');
+
+let db: Database | null = null;
+let dbInitPromise: Promise<void> | null = null;
+
+async function ensureDb(): Promise<Database> {
+  if (db) return db;
+
+  if (!dbInitPromise) {
+    dbInitPromise = (async () => {
+      await fs.mkdir(DB_DIR, { recursive: true });
+
+      const SQL = await initSqlJs();
+
+      try {
+        const fileBuffer = await fs.readFile(DB_PATH);
+        db = new SQL.Database(fileBuffer);
+      } catch {
+        db = new SQL.Database();
+      }
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS venues (
+          id TEXT PRIMARY KEY,
+          name TEXT,
+          address TEXT,
+          location TEXT,
+          neighborhood TEXT,
+          latitude REAL,
+          longitude REAL,
+          time_zone TEXT,
+          cuisines TEXT,
+          price_range INTEGER,
+          rating REAL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS venue_listings (
+          platform TEXT NOT NULL,
+          platform_id TEXT NOT NULL,
+          venue_id TEXT NOT NULL,
+          name TEXT,
+          pinned INTEGER NOT NULL DEFAULT 0,
+          release_days_ahead INTEGER,
+          release_time TEXT,
+          release_source TEXT,
+          release_updated_at TEXT,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (platform, platform_id)
+        )
+      `);
+
+      db.run('CREATE INDEX IF NOT EXISTS venue_listings_venue ON venue_listings (venue_id)');
+
+      await saveDb();
+    })();
+  }
+
+  await dbInitPromise;
+  return db!;
+}
+
+async function saveDb(): Promise<void> {
+  if (!db) return;
+  const data = db.export();
+  const buffer = Buffer.from(data);
+  await fs.writeFile(DB_PATH, buffer);
+}
+
+interface VenueRow {
+  id: string;
+  name: string | null;
+  address: string | null;
+  location: string | null;
+  neighborhood: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  time_zone: string | null;
+  cuisines: string | null;
+  price_range: number | null;
+  rating: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ListingRow {
+  platform: string;
+  platform_id: string;
+  venue_id: string;
+  name: string | null;
+  pinned: number;
+  release_days_ahead: number | null;
+  release_time: string | null;
+  release_source: string | null;
+  release_updated_at: string | null;
+  updated_at: string;
+}
+
+function queryRows<T>(database: Database, sql: string, params: Array<string | number>): T[] {
+  const results: T[] = [];
+  const stmt = database.prepare(sql);
+  if (params.length) stmt.bind(params);
+
+  while (stmt.step()) {
+    results.push(stmt.getAsObject() as unknown as T);
+  }
+
+  stmt.free();
+  return results;
+}
+
+function rowToListing(row: ListingRow): CatalogListing {
+  return {
+    platform: row.platform,
+    platformId: row.platform_id,
+    restaurantId: createRestaurantId(row.platform, row.platform_id),
+    name: row.name ?? undefined,
+    pinned: row.pinned === 1,
+    releasePolicy: row.release_days_ahead !== null
+      ? {
+          daysAhead: row.release_days_ahead,
+          releaseTime: row.release_time || undefined,
+          source: row.release_source as ReleasePolicy['source'],
+          updatedAt: row.release_updated_at!,
+        }
+      : undefined,
+  };
+}
+
+// Same ID types the matcher produces: numeric for Resy and OpenTable
+function toPlatformIds(listings: CatalogListing[]): PlatformIds {
+  const platformIds: PlatformIds = {};
+  for (const { platform, platformId } of listings) {
+    if (platform === 'resy' || platform === 'opentable') {
+      platformIds[platform] = parseInt(platformId, 10);
+    } else {
+      platformIds[platform] = platformId;
+    }
+  }
+  return platformIds;
+}
+
+function loadVenue(database: Database, venueId: string): CatalogVenue | null {
+  const [row] = queryRows<VenueRow>(database, 'SELECT * FROM venues WHERE id = ?', [venueId]);
+  if (!row) return null;
+
+  const listings = queryRows<ListingRow>(
+    database,
+    `SELECT * FROM venue_listings WHERE venue_id = ?
+     ORDER BY CASE platform WHEN 'resy' THEN 0 WHEN 'opentable' THEN 1 WHEN 'tock' THEN 2 ELSE 3 END, platform_id`,
+    [venueId]
+  ).map(rowToListing);
+
+  return {
+    id: row.id,
+    name: row.name ?? undefined,
+    address: row.address ?? undefined,
+    location: row.location ?? undefined,
+    neighborhood: row.neighborhood ?? undefined,
+    coordinates: row.latitude !== null && row.longitude !== null ? { lat: row.latitude, lng: row.longitude } : undefined,
+    timeZone: row.time_zone ?? undefined,
+    cuisines: row.cuisines ? JSON.parse(row.cuisines) : [],
+    priceRange: row.price_range ?? undefined,
+    rating: row.rating ?? undefined,
+    platformIds: toPlatformIds(listings),
+    listings,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function findListing(database: Database, platform: PlatformName, platformId: string): ListingRow | null {
+  const [row] = queryRows<ListingRow>(
+    database,
+    'SELECT * FROM venue_listings WHERE platform = ? AND platform_id = ?',
+    [platform, platformId]
+  );
+  return row ?? null;
+}
+
+function insertVenue(database: Database, name?: string): string {
+  const id = `${VENUE_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const now = new Date().toISOString();
+  database.run(
+    'INSERT INTO venues (id, name, cuisines, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+    [id, name ?? null, '[]', now, now]
+  );
+  return id;
+}
+
+// Point a listing at a venue, creating the listing if it's new
+function placeListing(database: Database, platform: PlatformName, platformId: string, venueId: string, name?: string): void {
+  database.run(
+    `INSERT INTO venue_listings (platform, platform_id, venue_id, name, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (platform, platform_id) DO UPDATE SET venue_id = excluded.venue_id,
+       name = COALESCE(excluded.name, venue_listings.name), updated_at = excluded.updated_at`,
+    [platform, platformId, venueId, name ?? null, new Date().toISOString()]
+  );
+}
+
+// The listing's venue, creating a venue of its own when it's unknown
+function ensureListing(database: Database, platform: PlatformName, platformId: string, name?: string): string {
+  const existing = findListing(database, platform, platformId);
+  if (existing) return existing.venue_id;
+
+  const venueId = insertVenue(database, name);
+  placeListing(database, platform, platformId, venueId, name);
+  return venueId;
+}
+
+function dropEmptyVenues(database: Database): void {
+  database.run('DELETE FROM venues WHERE id NOT IN (SELECT DISTINCT venue_id FROM venue_listings)');
+}
+
+function updateVenueFromRestaurants(database: Database, venueId: string, restaurants: Restaurant[]): void {
+  if (restaurants.length === 0) return;
+
+  // Members arrive in the matcher's platform priority order; the first is the best source
+  const [best] = restaurants;
+  const cuisines = new Set<string>();
+  for (const r of restaurants) {
+    for (const c of r.cuisines?.length ? r.cuisines : r.cuisine.split(/[,/]/)) {
+      const trimmed = c.trim().toLowerCase();
+      if (trimmed) cuisines.add(trimmed);
+    }
+  }
+
+  const coordinates = restaurants.find((r) => r.coordinates)?.coordinates;
+
+  database.run(
+    `UPDATE venues SET name = ?, location = COALESCE(?, location), neighborhood = COALESCE(?, neighborhood),
+       latitude = COALESCE(?, latitude), longitude = COALESCE(?, longitude),
+       cuisines = ?, price_range = COALESCE(?, price_range), rating = COALESCE(?, rating), updated_at = ?
+     WHERE id = ?`,
+    [best.name, best.location || null, best.neighborhood ?? null, coordinates?.lat ?? null, coordinates?.lng ?? null,
+     JSON.stringify(Array.from(cuisines)), best.priceRange || null, Math.max(...restaurants.map((r) => r.rating)) || null,
+     new Date().toISOString(), venueId]
+  );
+}
+
+/**
+ * Record search results, grouped the way the matcher grouped them
+ *
+ * Unpinned listings join the group's venue (the first pinned member's, else
+ * the first already catalogued); pinned listings stay where they are.
+ * Returns the canonical venue ID for each restaurant's prefixed ID.
+ */
+export async function catalogMatches(matched: MatchedRestaurant[]): Promise<Map<string, string>> {
+  const database = await ensureDb();
+  const venueIds = new Map<string, string>();
+
+  for (const group of matched) {
+    const members = Array.from(group.platformResults.values());
+    const rows = members.map((r) => findListing(database, r.platform, String(r.platformId)));
+
+    const target = rows.find((row) => row?.pinned)?.venue_id
+      ?? rows.find((row) => row)?.venue_id
+      ?? insertVenue(database, group.name);
+
+    const placed: Restaurant[] = [];
+    members.forEach((member, i) => {
+      const row = rows[i];
+      if (row?.pinned && row.venue_id !== target) {
+        updateVenueFromRestaurants(database, row.venue_id, [member]);
+        venueIds.set(member.id, row.venue_id);
+        return;
+      }
+      placeListing(database, member.platform, String(member.platformId), target, member.name);
+      placed.push(member);
+      venueIds.set(member.id, target);
+    });
+
+    updateVenueFromRestaurants(database, target, placed);
+  }
+
+  dropEmptyVenues(database);
+  await saveDb();
+  return venueIds;
+}
+
+/**
+ * Record a platform's details for one of its listings
+ */
+export async function catalogDetails(platform: PlatformName, platformId: string, details: RestaurantDetails): Promise<void> {
+  const database = await ensureDb();
+  const venueId = ensureListing(database, platform, platformId, details.name);
+
+  const { address } = details;
+  const street = [address.street, address.city, [address.state, address.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  database.run(
+    `UPDATE venues SET name = COALESCE(name, ?), address = COALESCE(?, address), location = COALESCE(location, ?),
+       neighborhood = COALESCE(neighborhood, ?), latitude = COALESCE(?, latitude), longitude = COALESCE(?, longitude),
+       price_range = COALESCE(price_range, ?), rating = COALESCE(rating, ?), updated_at = ?
+     WHERE id = ?`,
+    [details.name, street || null, address.city || null, address.neighborhood ?? null,
+     address.coordinates?.lat ?? null, address.coordinates?.lng ?? null,
+     details.priceRange || null, details.rating || null, new Date().toISOString(), venueId]
+  );
+
+  if (details.cuisines.length > 0) {
+    database.run(`UPDATE venues SET cuisines = ? WHERE id = ? AND (cuisines IS NULL OR cuisines = '[]')`,
+      [JSON.stringify(details.cuisines.map((c) => c.toLowerCase())), venueId]);
+  }
+
+  await saveDb();
+}
+
+/**
+ * Record a venue's time zone, as reported with its slots
+ */
+export async function catalogTimeZone(platform: PlatformName, platformId: string, timeZone: string): Promise<void> {
+  const database = await ensureDb();
+  const row = findListing(database, platform, platformId);
+  if (!row) return;
+
+  database.run(
+    'UPDATE venues SET time_zone = ?, updated_at = ? WHERE id = ? AND (time_zone IS NULL OR time_zone != ?)',
+    [timeZone, new Date().toISOString(), row.venue_id, timeZone]
+  );
+  if (database.getRowsModified() > 0) await saveDb();
+}
+
+/**
+ * Mirror a configured or learned release policy onto its listing
+ *
+ * The policy in snipes.db is the one snipes use; this copy only shows it on
+ * the venue record. It's rewritten whenever that policy is saved, so where
+ * the two differ, snipes.db wins.
+ */
+export async function catalogReleasePolicy(policy: ReleasePolicy): Promise<void> {
+  const database = await ensureDb();
+  const venueId = ensureListing(database, policy.platform, policy.restaurantId);
+
+  database.run(
+    `UPDATE venue_listings SET release_days_ahead = ?, release_time = ?, release_source = ?, release_updated_at = ?
+     WHERE platform = ? AND platform_id = ?`,
+    [policy.daysAhead, policy.releaseTime ?? null, policy.source, policy.updatedAt, policy.platform, policy.restaurantId]
+  );
+  database.run('UPDATE venues SET time_zone = COALESCE(time_zone, ?) WHERE id = ?', [policy.timeZone, venueId]);
+
+  await saveDb();
+}
+
+/**
+ * Canonical record for a venue ID or any platform's restaurant ID
+ *
+ * For a platform ID, that platform's listing comes first.
+ */
+export async function resolveVenue(id: string): Promise<CatalogVenue | null> {
+  const database = await ensureDb();
+
+  if (id.startsWith(VENUE_ID_PREFIX)) {
+    return loadVenue(database, id);
+  }
+
+  const parsed = parseRestaurantId(id);
+  if (!parsed) return null;
+
+  const row = findListing(database, parsed.platform, parsed.id);
+  if (!row) return null;
+
+  const venue = loadVenue(database, row.venue_id);
+  if (!venue) return null;
+
+  venue.listings.sort((a, b) => Number(b.platform === parsed.platform && b.platformId === parsed.id)
+    - Number(a.platform === parsed.platform && a.platformId === parsed.id));
+  return venue;
+}
+
+function parseListingIds(restaurantIds: string[]): Array<{ platform: PlatformName; id: string }> {
+  return restaurantIds.map((restaurantId) => {
+    const parsed = parseRestaurantId(restaurantId);
+    if (!parsed) {
+      throw new Error(`Invalid restaurant ID: ${restaurantId}. Expected a platform ID such as resy-12345`);
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Mark listings as the same venue, merging their venues into the first's
+ */
+export async function confirmMatch(restaurantIds: string[]): Promise<CatalogVenue> {
+  const ids = parseListingIds(restaurantIds);
+  const database = await ensureDb();
+
+  const target = ensureListing(database, ids[0].platform, ids[0].id);
+  for (const { platform, id } of ids.slice(1)) {
+    const venueId = ensureListing(database, platform, id);
+    if (venueId === target) continue;
+
+    // Everything catalogued with the other venue comes along
+    database.run('UPDATE venue_listings SET venue_id = ? WHERE venue_id = ?', [target, venueId]);
+    database.run(
+      `UPDATE venues SET
+         address = COALESCE(address, (SELECT address FROM venues WHERE id = ?)),
+         latitude = COALESCE(latitude, (SELECT latitude FROM venues WHERE id = ?)),
+         longitude = COALESCE(longitude, (SELECT longitude FROM venues WHERE id = ?)),
+         time_zone = COALESCE(time_zone, (SELECT time_zone FROM venues WHERE id = ?))
+       WHERE id = ?`,
+      [venueId, venueId, venueId, venueId, target]
+    );
+  }
+
+  database.run('UPDATE venue_listings SET pinned = 1, updated_at = ? WHERE venue_id = ?', [new Date().toISOString(), target]);
+  dropEmptyVenues(database);
+  await saveDb();
+
+  return loadVenue(database, target)!;
+}
+
+/**
+ * Move a wrongly matched listing out to a venue of its own
+ *
+ * Both sides are pinned so the next search doesn't merge them again.
+ */
+export async function splitMatch(restaurantId: string): Promise<SplitResult> {
+  const [{ platform, id }] = parseListingIds([restaurantId]);
+  const database = await ensureDb();
+
+  const row = findListing(database, platform, id);
+  if (!row) {
+    throw new Error(`${restaurantId} isn't in the catalog; search for it first`);
+  }
+
+  const now = new Date().toISOString();
+  const remainingId = row.venue_id;
+  const splitId = insertVenue(database, row.name ?? undefined);
+
+  database.run('UPDATE venue_listings SET venue_id = ?, pinned = 1, updated_at = ? WHERE platform = ? AND platform_id = ?',
+    [splitId, now, platform, id]);
+  database.run('UPDATE venue_listings SET pinned = 1 WHERE venue_id = ?', [remainingId]);
+  dropEmptyVenues(database);
+  await saveDb();
+
+  return {
+    split: loadVenue(database, splitId)!,
+    remaining: loadVenue(database, remainingId),
+  };
+}
+
+export async function closeCatalog(): Promise<void> {
+  if (db) {
+    await saveDb();
+    db.close();
+    db = null;
+    dbInitPromise = null;
+  }
+}
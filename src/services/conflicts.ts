@@ -0,0 +1,131 @@
+/**
+ * Double-booking guard
+ *
+ * Before booking, make_reservation, find_table and the sniper check the
+ * ledger (synced with live platform reservations) for confirmed bookings on
+ * the same date within a window of the new slot. A conflict refuses the
+ * booking unless the caller explicitly allows it.
+ */
+
+import { ErrorCode, ReservationError } from '../types/restaurant.js';
+import { listLedger } from './ledger.js';
+import { listReservations } from './reservations.js';
+import { toVenueLocalTime } from '../utils/time.js';
+
+// Bookings closer than this (either side) count as the same evening
+export const DEFAULT_CONFLICT_WINDOW_MINUTES = 180;
+
+export interface ConflictOptions {
+  allowConflicts?: boolean;      // Book anyway
+  windowMinutes?: number;        // Defaults to BOOKING_CONFLICT_WINDOW_MINUTES or 180
+  sync?: boolean;                // Refresh from platforms first (default true)
+}
+
+export interface ConflictTarget {
+  date: string;                  // YYYY-MM-DD
+  time?: string;                 // Slot time in any format toVenueLocalTime reads
+  timeZone?: string;
+  excludeConfirmationId?: string; // A booking being replaced
+}
+
+export interface BookingConflict {
+  bookingId: string;
+  platform: string;
+  restaurantId?: string;
+  restaurantName?: string;
+  date: string;
+  time?: string;
+  confirmationId?: string;
+  minutesApart?: number;         // Unknown when either time is missing
+}
+
+export interface ConflictCheck {
+  windowMinutes: number;
+  conflicts: BookingConflict[];
+  allowed: boolean;              // False when there are conflicts and no override
+  message?: string;
+}
+
+/**
+ * The window in effect: explicit value, then BOOKING_CONFLICT_WINDOW_MINUTES, then the default
+ */
+export function conflictWindowMinutes(override?: number): number {
+  if (override !== undefined) return override;
+  const fromEnv = parseInt(process.env.BOOKING_CONFLICT_WINDOW_MINUTES || '', 10);
+  return Number.isFinite(fromEnv) && fromEnv >= 0 ? fromEnv : DEFAULT_CONFLICT_WINDOW_MINUTES;
+}
+
+function describe(conflict: BookingConflict): string {
+  const name = conflict.restaurantName || conflict.restaurantId || conflict.platform;
+  return `${name} on ${conflict.date}${conflict.time ? ` at ${conflict.time}` : ''}`;
+}
+
+/**
+ * Confirmed bookings that overlap the target within the window
+ *
+ * A booking with no known time on the same date always counts, since it
+ * can't be ruled out.
+ */
+export async function checkBookingConflicts(target: ConflictTarget, options: ConflictOptions = {}): Promise<ConflictCheck> {
+  const windowMinutes = conflictWindowMinutes(options.windowMinutes);
+
+  if (options.sync !== false) {
+    // Pulls in bookings made outside this server; failures are reported per platform, not thrown
+    await listReservations('all', { when: 'upcoming' });
+  }
+
+  const targetMinutes = target.time ? toVenueLocalTime(target.time, target.timeZone)?.minutes : undefined;
+  const booked = await listLedger({ status: 'confirmed', when: 'all' });
+
+  const conflicts: BookingConflict[] = [];
+  for (const entry of booked) {
+    if (entry.date !== target.date) continue;
+    if (target.excludeConfirmationId && entry.confirmationId === target.excludeConfirmationId) continue;
+
+    const entryMinutes = entry.time ? toVenueLocalTime(entry.time)?.minutes : undefined;
+    const minutesApart = targetMinutes !== undefined && entryMinutes !== undefined
+      ? Math.abs(targetMinutes - entryMinutes)
+      : undefined;
+    if (minutesApart !== undefined && minutesApart >= windowMinutes) continue;
+
+    conflicts.push({
+      bookingId: entry.id,
+      platform: entry.platform,
+      restaurantId: entry.restaurantId,
+      restaurantName: entry.restaurantName,
+      date: entry.date,
+      time: entry.time,
+      confirmationId: entry.confirmationId,
+      minutesApart,
+    });
+  }
+
+  if (conflicts.length === 0) {
+    return { windowMinutes, conflicts, allowed: true };
+  }
+
+  const list = conflicts.map(describe).join('; ');
+  return {
+    windowMinutes,
+    conflicts,
+    allowed: options.allowConflicts === true,
+    message: options.allowConflicts
+      ? `Booking anyway despite an existing reservation within ${windowMinutes} minutes: ${list}`
+      : `You already have a reservation within ${windowMinutes} minutes: ${list}. Set allow_conflicts to book anyway.`,
+  };
+}
+
+/**
+ * Throw a BOOKING_CONFLICT ReservationError unless the booking is allowed
+ */
+export async function assertNoConflicts(target: ConflictTarget, options: ConflictOptions = {}): Promise<ConflictCheck> {
+  const check = await checkBookingConflicts(target, options);
+  if (!check.allowed) {
+    throw new ReservationError(ErrorCode.BOOKING_CONFLICT, check.message!, {
+      suggestions: check.conflicts
+        .filter((c) => c.confirmationId)
+        .map((c) => `Cancel ${c.platform} reservation ${c.confirmationId} (${describe(c)}) first`),
+    });
+  }
+  return check;
+}
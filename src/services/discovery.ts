@@ -0,0 +1,159 @@
+/**
+ * Discovery: open tables anywhere in an area
+ *
+ * Where find_table books one named restaurant, discovery asks each platform
+ * with an area-wide availability search for every venue near a location, keeps
+ * the ones with slots in the time window that pass the cuisine, price,
+ * radius and slot filters, and ranks them by rating and closeness to the
+ * preferred time (or by distance from the search center).
+ */
+
+import type { Coordinates, PriceRange, Restaurant, TimeSlot } from '../types/restaurant.js';
+import { listPlatforms } from '../platforms/index.js';
+import { rankSlots, type SlotPreferences } from './slot-preferences.js';
+import { clockTimeToMinutes, minutesToClockTime, toVenueLocalTime } from '../utils/time.js';
+import type { PlatformOperationReport } from './reservations.js';
+import { distanceMiles, resolveSearchArea, type GeoPlace } from '../geo/geocoder.js';
+
+// Without an explicit window, slots this far either side of the preferred time count
+const DEFAULT_WINDOW_MINUTES = 90;
+
+// Ranking trade-off: 0.1 stars of rating is worth this many minutes of distance from the preferred time
+const MINUTES_PER_TENTH_STAR = 15;
+
+export interface DiscoveryQuery {
+  location: string;
+  coordinates?: Coordinates;     // Search center; overrides geocoding the location
+  radiusMiles?: number;
+  date: string;                  // YYYY-MM-DD
+  time: string;                  // Preferred time, e.g. "8:00 PM"
+  partySize: number;
+  cuisine?: string;
+  priceRange?: PriceRange[];
+  minRating?: number;
+  preferences?: SlotPreferences; // earliest/latest narrow the window; seating and fee limits apply too
+  sortBy?: 'best' | 'distance';  // Default 'best': rating and closeness to the preferred time
+  limit?: number;
+}
+
+export interface DiscoveryMatch {
+  restaurant: Restaurant;
+  bestSlot: TimeSlot;
+  minutesFromPreferred: number;
+  distanceMiles?: number;        // From the search center, when the venue's location is known
+  score: number;
+  slots: string[];               // Eligible slots, "HH:MM Type (slot id)", closest first
+}
+
+export interface DiscoveryResult {
+  location: string;
+  searchArea: GeoPlace;
+  date: string;
+  partySize: number;
+  preferredTime: string;
+  window: { earliest: string; latest: string };
+  matches: DiscoveryMatch[];
+  venuesChecked: number;
+  platforms: PlatformOperationReport[];
+}
+
+function matchesFilters(restaurant: Restaurant, query: DiscoveryQuery): boolean {
+  if (query.cuisine) {
+    const wanted = query.cuisine.toLowerCase();
+    const cuisines = restaurant.cuisines?.length ? restaurant.cuisines : [restaurant.cuisine];
+    if (!cuisines.some((c) => c.toLowerCase().includes(wanted))) return false;
+  }
+
+  if (query.priceRange?.length && !query.priceRange.includes(restaurant.priceRange as PriceRange)) return false;
+  if (query.minRating !== undefined && restaurant.rating < query.minRating) return false;
+
+  return true;
+}
+
+/**
+ * Venues with open slots near the preferred time, best first
+ *
+ * Throws UNKNOWN_LOCATION when the location can't be placed.
+ */
+export async function discoverTables(query: DiscoveryQuery): Promise<DiscoveryResult> {
+  const area = await resolveSearchArea(query.location, query.coordinates, query.radiusMiles);
+  const target = clockTimeToMinutes(query.time);
+  const earliest = query.preferences?.earliest ?? minutesToClockTime(Math.max(0, target - DEFAULT_WINDOW_MINUTES));
+  const latest = query.preferences?.latest ?? minutesToClockTime(Math.min(24 * 60 - 1, target + DEFAULT_WINDOW_MINUTES));
+  const slotPreferences: SlotPreferences = {
+    ...query.preferences,
+    earliest,
+    latest,
+    preferredTimes: [query.time],
+  };
+
+  const platforms: PlatformOperationReport[] = [];
+  const matches: DiscoveryMatch[] = [];
+  let venuesChecked = 0;
+
+  for (const client of listPlatforms()) {
+    if (!client.capabilities.discovery || !client.findOpenings) {
+      platforms.push({ platform: client.name, status: 'unsupported', message: `${client.name} has no area-wide availability search` });
+      continue;
+    }
+
+    let venues;
+    try {
+      venues = await client.findOpenings({
+        query: '',
+        location: query.location,
+        date: query.date,
+        partySize: query.partySize,
+        coordinates: area.coordinates,
+        radiusMiles: area.radiusMiles,
+      });
+    } catch (error) {
+      platforms.push({ platform: client.name, status: 'error', message: error instanceof Error ? error.message : 'Discovery failed' });
+      continue;
+    }
+    platforms.push({ platform: client.name, status: 'ok' });
+    venuesChecked += venues.length;
+
+    for (const { restaurant, slots } of venues) {
+      if (!matchesFilters(restaurant, query)) continue;
+
+      const distance = restaurant.coordinates
+        ? Math.round(distanceMiles(area.coordinates, restaurant.coordinates) * 10) / 10
+        : undefined;
+      if (area.radiusMiles !== undefined && distance !== undefined && distance > area.radiusMiles) continue;
+
+      const eligible = rankSlots(slots, slotPreferences).filter((r) => r.eligible);
+      if (eligible.length === 0) continue;
+
+      const best = eligible[0];
+      const minutesFromPreferred = Math.abs((toVenueLocalTime(best.slot.time, best.slot.timeZone)?.minutes ?? target) - target);
+
+      matches.push({
+        restaurant,
+        bestSlot: best.slot,
+        minutesFromPreferred,
+        distanceMiles: distance,
+        score: Math.round(restaurant.rating * 10 * MINUTES_PER_TENTH_STAR - minutesFromPreferred),
+        slots: eligible.map((r) => `${r.localTime}${r.slot.type ? ` ${r.slot.type}` : ''} (slot ${r.slot.slotId})`),
+      });
+    }
+  }
+
+  if (query.sortBy === 'distance') {
+    matches.sort((a, b) => (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity) || b.score - a.score);
+  } else {
+    matches.sort((a, b) => b.score - a.score || a.minutesFromPreferred - b.minutesFromPreferred);
+  }
+
+  return {
+    location: query.location,
+    searchArea: area.place,
+    date: query.date,
+    partySize: query.partySize,
+    preferredTime: query.time,
+    window: { earliest, latest },
+    matches: matches.slice(0, query.limit ?? 10),
+    venuesChecked,
+    platforms,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Booking fee limits
+ *
+ * A slot can take a deposit up front and charge a fee for late cancellation.
+ * Before a Resy booking is posted (direct, held, sniped or watched), the fees
+ * quoted with its book token are checked against MAX_BOOKING_DEPOSIT and
+ * MAX_CANCELLATION_FEE (in dollars). A direct or held booking over them is
+ * refused; the sniper and watches skip that slot and try the next one. A
+ * booking can tighten the limits for itself, or require that no card is
+ * charged at all, but never loosen them.
+ */
+
+import type { PaymentOptions } from '../types/restaurant.js';
+
+export interface FeeLimits {
+  maxDeposit?: number;
+  maxCancellationFee?: number;
+}
+
+export interface QuotedFees {
+  depositFee?: number;
+  cancellationFee?: number;
+}
+
+function envLimit(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function lowest(...values: Array<number | undefined>): number | undefined {
+  const defined = values.filter((v): v is number => v !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
+
+/**
+ * The limits in effect: the configured ones, tightened by the booking's own
+ */
+export function feeLimits(options: PaymentOptions = {}): FeeLimits {
+  return {
+    maxDeposit: options.requireNoCharge ? 0 : lowest(envLimit('MAX_BOOKING_DEPOSIT'), options.maxDeposit),
+    maxCancellationFee: options.requireNoCharge ? 0 : lowest(envLimit('MAX_CANCELLATION_FEE'), options.maxCancellationFee),
+  };
+}
+
+/**
+ * Why the quoted fees can't be booked, or undefined if they're within limits
+ */
+export function checkFees(fees: QuotedFees, options: PaymentOptions = {}): string | undefined {
+  const limits = feeLimits(options);
+  const problems: string[] = [];
+
+  if (limits.maxDeposit !== undefined && (fees.depositFee ?? 0) > limits.maxDeposit) {
+    problems.push(`deposit $${fees.depositFee} exceeds the $${limits.maxDeposit} limit`);
+  }
+  if (limits.maxCancellationFee !== undefined && (fees.cancellationFee ?? 0) > limits.maxCancellationFee) {
+    problems.push(`cancellation fee $${fees.cancellationFee} exceeds the $${limits.maxCancellationFee} limit`);
+  }
+
+  if (problems.length === 0) return undefined;
+  return `${options.requireNoCharge ? 'Not booked without a card' : 'Not booked'}: ${problems.join('; ')}`;
+}
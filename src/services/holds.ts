@@ -0,0 +1,178 @@
+/**
+ * Booking holds: quote a slot first, book it on confirmation
+ *
+ * find_table stops short of booking on platforms that can quote
+ * (capabilities.holds): it fetches the slot's deposit, cancellation fee and
+ * policy along with the platform's short-lived book token, and keeps them
+ * here under a hold ID. confirm_booking completes the booking with that
+ * token. Holds live in memory only and lapse when the token expires; the
+ * platform does not reserve the table meanwhile.
+ */
+
+import type { PlatformClient } from '../platforms/base.js';
+import { getPlatform } from '../platforms/index.js';
+import type { BookingQuote, PaymentMethod, PaymentOptions, PlatformName, ReservationParams, ReservationResult, TimeSlot } from '../types/restaurant.js';
+import { bookReservation, type BookingContext } from './reservations.js';
+import { checkBookingConflicts, type BookingConflict, type ConflictOptions } from './conflicts.js';
+import { checkFees } from './fee-policy.js';
+
+// What callers see of a hold; the book token stays in this module
+export interface BookingHold {
+  holdId: string;
+  platform: PlatformName;
+  restaurantId: string;
+  restaurantName?: string;
+  date: string;
+  partySize: number;
+  slot?: TimeSlot;
+  depositFee?: number;
+  cancellationFee?: number;
+  cancellationPolicy?: string[];
+  paymentMethods?: PaymentMethod[];  // Cards confirm_booking can charge
+  expiresAt: string;             // ISO 8601; confirm before this
+}
+
+export interface HoldResult {
+  success: boolean;
+  hold?: BookingHold;
+  error?: string;
+}
+
+export interface ConfirmHoldResult {
+  success: boolean;
+  hold?: BookingHold;
+  booking?: ReservationResult;
+  conflicts?: BookingConflict[];
+  error?: string;
+}
+
+interface StoredHold {
+  hold: BookingHold;
+  params: ReservationParams;
+  context: BookingContext;
+  quote: BookingQuote;
+}
+
+const holds = new Map<string, StoredHold>();
+
+function isExpired(stored: StoredHold, now = Date.now()): boolean {
+  return Date.parse(stored.hold.expiresAt) <= now;
+}
+
+function purgeExpired(): void {
+  const now = Date.now();
+  for (const [id, stored] of holds) {
+    if (isExpired(stored, now)) holds.delete(id);
+  }
+}
+
+/**
+ * Quote a slot and hold its book token until it expires
+ */
+export async function placeHold(client: PlatformClient, params: ReservationParams, context: BookingContext): Promise<HoldResult> {
+  if (!client.capabilities.holds || !client.quoteReservation) {
+    return { success: false, error: `${client.name} does not support holding a slot before booking` };
+  }
+
+  let quote: BookingQuote;
+  try {
+    quote = await client.quoteReservation(params);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to fetch booking details' };
+  }
+
+  // Fees over the limits could never be confirmed, so don't hold them
+  const feeError = checkFees(quote, params.payment);
+  if (feeError) return { success: false, error: feeError };
+
+  purgeExpired();
+  const hold: BookingHold = {
+    holdId: `hold-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    platform: client.name,
+    restaurantId: params.restaurantId,
+    restaurantName: context.restaurantName,
+    date: params.date,
+    partySize: params.partySize,
+    slot: context.slot,
+    depositFee: quote.depositFee,
+    cancellationFee: quote.cancellationFee,
+    cancellationPolicy: quote.cancellationPolicy,
+    paymentMethods: quote.paymentMethods,
+    expiresAt: quote.expiresAt,
+  };
+
+  holds.set(hold.holdId, { hold, params, context, quote });
+
+  return { success: true, hold };
+}
+
+/**
+ * Book a held slot. The double-booking guard runs again, since other
+ * bookings may have landed since the hold was placed. A card chosen at
+ * confirmation replaces the one given with find_table, but a card and
+ * require_no_charge are refused together wherever each came from.
+ */
+export async function confirmHold(holdId: string, conflictOptions?: ConflictOptions, payment?: PaymentOptions): Promise<ConfirmHoldResult> {
+  const stored = holds.get(holdId);
+  if (!stored) {
+    purgeExpired();
+    return { success: false, error: `No hold ${holdId}; it may be confirming or confirmed already, or the server restarted. Run find_table again.` };
+  }
+
+  if (isExpired(stored)) {
+    holds.delete(holdId);
+    return { success: false, hold: stored.hold, error: `Hold ${holdId} expired at ${stored.hold.expiresAt}. Run find_table again for a fresh one.` };
+  }
+
+  const client = getPlatform(stored.hold.platform);
+  if (!client) {
+    return { success: false, hold: stored.hold, error: `Platform ${stored.hold.platform} is not registered` };
+  }
+
+  // Either half can come from find_table and the other from here, so check the pair once merged
+  const held = stored.params.payment;
+  const merged: PaymentOptions = {
+    ...held,
+    paymentMethodId: payment?.paymentMethodId ?? held?.paymentMethodId,
+    requireNoCharge: payment?.requireNoCharge || held?.requireNoCharge,
+  };
+  if (merged.paymentMethodId && merged.requireNoCharge) {
+    const source = held?.requireNoCharge ? 'the hold was placed with require_no_charge' : `the hold was placed with payment_method_id ${held?.paymentMethodId}`;
+    return {
+      success: false,
+      hold: stored.hold,
+      error: `payment_method_id and require_no_charge can't be used together; ${source}. Run find_table again to change how it's paid.`,
+    };
+  }
+
+  // Claim the hold before the first await so a concurrent confirmation can't book it too.
+  // A failed attempt puts it back, so it can be retried until the token expires
+  holds.delete(holdId);
+  let booked = false;
+
+  try {
+    const check = await checkBookingConflicts(
+      { date: stored.hold.date, time: stored.hold.slot?.time, timeZone: stored.hold.slot?.timeZone },
+      conflictOptions
+    );
+    const conflicts = check.conflicts.length > 0 ? check.conflicts : undefined;
+    if (!check.allowed) {
+      return { success: false, hold: stored.hold, conflicts, error: check.message };
+    }
+
+    const params: ReservationParams = { ...stored.params, payment: merged };
+    const booking = await bookReservation(client, params, { ...stored.context, quote: stored.quote });
+    booked = booking.success;
+
+    return { success: booking.success, hold: stored.hold, booking, conflicts, error: booking.error };
+  } finally {
+    if (!booked) holds.set(holdId, stored);
+  }
+}
+
+/**
+ * Drop a hold without booking
+ */
+export function releaseHold(holdId: string): boolean {
+  return holds.delete(holdId);
+}
@@ -0,0 +1,370 @@
+/**
+ * Local reservation ledger
+ *
+ * Every booking attempt made through this server (make_reservation,
+ * find_table, modify_reservation and the sniper) is recorded here with its
+ * outcome, including hand-off URLs for platforms that can't book directly.
+ * Live reservations from platforms that support listing are reconciled into
+ * the same table, so list_reservations can show history across platforms.
+ *
+ * Stored with sql.js in ~/.restaurant-mcp/ledger.db, next to snipes.db.
+ */
+
+import initSqlJs, { Database } from 'sql.js';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { PlatformName, Reservation, ReservationResult, TimeSlot } from '../types/restaurant.js';
+import { todayIn, toVenueLocalTime } from '../utils/time.js';
+
+export type LedgerSource =
+  | 'make_reservation'
+  | 'find_table'
+  | 'modify_reservation'
+  | 'snipe'
+  | 'campaign'
+  | 'watch'
+  | 'platform';         // Found on the platform during reconciliation
+
+// confirmed: booked; handoff: user must finish on the platform's site
+export type LedgerStatus = 'confirmed' | 'handoff' | 'failed' | 'cancelled';
+
+export interface LedgerEntry {
+  id: string;
+  platform: PlatformName;
+  restaurantId?: string;
+  restaurantName?: string;
+  location?: string;
+  date: string;                  // YYYY-MM-DD
+  time?: string;                 // HH:MM, venue-local
+  partySize: number;
+  slotId?: string;
+  slotType?: string;
+  confirmationId?: string;       // Platform reservation ID, usable with cancel_reservation
+  bookingUrl?: string;
+  depositFee?: number;
+  cancellationFee?: number;
+  source: LedgerSource;
+  status: LedgerStatus;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewLedgerEntry = Omit<LedgerEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface LedgerFilter {
+  platform?: PlatformName;
+  when?: 'upcoming' | 'past' | 'all';
+  status?: LedgerStatus;
+}
+
+const DB_DIR = join(homedir(), '.restaurant-mcp');
+const DB_PATH = join(DB_DIR, 'ledger.db');
+
+let db: Database | null = null;
+let dbInitPromise: Promise<void> | null = null;
+
+async function ensureDb(): Promise<Database> {
+  if (db) return db;
+
+  if (!dbInitPromise) {
+    dbInitPromise = (async () => {
+      await fs.mkdir(DB_DIR, { recursive: true });
+
+      const SQL = await initSqlJs();
+
+      try {
+        const fileBuffer = await fs.readFile(DB_PATH);
+        db = new SQL.Database(fileBuffer);
+      } catch {
+        db = new SQL.Database();
+      }
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS bookings (
+          id TEXT PRIMARY KEY,
+          platform TEXT NOT NULL,
+          restaurant_id TEXT,
+          restaurant_name TEXT,
+          date TEXT NOT NULL,
+          time TEXT,
+          party_size INTEGER NOT NULL,
+          slot_id TEXT,
+          slot_type TEXT,
+          confirmation_id TEXT,
+          booking_url TEXT,
+          deposit_fee REAL,
+          cancellation_fee REAL,
+          source TEXT NOT NULL,
+          status TEXT NOT NULL,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+
+      // Added after the first release; older databases need the column
+      try {
+        db.run('ALTER TABLE bookings ADD COLUMN location TEXT');
+      } catch {
+        // Column already exists
+      }
+
+      db.run('CREATE INDEX IF NOT EXISTS bookings_confirmation ON bookings (platform, confirmation_id)');
+
+      await saveDb();
+    })();
+  }
+
+  await dbInitPromise;
+  return db!;
+}
+
+async function saveDb(): Promise<void> {
+  if (!db) return;
+  const data = db.export();
+  const buffer = Buffer.from(data);
+  await fs.writeFile(DB_PATH, buffer);
+}
+
+interface BookingRow {
+  id: string;
+  platform: string;
+  restaurant_id: string | null;
+  restaurant_name: string | null;
+  location: string | null;
+  date: string;
+  time: string | null;
+  party_size: number;
+  slot_id: string | null;
+  slot_type: string | null;
+  confirmation_id: string | null;
+  booking_url: string | null;
+  deposit_fee: number | null;
+  cancellation_fee: number | null;
+  source: string;
+  status: string;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToEntry(row: BookingRow): LedgerEntry {
+  return {
+    id: row.id,
+    platform: row.platform,
+    restaurantId: row.restaurant_id ?? undefined,
+    restaurantName: row.restaurant_name ?? undefined,
+    location: row.location ?? undefined,
+    date: row.date,
+    time: row.time ?? undefined,
+    partySize: row.party_size,
+    slotId: row.slot_id ?? undefined,
+    slotType: row.slot_type ?? undefined,
+    confirmationId: row.confirmation_id ?? undefined,
+    bookingUrl: row.booking_url ?? undefined,
+    depositFee: row.deposit_fee ?? undefined,
+    cancellationFee: row.cancellation_fee ?? undefined,
+    source: row.source as LedgerSource,
+    status: row.status as LedgerStatus,
+    error: row.error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function queryEntries(database: Database, sql: string, params: Array<string | number>): LedgerEntry[] {
+  const results: LedgerEntry[] = [];
+  const stmt = database.prepare(sql);
+  if (params.length) stmt.bind(params);
+
+  while (stmt.step()) {
+    results.push(rowToEntry(stmt.getAsObject() as unknown as BookingRow));
+  }
+
+  stmt.free();
+  return results;
+}
+
+// Slot times come as "2025-02-15 19:00:00", ISO instants or "7:00 PM"; store HH:MM
+function normalizeTime(time?: string, timeZone?: string): string | undefined {
+  if (!time) return undefined;
+  return toVenueLocalTime(time, timeZone)?.time ?? time;
+}
+
+function insertEntry(database: Database, entry: NewLedgerEntry): LedgerEntry {
+  const id = `booking-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const now = new Date().toISOString();
+
+  database.run(
+    `INSERT INTO bookings (id, platform, restaurant_id, restaurant_name, location, date, time, party_size, slot_id, slot_type,
+       confirmation_id, booking_url, deposit_fee, cancellation_fee, source, status, error, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [id, entry.platform, entry.restaurantId ?? null, entry.restaurantName ?? null, entry.location ?? null, entry.date, entry.time ?? null,
+     entry.partySize, entry.slotId ?? null, entry.slotType ?? null, entry.confirmationId ?? null,
+     entry.bookingUrl ?? null, entry.depositFee ?? null, entry.cancellationFee ?? null, entry.source,
+     entry.status, entry.error ?? null, now, now]
+  );
+
+  return { id, ...entry, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Record a booking attempt
+ */
+export async function recordBooking(entry: NewLedgerEntry): Promise<LedgerEntry> {
+  const database = await ensureDb();
+  const recorded = insertEntry(database, entry);
+  await saveDb();
+  return recorded;
+}
+
+export interface BookingAttempt {
+  source: LedgerSource;
+  platform: PlatformName;
+  restaurantId: string;
+  restaurantName?: string;
+  location?: string;
+  date: string;
+  partySize: number;
+  slotId?: string;
+  slot?: TimeSlot;               // The slot that was booked, when known
+}
+
+/**
+ * Record the outcome of a PlatformClient.makeReservation call
+ */
+export async function recordReservationResult(attempt: BookingAttempt, result: ReservationResult): Promise<LedgerEntry> {
+  const status: LedgerStatus = !result.success
+    ? 'failed'
+    : result.reservationId ? 'confirmed' : 'handoff';
+
+  return recordBooking({
+    platform: attempt.platform,
+    restaurantId: attempt.restaurantId,
+    restaurantName: attempt.restaurantName,
+    location: attempt.location,
+    date: attempt.date,
+    time: normalizeTime(attempt.slot?.time, attempt.slot?.timeZone),
+    partySize: attempt.partySize,
+    slotId: attempt.slotId,
+    slotType: attempt.slot?.type,
+    confirmationId: result.reservationId,
+    bookingUrl: result.bookingUrl ?? attempt.slot?.bookingUrl,
+    depositFee: result.depositFee ?? attempt.slot?.depositFee,
+    cancellationFee: result.cancellationFee ?? attempt.slot?.cancellationFee,
+    source: attempt.source,
+    status,
+    error: result.error,
+  });
+}
+
+/**
+ * Mark a booking cancelled by its platform confirmation ID
+ */
+export async function markBookingCancelled(platform: PlatformName, confirmationId: string): Promise<boolean> {
+  const database = await ensureDb();
+  database.run(
+    `UPDATE bookings SET status = 'cancelled', updated_at = ? WHERE platform = ? AND confirmation_id = ? AND status != 'cancelled'`,
+    [new Date().toISOString(), platform, confirmationId]
+  );
+  const changed = database.getRowsModified() > 0;
+  await saveDb();
+  return changed;
+}
+
+/**
+ * Bring the ledger in line with a platform's live reservations
+ *
+ * Live reservations missing from the ledger are added (source "platform"),
+ * known ones take the platform's date, time, party size and status, and
+ * upcoming confirmed bookings the platform no longer lists are marked cancelled.
+ */
+export async function reconcileLedger(platform: PlatformName, live: Reservation[]): Promise<void> {
+  const database = await ensureDb();
+  const now = new Date().toISOString();
+  const today = todayIn();
+  const liveIds = new Set(live.map((r) => r.reservationId));
+
+  for (const reservation of live) {
+    const status: LedgerStatus = /cancel/i.test(reservation.status) ? 'cancelled' : 'confirmed';
+    const time = normalizeTime(reservation.time);
+    const [existing] = queryEntries(
+      database,
+      'SELECT * FROM bookings WHERE platform = ? AND confirmation_id = ? ORDER BY created_at DESC LIMIT 1',
+      [platform, reservation.reservationId]
+    );
+
+    if (existing) {
+      database.run(
+        `UPDATE bookings SET restaurant_name = COALESCE(restaurant_name, ?), location = COALESCE(location, ?), date = ?, time = ?,
+           party_size = ?, status = ?, updated_at = ?
+         WHERE id = ?`,
+        [reservation.restaurantName, reservation.location || null, reservation.date, time ?? null, reservation.partySize, status, now, existing.id]
+      );
+    } else {
+      insertEntry(database, {
+        platform,
+        restaurantName: reservation.restaurantName,
+        location: reservation.location || undefined,
+        date: reservation.date,
+        time,
+        partySize: reservation.partySize,
+        confirmationId: reservation.reservationId,
+        source: 'platform',
+        status,
+      });
+    }
+  }
+
+  const stale = queryEntries(
+    database,
+    `SELECT * FROM bookings WHERE platform = ? AND status = 'confirmed' AND confirmation_id IS NOT NULL AND date >= ?`,
+    [platform, today]
+  ).filter((entry) => !liveIds.has(entry.confirmationId!));
+
+  for (const entry of stale) {
+    database.run(`UPDATE bookings SET status = 'cancelled', updated_at = ? WHERE id = ?`, [now, entry.id]);
+  }
+
+  await saveDb();
+}
+
+/**
+ * Ledger entries, soonest first for upcoming and most recent first otherwise
+ */
+export async function listLedger(filter: LedgerFilter = {}): Promise<LedgerEntry[]> {
+  const database = await ensureDb();
+  const when = filter.when || 'all';
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (filter.platform) {
+    conditions.push('platform = ?');
+    params.push(filter.platform);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    params.push(filter.status);
+  }
+  if (when !== 'all') {
+    conditions.push(when === 'upcoming' ? 'date >= ?' : 'date < ?');
+    params.push(todayIn());
+  }
+
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  const order = when === 'upcoming' ? 'date ASC, time ASC' : 'date DESC, time DESC';
+
+  return queryEntries(database, `SELECT * FROM bookings${where} ORDER BY ${order}, created_at DESC`, params);
+}
+
+export async function closeLedger(): Promise<void> {
+  if (db) {
+    await saveDb();
+    db.close();
+    db = null;
+    dbInitPromise = null;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Notify lists: hear about tables on sold-out dates
+ *
+ * Resy keeps a notify list per venue. Joining it for a date, party size and
+ * time range makes Resy alert you when a matching table is released.
+ * Entries are tracked locally (snipes.db) so they can be listed and removed
+ * here. With auto-booking, the entry is also handed to the sniper: an
+ * availability watch over the same date and window books the first
+ * matching slot as soon as one appears.
+ */
+
+import type { PlatformClient } from '../platforms/base.js';
+import { getPlatform } from '../platforms/index.js';
+import type { NotifyParams } from '../types/restaurant.js';
+import {
+  createNotify,
+  createWatch,
+  getNotify,
+  getWatch,
+  listNotifies,
+  updateNotifyStatus,
+  updateWatchStatus,
+  type AvailabilityWatch,
+  type NotifyEntry,
+} from '../sniper/store.js';
+import { cancelSnipeJob, scheduleWatchJob } from '../sniper/scheduler.js';
+import { todayIn } from '../utils/time.js';
+
+const DEFAULT_CHECK_INTERVAL_MINUTES = 5;
+
+export interface NotifyOptions {
+  autoBook?: boolean;            // Hand a hit to the sniper to book
+  intervalMinutes?: number;      // How often the auto-book watch checks
+  restaurantName?: string;
+}
+
+export interface NotifyResult {
+  success: boolean;
+  notify?: NotifyEntry;
+  error?: string;
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Join a venue's notify list and track the entry locally
+ */
+export async function joinNotifyList(client: PlatformClient, params: NotifyParams, options: NotifyOptions = {}): Promise<NotifyResult> {
+  if (!client.capabilities.notify || !client.joinNotify) {
+    return { success: false, error: `${client.name} does not support notify lists` };
+  }
+  // Watches only book on Resy
+  if (options.autoBook && client.name !== 'resy') {
+    return { success: false, error: 'Auto-booking notify hits is only supported on Resy' };
+  }
+  if (params.latestTime < params.earliestTime) {
+    return { success: false, error: 'The time range must end after it starts' };
+  }
+
+  let platformNotifyId: string;
+  try {
+    platformNotifyId = await client.joinNotify(params);
+  } catch (error) {
+    return { success: false, error: errorMessage(error, 'Failed to join the notify list') };
+  }
+
+  let watch: AvailabilityWatch | undefined;
+  try {
+    if (options.autoBook) {
+      watch = await createWatch({
+        restaurantId: params.restaurantId.replace(`${client.idPrefix}-`, ''),
+        platform: 'resy',
+        startDate: params.date,
+        endDate: params.date,
+        daysOfWeek: [],
+        earliestTime: params.earliestTime,
+        latestTime: params.latestTime,
+        partySize: params.partySize,
+        intervalMinutes: options.intervalMinutes ?? DEFAULT_CHECK_INTERVAL_MINUTES,
+        autoBook: true,
+      });
+    }
+
+    const notify = await createNotify({
+      restaurantId: params.restaurantId,
+      platform: client.name,
+      restaurantName: options.restaurantName,
+      date: params.date,
+      partySize: params.partySize,
+      earliestTime: params.earliestTime,
+      latestTime: params.latestTime,
+      platformNotifyId,
+      watchId: watch?.id,
+    });
+
+    // Only start watching once the entry that can stop the watch exists
+    if (watch) scheduleWatchJob(watch);
+
+    return { success: true, notify };
+  } catch (error) {
+    // Leave nothing behind that the user can't see or remove; best effort
+    if (watch) await updateWatchStatus(watch.id, 'cancelled').catch(() => undefined);
+    await client.leaveNotify?.(platformNotifyId).catch(() => undefined);
+    return { success: false, error: errorMessage(error, 'Failed to save the notify entry') };
+  }
+}
+
+/**
+ * Tracked notify entries, after marking ones whose watch booked or whose date has passed
+ */
+export async function listNotifyEntries(status?: NotifyEntry['status']): Promise<NotifyEntry[]> {
+  const today = todayIn();
+
+  for (const entry of await listNotifies('active')) {
+    const watch = entry.watchId ? await getWatch(entry.watchId) : null;
+    if (watch?.status === 'success') {
+      // Booked, so the platform's alerts are no use any more; best effort
+      await getPlatform(entry.platform)?.leaveNotify?.(entry.platformNotifyId).catch(() => undefined);
+      await updateNotifyStatus(entry.id, 'booked', watch.result);
+    } else if (entry.date < today) {
+      await updateNotifyStatus(entry.id, 'expired');
+    }
+  }
+
+  return listNotifies(status);
+}
+
+/**
+ * Leave the platform's notify list, stop any auto-book watch and mark the entry removed
+ */
+export async function removeNotifyEntry(id: string): Promise<NotifyResult> {
+  const entry = await getNotify(id);
+  if (!entry) {
+    return { success: false, error: 'Notify entry not found' };
+  }
+  if (entry.status !== 'active') {
+    return { success: false, notify: entry, error: `Cannot remove notify entry with status: ${entry.status}` };
+  }
+
+  const client = getPlatform(entry.platform);
+  if (client?.leaveNotify) {
+    try {
+      await client.leaveNotify(entry.platformNotifyId);
+    } catch (error) {
+      return { success: false, notify: entry, error: `Couldn't leave the ${entry.platform} notify list: ${errorMessage(error, 'request failed')}` };
+    }
+  }
+
+  if (entry.watchId) {
+    const watch = await getWatch(entry.watchId);
+    if (watch?.status === 'active') {
+      cancelSnipeJob(watch.id);
+      await updateWatchStatus(watch.id, 'cancelled');
+    }
+  }
+
+  await updateNotifyStatus(entry.id, 'removed');
+  return { success: true, notify: { ...entry, status: 'removed' } };
+}
@@ -2,8 +2,6 @@
  * Token bucket rate limiter for API calls
  */
 
-import type { PlatformName } from '../types/restaurant.js';
-
 interface TokenBucket {
   tokens: number;
   lastRefill: number;
@@ -20,20 +18,31 @@ export interface RateLimitStatus {
   isLimited: boolean;
 }
 
-// Rate limits per platform (requests per minute)
-const PLATFORM_LIMITS: Record<PlatformName, { tokens: number; refillRate: number; interval: number }> = {
-  resy: { tokens: 20, refillRate: 20, interval: 60000 },
-  opentable: { tokens: 30, refillRate: 30, interval: 60000 },
-  tock: { tokens: 15, refillRate: 15, interval: 60000 },
-};
+export interface RateLimitConfig {
+  tokens: number;          // Bucket size
+  refillRate: number;      // Tokens per interval
+  interval: number;        // Interval in ms
+}
+
+// Used for any platform that hasn't declared its own limits
+const DEFAULT_LIMITS: RateLimitConfig = { tokens: 10, refillRate: 10, interval: 60000 };
 
 export class RateLimiter {
+  private limits = new Map<string, RateLimitConfig>();
   private buckets = new Map<string, TokenBucket>();
   private waitQueue = new Map<string, Array<{
     resolve: (value: boolean) => void;
     timeout: NodeJS.Timeout;
   }>>();
 
+  /**
+   * Set a platform's limits (platforms declare these when they register)
+   */
+  configure(platform: string, limits: RateLimitConfig): void {
+    this.limits.set(platform, limits);
+    this.buckets.delete(platform);
+  }
+
   /**
    * Initialize or get a token bucket for a platform
    */
@@ -41,11 +50,7 @@ export class RateLimiter {
     let bucket = this.buckets.get(platform);
 
     if (!bucket) {
-      const limits = PLATFORM_LIMITS[platform as PlatformName] || {
-        tokens: 10,
-        refillRate: 10,
-        interval: 60000
-      };
+      const limits = this.limits.get(platform) || DEFAULT_LIMITS;
 
       bucket = {
         tokens: limits.tokens,
@@ -161,7 +166,7 @@ export class RateLimiter {
    * Get status for all platforms
    */
   getAllStatus(): RateLimitStatus[] {
-    return Object.keys(PLATFORM_LIMITS).map(platform => this.getStatus(platform));
+    return Array.from(this.limits.keys()).map(platform => this.getStatus(platform));
   }
 
   /**
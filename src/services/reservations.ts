@@ -0,0 +1,202 @@
+/**
+ * Reservation management across platforms
+ *
+ * Listing, cancelling and modifying are optional, capability-flagged parts of
+ * PlatformClient. These helpers dispatch to whichever platforms support an
+ * operation and report the rest as "unsupported" instead of skipping them.
+ * Bookings and their outcomes are recorded in the local ledger (ledger.ts).
+ */
+
+import type { PlatformClient, PlatformCapabilities } from '../platforms/base.js';
+import { getPlatform, listPlatforms } from '../platforms/index.js';
+import type { BookingQuote, ModifyReservationParams, PlatformName, ReservationParams, ReservationResult, TimeSlot } from '../types/restaurant.js';
+import {
+  listLedger,
+  markBookingCancelled,
+  reconcileLedger,
+  recordReservationResult,
+  type LedgerEntry,
+  type LedgerFilter,
+  type LedgerSource,
+} from './ledger.js';
+import { assertNoConflicts, type ConflictOptions } from './conflicts.js';
+
+export type PlatformOperationStatus = 'ok' | 'unsupported' | 'error';
+
+export interface PlatformOperationReport {
+  platform: PlatformName;
+  status: PlatformOperationStatus;
+  message?: string;
+}
+
+export interface ListReservationsResult {
+  reservations: LedgerEntry[];
+  platforms: Array<PlatformOperationReport & { count?: number }>;
+}
+
+export interface CancelReservationResult {
+  success: boolean;
+  platform: PlatformName;
+  status: PlatformOperationStatus;
+  message: string;
+}
+
+export interface ModifyReservationResult {
+  success: boolean;
+  platform: PlatformName;
+  status: PlatformOperationStatus;
+  message?: string;
+  result?: ReservationResult;
+}
+
+function supports(client: PlatformClient, capability: keyof PlatformCapabilities, method: unknown): boolean {
+  return client.capabilities[capability] && typeof method === 'function';
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+export interface BookingContext {
+  source: LedgerSource;
+  restaurantName?: string;
+  location?: string;
+  slot?: TimeSlot;
+  quote?: BookingQuote;          // Held terms to confirm instead of booking afresh (capabilities.holds)
+}
+
+/**
+ * Book through the platform client and record the attempt in the ledger
+ */
+export async function bookReservation(client: PlatformClient, params: ReservationParams, context: BookingContext): Promise<ReservationResult> {
+  let result: ReservationResult;
+  try {
+    result = context.quote && supports(client, 'holds', client.confirmReservation)
+      ? await client.confirmReservation!(params, context.quote)
+      : await client.makeReservation(params);
+  } catch (error) {
+    result = { success: false, platform: client.name, error: errorMessage(error, 'Booking failed') };
+  }
+
+  await recordReservationResult({
+    source: context.source,
+    platform: client.name,
+    restaurantId: params.restaurantId,
+    restaurantName: context.restaurantName,
+    location: context.location,
+    date: params.date,
+    partySize: params.partySize,
+    slotId: params.slotId,
+    slot: context.slot,
+  }, result);
+
+  return result;
+}
+
+/**
+ * List reservations from the ledger after reconciling it with the live
+ * reservations of one platform or all of them
+ */
+export async function listReservations(
+  platform: PlatformName | 'all' = 'all',
+  filter: Omit<LedgerFilter, 'platform'> = {}
+): Promise<ListReservationsResult> {
+  const clients = platform === 'all' ? listPlatforms() : [getPlatform(platform)].filter((c): c is PlatformClient => !!c);
+
+  const platforms = await Promise.all(clients.map(async (client): Promise<ListReservationsResult['platforms'][number]> => {
+    if (!supports(client, 'listing', client.listReservations)) {
+      return { platform: client.name, status: 'unsupported', message: `${client.name} does not support listing reservations; showing locally recorded bookings only` };
+    }
+
+    try {
+      const found = await client.listReservations!();
+      await reconcileLedger(client.name, found);
+      return { platform: client.name, status: 'ok', count: found.length };
+    } catch (error) {
+      return { platform: client.name, status: 'error', message: errorMessage(error, 'Failed to list reservations') };
+    }
+  }));
+
+  const reservations = await listLedger({ ...filter, platform: platform === 'all' ? undefined : platform });
+  return { reservations, platforms };
+}
+
+/**
+ * Cancel a reservation on the platform it was booked on
+ */
+export async function cancelReservation(platform: PlatformName, reservationId: string): Promise<CancelReservationResult> {
+  const client = getPlatform(platform);
+  if (!client) {
+    return { success: false, platform, status: 'error', message: `Unknown platform: ${platform}` };
+  }
+
+  if (!supports(client, 'cancellation', client.cancelReservation)) {
+    return {
+      success: false,
+      platform,
+      status: 'unsupported',
+      message: `${platform} does not support cancelling through this server; cancel on their website`,
+    };
+  }
+
+  try {
+    await client.cancelReservation!(reservationId);
+    await markBookingCancelled(platform, reservationId);
+    return { success: true, platform, status: 'ok', message: 'Reservation cancelled successfully' };
+  } catch (error) {
+    return { success: false, platform, status: 'error', message: errorMessage(error, 'Failed to cancel') };
+  }
+}
+
+/**
+ * Move a reservation to another slot on the same platform. The new slot goes
+ * through the double-booking guard, with the reservation it replaces left out.
+ */
+export async function modifyReservation(
+  platform: PlatformName,
+  params: ModifyReservationParams,
+  conflictOptions?: ConflictOptions
+): Promise<ModifyReservationResult> {
+  const client = getPlatform(platform);
+  if (!client) {
+    return { success: false, platform, status: 'error', message: `Unknown platform: ${platform}` };
+  }
+
+  if (!supports(client, 'modification', client.modifyReservation)) {
+    return {
+      success: false,
+      platform,
+      status: 'unsupported',
+      message: `${platform} does not support modifying reservations; cancel and rebook instead`,
+    };
+  }
+
+  let result: ReservationResult;
+  try {
+    result = await client.modifyReservation!({
+      ...params,
+      beforeBook: async (slot) => {
+        await assertNoConflicts(
+          { date: params.date, time: slot.time, timeZone: slot.timeZone, excludeConfirmationId: params.reservationId },
+          conflictOptions
+        );
+      },
+    });
+  } catch (error) {
+    result = { success: false, platform, error: errorMessage(error, 'Failed to modify reservation') };
+  }
+
+  await recordReservationResult({
+    source: 'modify_reservation',
+    platform,
+    restaurantId: params.restaurantId,
+    date: params.date,
+    partySize: params.partySize,
+    slotId: params.slotId,
+  }, result);
+  if (result.replacedReservationId) {
+    await markBookingCancelled(platform, result.replacedReservationId);
+  }
+
+  return { success: result.success, platform, status: result.success ? 'ok' : 'error', message: result.error, result };
+}
@@ -44,10 +44,10 @@ export function matchRestaurants(restaurants: Restaurant[]): MatchResult {
   const unmatched: Restaurant[] = [];
   const processed = new Set<string>();
 
-  // Sort by platform priority (Resy > OpenTable > Tock for data quality)
+  // Sort by platform priority (Resy > OpenTable > Tock > others for data quality)
   const sorted = [...restaurants].sort((a, b) => {
-    const priority: Record<PlatformName, number> = { resy: 0, opentable: 1, tock: 2 };
-    return priority[a.platform] - priority[b.platform];
+    const priority: Record<string, number> = { resy: 0, opentable: 1, tock: 2 };
+    return (priority[a.platform] ?? 3) - (priority[b.platform] ?? 3);
   });
 
   for (const restaurant of sorted) {
@@ -163,6 +163,8 @@ function mergeRestaurants(primary: Restaurant, others: Restaurant[]): MatchedRes
       platformIds.opentable = typeof r.platformId === 'number' ? r.platformId : parseInt(String(r.platformId), 10);
     } else if (r.platform === 'tock') {
       platformIds.tock = String(r.platformId);
+    } else {
+      platformIds[r.platform] = r.platformId;
     }
     platformResults.set(r.platform, r);
   }
@@ -171,7 +173,7 @@ function mergeRestaurants(primary: Restaurant, others: Restaurant[]): MatchedRes
   const cuisineSet = new Set<string>();
   for (const r of all) {
     if (r.cuisines) {
-      for (const c of r.cuisines) cuisineSet.add(c);
+      for (const c of r.cuisines) cuisineSet.add(c.toLowerCase());
     } else if (r.cuisine) {
       for (const c of r.cuisine.split(/[,/]/)) {
         const trimmed = c.trim().toLowerCase();
@@ -183,9 +185,9 @@ function mergeRestaurants(primary: Restaurant, others: Restaurant[]): MatchedRes
   // Use best data for each field
   // Priority: Resy > OpenTable > Tock
   const best = all.reduce((acc, r) => {
-    const priority: Record<PlatformName, number> = { resy: 3, opentable: 2, tock: 1 };
-    const accPriority = priority[acc.platform];
-    const rPriority = priority[r.platform];
+    const priority: Record<string, number> = { resy: 3, opentable: 2, tock: 1 };
+    const accPriority = priority[acc.platform] ?? 0;
+    const rPriority = priority[r.platform] ?? 0;
 
     // Use higher priority for most fields
     if (rPriority > accPriority) {
@@ -7,40 +7,53 @@
  */
 
 import type {
+  Coordinates,
   Restaurant,
   RestaurantDetails,
   PlatformName,
+  PlatformIds,
   AvailabilityResult,
+  AvailabilityCalendarDay,
+  AvailabilityRangeResult,
   BookingOptions,
   ReservationError,
   TimeSlot,
   ReservationParams,
   ReservationResult,
+  PaymentOptions,
 } from '../types/restaurant.js';
-import { PlatformClient, parseRestaurantId } from '../platforms/base.js';
-import { resyClient } from '../platforms/resy.js';
-import { openTableClient } from '../platforms/opentable.js';
-import { tockClient } from '../platforms/tock.js';
-
-// Platform clients registry
-const platformClients: Record<PlatformName, PlatformClient> = {
-  resy: resyClient,
-  opentable: openTableClient,
-  tock: tockClient,
-};
+import { PlatformClient, createRestaurantId, parseRestaurantId } from '../platforms/base.js';
+import { getPlatform, getPlatformNames, listPlatforms } from '../platforms/index.js';
+import { DEFAULT_TIME_ZONE, addDays, clockTimeToMinutes, daysBetween, minutesToClockTime, toVenueLocalTime } from '../utils/time.js';
+import { rateLimiter } from './rate-limiter.js';
+import { chooseSlot, explainRanking, type SlotChoice, type SlotPreferences } from './slot-preferences.js';
+import { bookReservation } from './reservations.js';
+import { placeHold, type BookingHold } from './holds.js';
+import { joinNotifyList, type NotifyOptions } from './notify.js';
+import type { NotifyEntry } from '../sniper/store.js';
+import { checkBookingConflicts, type BookingConflict, type ConflictOptions } from './conflicts.js';
+import { findByName, matchRestaurants } from './restaurant-matcher.js';
+import { catalogDetails, catalogMatches, catalogTimeZone, resolveVenue, type CatalogVenue } from './catalog.js';
+import { distanceMiles, resolveSearchArea, type GeoPlace } from '../geo/geocoder.js';
+import { parseDateExpression, type DateInterpretation } from '../utils/dates.js';
+import { parseTimeExpression } from '../utils/time-expressions.js';
 
 /**
- * Get all available platform clients
+ * Get all registered platforms
  */
 export function getAvailablePlatforms(): PlatformName[] {
-  return Object.keys(platformClients) as PlatformName[];
+  return getPlatformNames();
 }
 
 /**
  * Get a specific platform client
  */
 export function getPlatformClient(platform: PlatformName): PlatformClient {
-  return platformClients[platform];
+  const client = getPlatform(platform);
+  if (!client) {
+    throw new Error(`Unknown platform: ${platform}`);
+  }
+  return client;
 }
 
 /**
@@ -48,33 +61,64 @@ export function getPlatformClient(platform: PlatformName): PlatformClient {
  */
 export interface SearchResult {
   restaurants: Array<{
-    id: string;
+    id: string;                  // ID on the best data source (Resy > OpenTable > Tock)
+    venueId: string;             // Canonical catalog ID
     name: string;
     platform: PlatformName;
+    platforms: PlatformName[];   // Every platform listing this restaurant
+    platformIds: PlatformIds;
     location: string;
     neighborhood?: string;
+    coordinates?: Coordinates;
+    distanceMiles?: number;      // From the search center
     cuisine: string;
     priceRange: number;
     rating: number;
+    matchScore: number;          // Name/location similarity to the query (0-1)
+    matchConfidence: number;     // How sure the cross-platform grouping is (0-1)
   }>;
+  searchArea: GeoPlace;          // Where the location was placed
   platformErrors: Record<string, string>;
 }
 
+/**
+ * Where to search instead of (or as well as) the location name
+ */
+export interface SearchAreaOptions {
+  coordinates?: Coordinates;     // Center; overrides geocoding the location
+  radiusMiles?: number;          // Drop results known to be farther than this
+}
+
+function roundMiles(miles: number): number {
+  return Math.round(miles * 10) / 10;
+}
+
 /**
  * Search for restaurants by name and location
- * Returns restaurant IDs that can be used with other functions
+ *
+ * Hits are ranked against the query and the same venue on different
+ * platforms is grouped into one result, which is recorded in the venue
+ * catalog. Returns restaurant IDs that can be used with other functions;
+ * any of a result's platforms is reachable through its ID.
+ *
+ * The location is geocoded first and an unknown one throws UNKNOWN_LOCATION.
+ * Results carry their distance from the center and equally good name
+ * matches are ordered nearest first.
  */
 export async function searchRestaurant(
   name: string,
   location: string,
   date?: string,
-  partySize = 2
+  partySize = 2,
+  area: SearchAreaOptions = {}
 ): Promise<SearchResult> {
   const platformErrors: Record<string, string> = {};
   const allRestaurants: Restaurant[] = [];
+  const searchArea = await resolveSearchArea(location, area.coordinates, area.radiusMiles);
 
   // Search all platforms in parallel
-  const searchPromises = Object.entries(platformClients).map(async ([platform, client]) => {
+  const searchPromises = listPlatforms('search').map(async (client) => {
+    const platform = client.name;
     try {
       const isAvailable = await client.isAvailable();
       if (!isAvailable) {
@@ -87,6 +131,8 @@ export async function searchRestaurant(
         location,
         date,
         partySize,
+        coordinates: searchArea.coordinates,
+        radiusMiles: searchArea.radiusMiles,
       });
       return results;
     } catch (error) {
@@ -100,19 +146,151 @@ export async function searchRestaurant(
     allRestaurants.push(...platformResults);
   }
 
-  // Map to simplified format with IDs
-  const restaurants = allRestaurants.map((r) => ({
-    id: r.id,
-    name: r.name,
-    platform: r.platform,
-    location: r.location,
-    neighborhood: r.neighborhood,
-    cuisine: r.cuisine,
-    priceRange: r.priceRange,
-    rating: r.rating,
-  }));
-
-  return { restaurants, platformErrors };
+  // Drop poor name matches, then group the same venue across platforms
+  const { matched } = matchRestaurants(findByName(name, location, allRestaurants));
+  const venueIds = await catalogMatches(matched);
+
+  // The catalog has the final say on grouping: hand-confirmed and split matches win
+  const byVenue = new Map<string, { members: Restaurant[]; matchConfidence: number }>();
+  for (const group of matched) {
+    for (const member of group.platformResults.values()) {
+      const venueId = venueIds.get(member.id)!;
+      const entry = byVenue.get(venueId) ?? { members: [], matchConfidence: group.matchConfidence };
+      entry.members.push(member);
+      byVenue.set(venueId, entry);
+    }
+  }
+
+  const restaurants = (await Promise.all(Array.from(byVenue, async ([venueId, { members, matchConfidence }]) => {
+    const [primary] = members;
+    const venue = await resolveVenue(venueId);
+    const coordinates = venue?.coordinates ?? members.find((m) => m.coordinates)?.coordinates;
+    return {
+      id: primary.id,
+      venueId,
+      name: venue?.name ?? primary.name,
+      platform: primary.platform,
+      platforms: venue ? venue.listings.map((l) => l.platform) : [primary.platform],
+      platformIds: venue ? venue.platformIds : { [primary.platform]: primary.platformId },
+      location: venue?.location ?? primary.location,
+      neighborhood: venue?.neighborhood ?? primary.neighborhood,
+      coordinates,
+      distanceMiles: coordinates ? roundMiles(distanceMiles(searchArea.coordinates, coordinates)) : undefined,
+      cuisine: venue?.cuisines.join(', ') || primary.cuisine,
+      priceRange: venue?.priceRange ?? primary.priceRange,
+      rating: venue?.rating ?? primary.rating,
+      matchScore: Math.round(Math.max(...members.map((m) => m.matchScore ?? 0)) * 100) / 100,
+      // A lone listing, or listings confirmed by hand, are certain
+      matchConfidence: !venue || venue.listings.length === 1 || venue.listings.every((l) => l.pinned) ? 1 : matchConfidence,
+    };
+  })))
+    // Unplaced results stay in: they can't be ruled out
+    .filter((r) => searchArea.radiusMiles === undefined || r.distanceMiles === undefined || r.distanceMiles <= searchArea.radiusMiles)
+    .sort((a, b) =>
+      b.matchScore - a.matchScore ||
+      (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity) ||
+      b.platforms.length - a.platforms.length ||
+      b.rating - a.rating);
+
+  return { restaurants, searchArea: searchArea.place, platformErrors };
+}
+
+/**
+ * A restaurant's listing on one platform
+ */
+export interface PlatformListing {
+  client: PlatformClient;
+  restaurantId: string;          // Prefixed ID on this platform
+  id: string;                    // Platform-specific ID
+}
+
+/**
+ * Every platform listing for a restaurant: the one its ID names first, then
+ * the others the catalog has for the venue. Accepts a canonical venue ID too.
+ */
+export async function platformListings(restaurantId: string): Promise<PlatformListing[]> {
+  const venue = await resolveVenue(restaurantId);
+  const parsed = parseRestaurantId(restaurantId);
+
+  const ids: Array<[PlatformName, string]> = venue
+    ? venue.listings.map((l) => [l.platform, l.platformId])
+    : parsed ? [[parsed.platform, parsed.id]] : [];
+
+  return ids.flatMap(([platform, id]) => {
+    const client = getPlatform(platform);
+    return client ? [{ client, restaurantId: createRestaurantId(platform, id), id }] : [];
+  });
+}
+
+/**
+ * Slots from every listing, in time order
+ *
+ * A platform that fails is reported in `errors`; only when every listing
+ * fails is the first error thrown.
+ */
+async function gatherSlots(
+  listings: PlatformListing[],
+  date: string,
+  partySize: number
+): Promise<{ slots: TimeSlot[]; errors: Record<string, string> }> {
+  const errors: Record<string, string> = {};
+  const failures: unknown[] = [];
+
+  const perListing = await Promise.all(
+    listings.map(async (listing) => {
+      try {
+        const slots = await listing.client.getAvailability(listing.id, date, partySize);
+        const timeZone = slots.find((s) => s.timeZone)?.timeZone;
+        if (timeZone) await catalogTimeZone(listing.client.name, listing.id, timeZone);
+        return slots;
+      } catch (error) {
+        failures.push(error);
+        errors[listing.client.name] = error instanceof Error ? error.message : 'Availability check failed';
+        return [];
+      }
+    })
+  );
+
+  if (failures.length > 0 && failures.length === listings.length) {
+    throw failures[0];
+  }
+
+  // Stable, so the named platform's slot comes first at equal times
+  const minutes = (slot: TimeSlot) => toVenueLocalTime(slot.time, slot.timeZone)?.minutes ?? 0;
+  const slots = perListing.flat().sort((a, b) => minutes(a) - minutes(b));
+
+  return { slots, errors };
+}
+
+/**
+ * The listing a slot belongs to, checking each of the restaurant's platforms
+ * in turn (availability is usually cached from check_availability)
+ *
+ * Falls back to the first listing with no slot when none has it, so the
+ * platform reports the missing slot itself. Null when the restaurant has no
+ * listing (on `platform`, if given).
+ */
+export async function findSlotListing(
+  restaurantId: string,
+  date: string,
+  partySize: number,
+  slotId: string,
+  platform?: PlatformName
+): Promise<{ listing: PlatformListing; slot?: TimeSlot } | null> {
+  const listings = (await platformListings(restaurantId)).filter((l) => !platform || l.client.name === platform);
+  if (listings.length === 0) return null;
+
+  for (const listing of listings) {
+    try {
+      const slots = await listing.client.getAvailability(listing.id, date, partySize);
+      const slot = slots.find((s) => s.slotId === slotId);
+      if (slot) return { listing, slot };
+    } catch {
+      // Try the next platform
+    }
+  }
+
+  return { listing: listings[0] };
 }
 
 /**
@@ -120,50 +298,55 @@ export async function searchRestaurant(
  */
 export interface RestaurantLookupResult {
   restaurant: RestaurantDetails | null;
+  venue?: CatalogVenue;          // Canonical catalog record, when known
   platform: PlatformName;
   cached: boolean;
   error?: string;
 }
 
 /**
- * Look up a restaurant by its platform-specific ID
+ * Look up a restaurant by any platform's ID or its catalog venue ID
+ *
+ * Details come from the platform the ID names (for a venue ID, its first
+ * listing) and are recorded in the venue catalog, whose record lists every
+ * platform the venue is on.
  *
- * @param restaurantId - ID in format "platform-id" (e.g., "resy-12345")
+ * @param restaurantId - ID in format "platform-id" (e.g., "resy-12345") or a venue ID
  * @returns Restaurant details or null if not found
  */
 export async function getRestaurantById(restaurantId: string): Promise<RestaurantLookupResult> {
-  const parsed = parseRestaurantId(restaurantId);
+  const [listing] = await platformListings(restaurantId);
 
-  if (!parsed) {
+  if (!listing) {
+    const parsed = parseRestaurantId(restaurantId);
     return {
       restaurant: null,
-      platform: 'resy', // default
+      platform: parsed?.platform ?? 'resy', // default
       cached: false,
-      error: `Invalid restaurant ID format: ${restaurantId}. Expected format: platform-id (e.g., resy-12345, opentable-67890, tock-venue-slug)`,
+      error: parsed
+        ? `Unknown platform: ${parsed.platform}`
+        : `Unknown restaurant ID: ${restaurantId}. Expected a platform ID (e.g., resy-12345, opentable-67890, tock-venue-slug) or a venue ID from search_restaurant`,
     };
   }
 
-  const client = platformClients[parsed.platform];
-  if (!client) {
-    return {
-      restaurant: null,
-      platform: parsed.platform,
-      cached: false,
-      error: `Unknown platform: ${parsed.platform}`,
-    };
-  }
+  const platform = listing.client.name;
 
   try {
-    const details = await client.getDetails(parsed.id);
+    const details = await listing.client.getDetails(listing.id);
+    if (details) await catalogDetails(platform, listing.id, details);
+
+    const venue = (await resolveVenue(listing.restaurantId)) ?? undefined;
     return {
-      restaurant: details,
-      platform: parsed.platform,
+      restaurant: details && venue ? { ...details, platformIds: { ...venue.platformIds, ...details.platformIds } } : details,
+      venue,
+      platform,
       cached: false, // Cache is handled internally by getDetails
     };
   } catch (error) {
     return {
       restaurant: null,
-      platform: parsed.platform,
+      venue: (await resolveVenue(listing.restaurantId)) ?? undefined,
+      platform,
       cached: false,
       error: error instanceof Error ? error.message : 'Failed to fetch restaurant details',
     };
@@ -196,45 +379,148 @@ export async function getRestaurantDetails(
     return null;
   }
 
-  const client = platformClients[parsed.platform];
+  const client = getPlatformClient(parsed.platform);
   return client.getDetails(parsed.id);
 }
 
 /**
  * Check availability across platforms for a restaurant
+ *
+ * Slots come from every platform the catalog lists the restaurant on; each
+ * slot's `platform` says where to book it.
  */
 export async function checkAvailability(
   restaurantId: string,
   date: string,
   partySize: number
 ): Promise<AvailabilityResult> {
-  const parsed = parseRestaurantId(restaurantId);
-  if (!parsed) {
+  const listings = await platformListings(restaurantId);
+  if (listings.length === 0) {
     throw new Error(`Invalid restaurant ID: ${restaurantId}`) as ReservationError;
   }
 
-  const client = platformClients[parsed.platform];
-  const slots = await client.getAvailability(parsed.id, date, partySize);
+  const [primary] = listings;
+  const { slots, errors } = await gatherSlots(listings, date, partySize);
 
   // Get restaurant name if possible
   let restaurantName: string | undefined;
   try {
-    const details = await client.getDetails(parsed.id);
+    const details = await primary.client.getDetails(primary.id);
     restaurantName = details?.name;
   } catch {
     // Ignore errors getting name
   }
 
-  return {
+  const result: AvailabilityResult = {
     restaurantId,
     restaurantName,
-    platform: parsed.platform,
+    platform: primary.client.name,
     date,
     partySize,
+    timeZone: slots.find((s) => s.timeZone)?.timeZone,
     slots,
   };
+
+  if (listings.length > 1) {
+    result.platforms = listings.map((l) => l.client.name);
+  }
+  if (Object.keys(errors).length > 0) {
+    result.platformErrors = errors;
+  }
+
+  return result;
 }
 
+// Furthest end_date can be from start_date in check_availability_range, in days
+export const MAX_AVAILABILITY_RANGE_DAYS = 31;
+
+// Requests left in the bucket for bookings and snipes while scanning a range
+const RANGE_RESERVED_TOKENS = 3;
+
+function compactSlot(slot: TimeSlot): string {
+  const time = toVenueLocalTime(slot.time, slot.timeZone)?.time ?? slot.time;
+  return `${time}${slot.type ? ` ${slot.type}` : ''} (slot ${slot.slotId})`;
+}
+
+/**
+ * Availability across a date range as a date → slots grid
+ *
+ * Platforms with a venue calendar narrow the range to days with inventory
+ * in one request; the remaining days are fetched one at a time, stopping
+ * before the rate limit is spent so bookings still have room.
+ */
+export async function checkAvailabilityRange(
+  restaurantId: string,
+  startDate: string,
+  endDate: string,
+  partySize: number
+): Promise<AvailabilityRangeResult> {
+  const parsed = parseRestaurantId(restaurantId);
+  if (!parsed) {
+    throw new Error(`Invalid restaurant ID: ${restaurantId}`) as ReservationError;
+  }
+
+  const span = daysBetween(startDate, endDate);
+  if (span < 0) {
+    throw new Error('end_date must be on or after start_date');
+  }
+  if (span > MAX_AVAILABILITY_RANGE_DAYS) {
+    throw new Error(`end_date can be at most ${MAX_AVAILABILITY_RANGE_DAYS} days after start_date`);
+  }
+
+  const client = getPlatformClient(parsed.platform);
+  const result: AvailabilityRangeResult = {
+    restaurantId,
+    platform: parsed.platform,
+    startDate,
+    endDate,
+    partySize,
+    grid: {},
+    soldOut: [],
+    closed: [],
+    unchecked: [],
+    unknown: [],
+  };
+
+  let candidates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) candidates.push(date);
+
+  if (client.capabilities.calendar && client.getAvailabilityCalendar) {
+    try {
+      const days: AvailabilityCalendarDay[] = await client.getAvailabilityCalendar(parsed.id, startDate, endDate, partySize);
+      const open = new Set(days.filter((d) => d.status === 'available').map((d) => d.date));
+      result.soldOut.push(...days.filter((d) => d.status === 'sold-out').map((d) => d.date));
+      result.closed.push(...days.filter((d) => d.status === 'closed' || d.status === 'not-released').map((d) => d.date));
+      // A day the calendar leaves out has no known status, so say so rather than drop it
+      const listed = new Set(days.map((d) => d.date));
+      result.unknown.push(...candidates.filter((date) => !listed.has(date)));
+      candidates = candidates.filter((date) => open.has(date));
+    } catch (error) {
+      // Fall back to checking every day
+      console.error(`${parsed.platform} calendar error:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const [i, date] of candidates.entries()) {
+    if (rateLimiter.getStatus(parsed.platform).available <= RANGE_RESERVED_TOKENS) {
+      result.unchecked = candidates.slice(i);
+      result.note = `Stopped early to stay under the ${parsed.platform} rate limit; check the unchecked dates again in a minute`;
+      break;
+    }
+
+    const slots = await client.getAvailability(parsed.id, date, partySize);
+    if (slots.length === 0) {
+      result.soldOut.push(date);
+      continue;
+    }
+
+    result.grid[date] = slots.map(compactSlot);
+    result.timeZone ??= slots.find((s) => s.timeZone)?.timeZone;
+  }
+
+  result.soldOut.sort();
+  return result;
+}
 
 /**
  * Get all booking options for a restaurant
@@ -246,36 +532,41 @@ export async function getBookingOptions(restaurantId: string): Promise<BookingOp
   }
 
   // Get details from the primary platform
-  const client = platformClients[parsed.platform];
+  const client = getPlatformClient(parsed.platform);
   const details = await client.getDetails(parsed.id);
 
   if (!details) {
     throw new Error(`Restaurant not found: ${restaurantId}`);
   }
 
+  // Include the venue's other platforms from the catalog
+  const platformIds = { ...details.platformIds, ...(await resolveVenue(restaurantId))?.platformIds };
+
   // Check availability on each platform
   const platformOptions = await Promise.all(
-    Object.entries(platformClients).map(async ([platform, client]) => {
-      const platName = platform as PlatformName;
+    listPlatforms().map(async (platformClient) => {
+      const platName = platformClient.name;
 
       // Check if this restaurant exists on this platform
-      const platformId = details.platformIds[platName];
+      const platformId = platformIds[platName];
       if (!platformId) {
         return {
           platform: platName,
           available: false,
-          requiresAuth: platName === 'resy',
+          requiresAuth: platformClient.requiresAuth,
+          capabilities: platformClient.capabilities,
         };
       }
 
-      const isAvailable = await client.isAvailable();
-      const isAuth = await client.isAuthenticated();
+      const isAvailable = await platformClient.isAvailable();
+      const isAuth = await platformClient.isAuthenticated();
 
       return {
         platform: platName,
         available: isAvailable,
         bookingUrl: details.bookingUrls[platName],
-        requiresAuth: platName === 'resy' && !isAuth,
+        requiresAuth: platformClient.requiresAuth && !isAuth,
+        capabilities: platformClient.capabilities,
       };
     })
   );
@@ -296,113 +587,19 @@ export async function getPlatformHealth(): Promise<Record<PlatformName, boolean>
   const health: Record<PlatformName, boolean> = {} as Record<PlatformName, boolean>;
 
   await Promise.all(
-    Object.entries(platformClients).map(async ([platform, client]) => {
-      health[platform as PlatformName] = await client.isAvailable();
+    listPlatforms().map(async (client) => {
+      health[client.name] = await client.isAvailable();
     })
   );
 
   return health;
 }
 
-/**
- * Parse time string to 24-hour format
- */
-function parseTimePreference(time: string): number {
-  const lower = time.toLowerCase().trim();
-
-  // Named times
-  if (lower.includes('breakfast')) return 9;
-  if (lower.includes('brunch')) return 11;
-  if (lower.includes('lunch')) return 12;
-  if (lower === 'noon' || lower === 'midday') return 12;
-  if (lower.includes('afternoon')) return 14;
-  if (lower.includes('dinner') || lower.includes('evening')) return 19;
-  if (lower.includes('late')) return 21;
-
-  // Parse "7pm", "7:30pm", "19:00", etc.
-  const match = lower.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/);
-  if (match) {
-    let hour = parseInt(match[1], 10);
-    const ampm = match[3];
-
-    if (ampm === 'pm' && hour < 12) hour += 12;
-    if (ampm === 'am' && hour === 12) hour = 0;
-
-    // If no am/pm and hour <= 6, assume PM for restaurant context
-    if (!ampm && hour >= 1 && hour <= 6) hour += 12;
-
-    return hour;
-  }
-
-  // Default to dinner time
-  return 19;
-}
-
-/**
- * Parse date string to YYYY-MM-DD format
- */
-function parseDateString(dateStr: string): string {
-  const lower = dateStr.toLowerCase().trim();
-  const today = new Date();
-
-  // Already in YYYY-MM-DD format
-  if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-    return dateStr;
-  }
-
-  // Relative dates
-  if (lower === 'today') {
-    return formatDate(today);
-  }
-  if (lower === 'tomorrow') {
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    return formatDate(tomorrow);
-  }
-
-  // Day names
-  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayIndex = days.findIndex(d => lower.includes(d));
-  if (dayIndex !== -1) {
-    const currentDay = today.getDay();
-    let daysUntil = dayIndex - currentDay;
-    if (daysUntil <= 0) daysUntil += 7; // Next week
-    if (lower.includes('next')) daysUntil += 7;
-
-    const targetDate = new Date(today);
-    targetDate.setDate(targetDate.getDate() + daysUntil);
-    return formatDate(targetDate);
-  }
-
-  // Try to parse as date
-  const parsed = new Date(dateStr);
-  if (!isNaN(parsed.getTime())) {
-    return formatDate(parsed);
-  }
-
-  // Default to today
-  return formatDate(today);
-}
-
-function formatDate(date: Date): string {
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * Find the slot closest to the preferred time
- */
-function findBestSlot(slots: TimeSlot[], preferredHour: number): TimeSlot | null {
-  if (slots.length === 0) return null;
-
-  return slots.reduce((best, slot) => {
-    const slotHour = parseInt(slot.time.split(':')[0], 10);
-    const bestHour = parseInt(best.time.split(':')[0], 10);
-
-    const slotDiff = Math.abs(slotHour - preferredHour);
-    const bestDiff = Math.abs(bestHour - preferredHour);
-
-    return slotDiff < bestDiff ? slot : best;
-  });
+// Of two optional clock-time bounds, the later (for an earliest) or earlier (for a latest) one
+function tighterBound(a: string | undefined, b: string | undefined, later: boolean): string | undefined {
+  if (!a || !b) return a ?? b;
+  const laterOne = clockTimeToMinutes(a) >= clockTimeToMinutes(b) ? a : b;
+  return later ? laterOne : (laterOne === a ? b : a);
 }
 
 /**
@@ -414,18 +611,52 @@ export interface FindTableResult {
     id: string;
     name: string;
     platform: PlatformName;
+    platforms: PlatformName[];
   };
-  date: string;
+  date: string;                  // The date booked or shown; the date expression itself if it couldn't be read
+  datesChecked?: string[];       // Candidate dates looked at, in order, when the expression named several
+  dateOptions?: DateInterpretation[];  // Readings of an ambiguous date expression
   partySize: number;
   preferredTime: string;
+  timeWindow?: {                 // How the time was read, after any earliest/latest filters
+    target?: string;
+    earliest?: string;
+    latest?: string;
+    description: string;
+  };
   availableSlots: TimeSlot[];
   selectedSlot?: TimeSlot;
+  slotRanking?: ReturnType<typeof explainRanking>;
   booking?: ReservationResult;
+  hold?: BookingHold;            // Held slot and its fees, awaiting confirm_booking
+  notify?: NotifyEntry;          // Notify list joined because the date was full
+  conflicts?: BookingConflict[];
   error?: string;
 }
 
+// What find_table does with the best slot: nothing, hold it for confirm_booking, or book it
+export type FindTableMode = 'search' | 'hold' | 'book';
+
+// Without an earliest or latest time, a notify request covers this far either side of the target
+const NOTIFY_WINDOW_MINUTES = 60;
+
+// find_table looks at most this many candidate dates ("this week", "Feb 10-14") one by one
+const MAX_FIND_TABLE_DATES = 7;
+
 /**
  * Find and book a table at a restaurant
+ *
+ * The date may be an expression naming several dates ("this weekend",
+ * "Thu or Fri"); they're tried in order and the first with a slot that
+ * fits the preferences is used. An ambiguous or unreadable expression is
+ * returned as an error, with the readings in `dateOptions`. Relative dates
+ * like "tonight" count from today in timeZone.
+ *
+ * In 'hold' mode the best slot is quoted and held rather than booked, on
+ * platforms that support holds; others book as in 'book' mode.
+ *
+ * With `notify`, a restaurant with no availability at all is put on the
+ * platform's notify list for the first date and the time window.
  */
 export async function findTable(
   restaurantName: string,
@@ -433,14 +664,59 @@ export async function findTable(
   dateStr: string,
   timeStr: string,
   partySize: number,
-  autoBook: boolean
+  mode: FindTableMode,
+  preferences?: SlotPreferences,
+  conflictOptions?: ConflictOptions,
+  area?: SearchAreaOptions,
+  payment?: PaymentOptions,
+  notify?: NotifyOptions,
+  timeZone = DEFAULT_TIME_ZONE
 ): Promise<FindTableResult> {
-  // Parse date and time
-  const date = parseDateString(dateStr);
-  const preferredHour = parseTimePreference(timeStr);
+  // Parse date and time. The venue isn't known yet, so "today" is the diner's
+  const parsedDate = parseDateExpression(dateStr, { timeZone, maxDays: MAX_FIND_TABLE_DATES });
+  if (!parsedDate.ok) {
+    return {
+      success: false,
+      date: dateStr,
+      dateOptions: parsedDate.interpretations,
+      partySize,
+      preferredTime: timeStr,
+      availableSlots: [],
+      error: parsedDate.message,
+    };
+  }
+  const candidateDates = parsedDate.dates;
+  let date = candidateDates[0];
+  const datesChecked = candidateDates.length > 1 ? candidateDates : undefined;
+  const timeWindow = parseTimeExpression(timeStr);
+  if (!timeWindow.ok) {
+    return {
+      success: false,
+      date,
+      partySize,
+      preferredTime: timeStr,
+      availableSlots: [],
+      error: timeWindow.message,
+    };
+  }
+
+  // The phrase's window narrows any earliest/latest filters the caller also gave
+  const slotPreferences: SlotPreferences = {
+    ...preferences,
+    earliest: tighterBound(preferences?.earliest, timeWindow.earliest, true),
+    latest: tighterBound(preferences?.latest, timeWindow.latest, false),
+    preferredTimes: timeWindow.target ? [timeWindow.target] : undefined,
+  };
+  const asClock = (time?: string) => (time ? minutesToClockTime(clockTimeToMinutes(time)) : undefined);
+  const timeSummary = {
+    target: timeWindow.target,
+    earliest: asClock(slotPreferences.earliest),
+    latest: asClock(slotPreferences.latest),
+    description: timeWindow.description,
+  };
 
   // Search for the restaurant
-  const searchResult = await searchRestaurant(restaurantName, location, date, partySize);
+  const searchResult = await searchRestaurant(restaurantName, location, date, partySize, area);
 
   if (searchResult.restaurants.length === 0) {
     return {
@@ -448,82 +724,146 @@ export async function findTable(
       date,
       partySize,
       preferredTime: timeStr,
+      timeWindow: timeSummary,
       availableSlots: [],
       error: `No restaurants found matching "${restaurantName}" in ${location}`,
     };
   }
 
-  // Use the first (best) match
+  // Use the first (best) match, on every platform it was found on
   const restaurant = searchResult.restaurants[0];
+  const summary = { id: restaurant.id, name: restaurant.name, platform: restaurant.platform, platforms: restaurant.platforms };
+  const listings = await platformListings(restaurant.id);
 
-  // Check availability
-  const parsed = parseRestaurantId(restaurant.id);
-  if (!parsed) {
+  if (listings.length === 0) {
     return {
       success: false,
-      restaurant: { id: restaurant.id, name: restaurant.name, platform: restaurant.platform },
+      restaurant: summary,
       date,
       partySize,
       preferredTime: timeStr,
+      timeWindow: timeSummary,
       availableSlots: [],
       error: 'Invalid restaurant ID',
     };
   }
 
-  const client = platformClients[parsed.platform];
-  const slots = await client.getAvailability(parsed.id, date, partySize);
+  // Take the first candidate date with a slot that fits; failing that, the first with any slots
+  let slots: TimeSlot[] = [];
+  let choice: SlotChoice | null = null;
+  for (const candidate of candidateDates) {
+    const gathered = await gatherSlots(listings, candidate, partySize);
+    if (gathered.slots.length === 0) continue;
+
+    const ranking = chooseSlot(gathered.slots, slotPreferences);
+    if (!choice || ranking.selected) {
+      date = candidate;
+      slots = gathered.slots;
+      choice = ranking;
+    }
+    if (ranking.selected) break;
+  }
 
-  if (slots.length === 0) {
-    return {
+  if (!choice) {
+    const when = datesChecked ? `on ${datesChecked.join(', ')}` : `on ${date}`;
+    const failed: FindTableResult = {
       success: false,
-      restaurant: { id: restaurant.id, name: restaurant.name, platform: restaurant.platform },
+      restaurant: summary,
       date,
+      datesChecked,
       partySize,
       preferredTime: timeStr,
+      timeWindow: timeSummary,
       availableSlots: [],
-      error: `No availability at ${restaurant.name} on ${date} for ${partySize} guests`,
+      error: `No availability at ${restaurant.name} ${when} for ${partySize} guests`,
     };
+
+    const notifyListing = notify && listings.find((l) => l.client.capabilities.notify);
+    if (notifyListing) {
+      const target = timeSummary.target ? clockTimeToMinutes(timeSummary.target) : undefined;
+      const joined = await joinNotifyList(notifyListing.client, {
+        restaurantId: notifyListing.restaurantId,
+        date,
+        partySize,
+        earliestTime: timeSummary.earliest ?? (target !== undefined ? minutesToClockTime(Math.max(0, target - NOTIFY_WINDOW_MINUTES)) : '00:00'),
+        latestTime: timeSummary.latest ?? (target !== undefined ? minutesToClockTime(Math.min(23 * 60 + 59, target + NOTIFY_WINDOW_MINUTES)) : '23:59'),
+      }, { ...notify, restaurantName: restaurant.name });
+
+      failed.notify = joined.notify;
+      failed.error = joined.success
+        ? `${failed.error}; joined the ${notifyListing.client.name} notify list for ${date}`
+        : `${failed.error}; couldn't join the notify list: ${joined.error}`;
+    }
+
+    return failed;
   }
 
-  // Find best slot
-  const bestSlot = findBestSlot(slots, preferredHour);
+  // Rank slots against the preferences, in venue-local time
+  const { selected: bestSlot, ranked } = choice;
 
   const result: FindTableResult = {
-    success: true,
-    restaurant: { id: restaurant.id, name: restaurant.name, platform: restaurant.platform },
+    success: bestSlot !== null,
+    restaurant: summary,
     date,
+    datesChecked,
     partySize,
     preferredTime: timeStr,
+    timeWindow: timeSummary,
     availableSlots: slots,
     selectedSlot: bestSlot || undefined,
+    slotRanking: explainRanking(ranked),
   };
 
-  // Book if requested
-  if (autoBook && bestSlot) {
+  if (!bestSlot) {
+    result.error = datesChecked
+      ? `Slots available at ${restaurant.name} on ${datesChecked.join(', ')}, but none meet your preferences`
+      : `${slots.length} slots available at ${restaurant.name} on ${date}, but none meet your preferences`;
+  }
+
+  // Don't book a second table on the same evening unless told to
+  if (mode !== 'search' && bestSlot) {
+    const check = await checkBookingConflicts({ date, time: bestSlot.time, timeZone: bestSlot.timeZone }, conflictOptions);
+    if (check.conflicts.length > 0) result.conflicts = check.conflicts;
+    if (!check.allowed) {
+      result.success = false;
+      result.error = check.message;
+      return result;
+    }
+  }
+
+  // Hold or book if requested, on whichever platform has the slot
+  if (mode !== 'search' && bestSlot) {
+    const listing = listings.find((l) => l.client.name === bestSlot.platform) ?? listings[0];
     const bookingParams: ReservationParams = {
-      restaurantId: restaurant.id,
-      platform: parsed.platform,
+      restaurantId: listing.restaurantId,
+      platform: listing.client.name,
       slotId: bestSlot.slotId,
       date,
       partySize,
       token: bestSlot.token,
+      payment,
     };
 
-    try {
-      const bookingResult = await client.makeReservation(bookingParams);
-      result.booking = bookingResult;
-      result.success = bookingResult.success;
-      if (!bookingResult.success) {
-        result.error = bookingResult.error;
-      }
-    } catch (error) {
-      result.booking = {
-        success: false,
-        platform: parsed.platform,
-        error: error instanceof Error ? error.message : 'Booking failed',
-      };
-      result.success = false;
-      result.error = result.booking.error;
+    const context = {
+      source: 'find_table' as const,
+      restaurantName: restaurant.name,
+      location: restaurant.location,
+      slot: bestSlot,
+    };
+
+    if (mode === 'hold' && listing.client.capabilities.holds) {
+      const held = await placeHold(listing.client, bookingParams, context);
+      result.hold = held.hold;
+      result.success = held.success;
+      if (!held.success) result.error = held.error;
+      return result;
+    }
+
+    const bookingResult = await bookReservation(listing.client, bookingParams, context);
+    result.booking = bookingResult;
+    result.success = bookingResult.success;
+    if (!bookingResult.success) {
+      result.error = bookingResult.error;
     }
   }
 
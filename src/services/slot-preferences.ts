@@ -0,0 +1,178 @@
+/**
+ * Slot preference model shared by find_table and the sniper
+ *
+ * Every slot is checked against hard limits (time window, seating type, fees)
+ * and scored by closeness to the preferred times. The ranking keeps the
+ * reasons for each decision so callers can explain why a slot won or lost.
+ */
+
+import type { TimeSlot } from '../types/restaurant.js';
+import { clockTimeToMinutes, minutesToClockTime, toVenueLocalTime } from '../utils/time.js';
+import { feeLimits } from './fee-policy.js';
+
+export interface SlotPreferences {
+  earliest?: string;             // Clock time, e.g. "6:30 PM"
+  latest?: string;               // Clock time, e.g. "9:00 PM"
+  preferredTimes?: string[];     // Targets in order of preference
+  toleranceMinutes?: number;     // If set, slots further than this from every target are rejected
+  excludedTypes?: string[];      // Seating types to avoid, matched against TimeSlot.type (e.g. "bar", "patio")
+  maxDepositFee?: number;
+  maxCancellationFee?: number;
+}
+
+// Any slot shape the platform clients return, unified or platform-specific
+export type RankableSlot = Pick<TimeSlot, 'slotId' | 'time' | 'type' | 'depositFee' | 'cancellationFee' | 'timeZone'>;
+
+export interface RankedSlot<T extends RankableSlot = TimeSlot> {
+  slot: T;
+  localTime: string | null;      // Venue-local HH:MM
+  eligible: boolean;
+  score: number;                 // Higher is better; only meaningful for eligible slots
+  reasons: string[];
+}
+
+export interface SlotChoice<T extends RankableSlot = TimeSlot> {
+  selected: T | null;
+  ranked: RankedSlot<T>[];
+}
+
+// Penalty per step down the preferred-times list, so an earlier preference
+// always beats a later one when both are within tolerance
+const PREFERENCE_RANK_PENALTY = 10000;
+
+function formatFee(amount: number): string {
+  return `$${amount.toFixed(2).replace(/\.00$/, '')}`;
+}
+
+function evaluateSlot<T extends RankableSlot>(slot: T, prefs: SlotPreferences): RankedSlot<T> {
+  const reasons: string[] = [];
+  let eligible = true;
+  let score = 0;
+
+  const local = toVenueLocalTime(slot.time, slot.timeZone);
+  if (!local) {
+    return { slot, localTime: null, eligible: false, score: -Infinity, reasons: [`unreadable slot time "${slot.time}"`] };
+  }
+
+  if (prefs.earliest && local.minutes < clockTimeToMinutes(prefs.earliest)) {
+    eligible = false;
+    reasons.push(`${local.time} is before the earliest time ${prefs.earliest}`);
+  }
+  if (prefs.latest && local.minutes > clockTimeToMinutes(prefs.latest)) {
+    eligible = false;
+    reasons.push(`${local.time} is after the latest time ${prefs.latest}`);
+  }
+
+  if (slot.type && prefs.excludedTypes?.length) {
+    const type = slot.type.toLowerCase();
+    const excluded = prefs.excludedTypes.find((t) => type.includes(t.toLowerCase()));
+    if (excluded) {
+      eligible = false;
+      reasons.push(`seating type "${slot.type}" is excluded (${excluded})`);
+    }
+  }
+
+  if (prefs.maxDepositFee !== undefined && (slot.depositFee ?? 0) > prefs.maxDepositFee) {
+    eligible = false;
+    reasons.push(`deposit ${formatFee(slot.depositFee ?? 0)} exceeds max ${formatFee(prefs.maxDepositFee)}`);
+  }
+  if (prefs.maxCancellationFee !== undefined && (slot.cancellationFee ?? 0) > prefs.maxCancellationFee) {
+    eligible = false;
+    reasons.push(`cancellation fee ${formatFee(slot.cancellationFee ?? 0)} exceeds max ${formatFee(prefs.maxCancellationFee)}`);
+  }
+
+  const targets = (prefs.preferredTimes || []).map(clockTimeToMinutes);
+  if (targets.length > 0) {
+    let bestIndex = -1;
+    let bestDiff = 0;
+
+    for (let i = 0; i < targets.length; i++) {
+      const diff = Math.abs(local.minutes - targets[i]);
+      if (prefs.toleranceMinutes !== undefined && diff > prefs.toleranceMinutes) continue;
+      if (bestIndex === -1 || i * PREFERENCE_RANK_PENALTY + diff < bestIndex * PREFERENCE_RANK_PENALTY + bestDiff) {
+        bestIndex = i;
+        bestDiff = diff;
+      }
+    }
+
+    if (bestIndex === -1) {
+      eligible = false;
+      reasons.push(`${local.time} is more than ${prefs.toleranceMinutes} min from every preferred time`);
+    } else {
+      score = -(bestIndex * PREFERENCE_RANK_PENALTY + bestDiff);
+      const target = minutesToClockTime(targets[bestIndex]);
+      reasons.push(bestDiff === 0
+        ? `exactly at preferred time ${target}`
+        : `${bestDiff} min from preferred time ${target}${targets.length > 1 ? ` (choice #${bestIndex + 1})` : ''}`);
+    }
+  }
+
+  if (eligible && reasons.length === 0) {
+    reasons.push('meets all preferences');
+  }
+
+  return { slot, localTime: local.time, eligible, score, reasons };
+}
+
+/**
+ * Rank slots against preferences: eligible slots first, best score first,
+ * ties broken by earlier time
+ */
+export function rankSlots<T extends RankableSlot>(slots: T[], prefs: SlotPreferences): RankedSlot<T>[] {
+  const ranked = slots.map((slot) => evaluateSlot(slot, prefs));
+
+  return ranked.sort((a, b) => {
+    if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+    if (a.score !== b.score) return b.score - a.score;
+    return (a.localTime || '').localeCompare(b.localTime || '');
+  });
+}
+
+/**
+ * Pick the best eligible slot, keeping the full ranking for explanation
+ */
+export function chooseSlot<T extends RankableSlot>(slots: T[], prefs: SlotPreferences): SlotChoice<T> {
+  const ranked = rankSlots(slots, prefs);
+  const winner = ranked.find((r) => r.eligible);
+
+  if (winner) {
+    winner.reasons.unshift('selected');
+    for (const r of ranked) {
+      if (r !== winner && r.eligible) r.reasons.push('ranked below the selected slot');
+    }
+  }
+
+  return { selected: winner?.slot || null, ranked };
+}
+
+/**
+ * Tighten the fee limits in preferences to the configured booking limits
+ * (MAX_BOOKING_DEPOSIT, MAX_CANCELLATION_FEE), so slots listed above them
+ * are never picked for booking
+ */
+export function withFeeLimits(prefs: SlotPreferences): SlotPreferences {
+  const limits = feeLimits({ maxDeposit: prefs.maxDepositFee, maxCancellationFee: prefs.maxCancellationFee });
+  return { ...prefs, maxDepositFee: limits.maxDeposit, maxCancellationFee: limits.maxCancellationFee };
+}
+
+/**
+ * Compact, JSON-friendly explanation of a ranking
+ */
+export function explainRanking<T extends RankableSlot>(ranked: RankedSlot<T>[]): Array<{ slotId: string; time: string | null; type?: string; eligible: boolean; reasons: string[] }> {
+  return ranked.map((r) => ({
+    slotId: r.slot.slotId,
+    time: r.localTime,
+    type: r.slot.type,
+    eligible: r.eligible,
+    reasons: r.reasons,
+  }));
+}
+
+/**
+ * Throw a descriptive error if any clock time in the preferences can't be parsed
+ */
+export function validateSlotPreferences(prefs: SlotPreferences): void {
+  for (const time of [prefs.earliest, prefs.latest, ...(prefs.preferredTimes || [])]) {
+    if (time) clockTimeToMinutes(time);
+  }
+}
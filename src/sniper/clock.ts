@@ -0,0 +1,122 @@
+/**
+ * Clock and timer abstraction for the sniper
+ *
+ * The executor, scheduler and watcher read the time and arm timers through
+ * the active clock instead of Date.now()/setTimeout directly. Production uses
+ * the system clock; a ManualClock lets a harness jump straight to a release
+ * time and step through warm-up, polling and timeouts without waiting.
+ *
+ * The sniper-service's loop runs on this clock too, so it must not import anything.
+ */
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): number;
+  setTimer(callback: () => void, delayMs: number): TimerHandle;
+  clearTimer(handle: TimerHandle): void;
+  sleep(ms: number): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimer: (handle) => clearTimeout(handle as NodeJS.Timeout),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+let activeClock: Clock = systemClock;
+
+export function getClock(): Clock {
+  return activeClock;
+}
+
+/**
+ * Swap the clock used by the sniper. Pass nothing to restore the system clock.
+ */
+export function setClock(clock: Clock = systemClock): void {
+  activeClock = clock;
+}
+
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+/**
+ * Clock that only moves when told to. Timers fire in due order as time is
+ * advanced, and pending promise callbacks are flushed between them so async
+ * loops built on sleep() make progress at each step.
+ */
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: ManualTimer[] = [];
+  private nextId = 1;
+
+  constructor(start: number | Date = Date.now()) {
+    this.current = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimer(callback: () => void, delayMs: number): TimerHandle {
+    const timer = { id: this.nextId++, dueAt: this.current + Math.max(0, delayMs), callback };
+    this.timers.push(timer);
+    return timer.id;
+  }
+
+  clearTimer(handle: TimerHandle): void {
+    this.timers = this.timers.filter((t) => t.id !== handle);
+  }
+
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => this.setTimer(resolve, ms));
+  }
+
+  /**
+   * Number of timers still waiting to fire
+   */
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Move time forward, firing every timer that comes due along the way
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+
+    await flushPromises();
+    for (;;) {
+      const due = this.timers
+        .filter((t) => t.dueAt <= target)
+        .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+      if (!due) break;
+
+      this.timers = this.timers.filter((t) => t !== due);
+      this.current = Math.max(this.current, due.dueAt);
+      due.callback();
+      await flushPromises();
+    }
+
+    this.current = target;
+  }
+
+  /**
+   * Jump to an absolute instant, firing timers due before it
+   */
+  advanceTo(at: number | Date): Promise<void> {
+    const target = typeof at === 'number' ? at : at.getTime();
+    return this.advance(Math.max(0, target - this.current));
+  }
+}
+
+// Let chained awaits (store writes, mocked API calls) settle before the next timer
+async function flushPromises(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+  }
+}
@@ -1,127 +1,214 @@
-import { resyClient } from '../resy/client.js';
+import { resyClient, bookingFees, isRateLimited, isSlotTaken } from '../resy/client.js';
 import { openTableClient } from '../opentable/client.js';
-import { updateSnipeStatus, type SnipeConfig } from './store.js';
+import {
+  getSnipe,
+  updateSnipeStatus,
+  getCampaign,
+  updateCampaign,
+  type SnipeConfig,
+  type SnipeCampaign,
+} from './store.js';
+import { chooseSlot, rankSlots, withFeeLimits, type SlotPreferences } from '../services/slot-preferences.js';
+import { recordBooking, type LedgerSource } from '../services/ledger.js';
+import { assertNoConflicts } from '../services/conflicts.js';
+import { checkFees } from '../services/fee-policy.js';
+import { listReservations } from '../services/reservations.js';
+import { ErrorCode, ReservationError } from '../types/restaurant.js';
+import { getClock, type TimerHandle } from './clock.js';
+import { toVenueLocalTime } from '../utils/time.js';
 
 const POLL_INTERVAL_MS = 500;
 const PRE_RELEASE_START_MS = 30000; // Start polling 30 seconds before release
-const MAX_POLL_DURATION_MS = 120000; // Give up after 2 minutes
+export const MAX_POLL_DURATION_MS = 120000; // Give up after 2 minutes
+const MAX_RATE_LIMIT_BACKOFF_MS = 8000;
 
-function parseTime(timeStr: string): { hours: number; minutes: number } {
-  // Handle formats like "7:00 PM", "19:00", "7:30PM"
-  const normalized = timeStr.trim().toUpperCase();
+const PREFERRED_TIME_TOLERANCE_MINUTES = 15;
 
-  const match12 = normalized.match(/^(\d{1,2}):?(\d{2})?\s*(AM|PM)$/);
-  if (match12) {
-    let hours = parseInt(match12[1], 10);
-    const minutes = parseInt(match12[2] || '0', 10);
-    const period = match12[3];
+type SnipeTarget = Pick<SnipeConfig, 'restaurantId' | 'platform' | 'date' | 'partySize' | 'preferredTimes' | 'preferences' | 'conflictGuard'>;
 
-    if (period === 'PM' && hours !== 12) hours += 12;
-    if (period === 'AM' && hours === 12) hours = 0;
+function targetPreferences(target: SnipeTarget): SlotPreferences {
+  return {
+    ...target.preferences,
+    preferredTimes: target.preferredTimes,
+    toleranceMinutes: PREFERRED_TIME_TOLERANCE_MINUTES,
+  };
+}
 
-    return { hours, minutes };
-  }
+/**
+ * Poll once for a slot matching the target's preferred times.
+ * Returns a confirmation message if a slot was booked (Resy) or found (OpenTable),
+ * or null if nothing matched yet.
+ *
+ * A Resy slot whose quoted fees turn out to exceed the limits is added to
+ * `refused` and the next best slot is tried; refused slots are left out of
+ * later polls of the same run.
+ */
+async function attemptResyBooking(target: SnipeTarget, source: LedgerSource, refused = new Set<string>()): Promise<string | null> {
+  const slots = await resyClient.getAvailability(
+    parseInt(target.restaurantId, 10),
+    target.date,
+    target.partySize
+  );
 
-  const match24 = normalized.match(/^(\d{1,2}):(\d{2})$/);
-  if (match24) {
-    return {
-      hours: parseInt(match24[1], 10),
-      minutes: parseInt(match24[2], 10),
+  // Candidates by preferred-time order, within the target's hard limits and the booking fee limits
+  const prefs = withFeeLimits(targetPreferences(target));
+  const candidates = rankSlots(slots.filter((s) => !refused.has(s.slotId)), prefs).filter((r) => r.eligible);
+
+  for (const { slot: matchingSlot } of candidates) {
+    const attempt = {
+      platform: target.platform,
+      restaurantId: `${target.platform}-${target.restaurantId}`,
+      date: target.date,
+      time: toVenueLocalTime(matchingSlot.time, matchingSlot.timeZone)?.time,
+      partySize: target.partySize,
+      slotId: matchingSlot.slotId,
+      slotType: matchingSlot.type,
+      depositFee: matchingSlot.depositFee,
+      cancellationFee: matchingSlot.cancellationFee,
+      source,
     };
+
+    // Snipes and campaigns refuse to land on an evening that's already booked; the ledger was synced when the run started
+    await assertNoConflicts(
+      { date: target.date, time: matchingSlot.time, timeZone: matchingSlot.timeZone },
+      { ...target.conflictGuard, sync: false }
+    );
+
+    // Found a slot! Try to book it immediately
+    let result: Awaited<ReturnType<typeof resyClient.makeReservation>>;
+    try {
+      const details = await resyClient.getBookingDetails(
+        matchingSlot.slotId,
+        target.date,
+        target.partySize
+      );
+
+      // The listing's fees can be missing or stale; the quote is what gets charged
+      const feeError = checkFees(bookingFees(details), { maxDeposit: prefs.maxDepositFee, maxCancellationFee: prefs.maxCancellationFee });
+      if (feeError) {
+        console.error(`Skipping ${target.platform}-${target.restaurantId} slot at ${matchingSlot.time}: ${feeError}`);
+        refused.add(matchingSlot.slotId);
+        continue;
+      }
+
+      result = await resyClient.makeReservation(details.book_token.value);
+    } catch (error) {
+      await recordBooking({ ...attempt, status: 'failed', error: error instanceof Error ? error.message : 'Booking failed' });
+      throw error;
+    }
+
+    await recordBooking({ ...attempt, status: 'confirmed', confirmationId: result.resy_token });
+
+    return `Successfully booked! Reservation ID: ${result.reservation_id}, Time: ${matchingSlot.time}`;
   }
 
-  throw new Error(`Cannot parse time: ${timeStr}`);
+  return null;
 }
 
-function timeMatchesPreference(slotTime: string, preferredTime: string): boolean {
-  try {
-    const slot = parseTime(slotTime);
-    const preferred = parseTime(preferredTime);
+async function attemptOpenTableBooking(target: SnipeTarget, source: LedgerSource): Promise<string | null> {
+  const slots = await openTableClient.getAvailability(
+    parseInt(target.restaurantId, 10),
+    target.date,
+    target.partySize
+  );
 
-    // Allow 15-minute flexibility
-    const slotMinutes = slot.hours * 60 + slot.minutes;
-    const preferredMinutes = preferred.hours * 60 + preferred.minutes;
+  const { selected: matchingSlot } = chooseSlot(slots, targetPreferences(target));
+  if (!matchingSlot) return null;
 
-    return Math.abs(slotMinutes - preferredMinutes) <= 15;
-  } catch {
-    return false;
-  }
+  // OpenTable can't complete booking via API, return the URL
+  await recordBooking({
+    platform: target.platform,
+    restaurantId: `${target.platform}-${target.restaurantId}`,
+    date: target.date,
+    time: toVenueLocalTime(matchingSlot.time)?.time,
+    partySize: target.partySize,
+    slotId: matchingSlot.slotId,
+    slotType: matchingSlot.type,
+    bookingUrl: matchingSlot.bookingUrl,
+    source,
+    status: 'handoff',
+  });
+
+  return `Slot found! Complete booking at: ${matchingSlot.bookingUrl}`;
 }
 
-async function executeResySnipe(config: SnipeConfig): Promise<string> {
-  const startTime = Date.now();
+function attemptBooking(target: SnipeTarget, source: LedgerSource, refused?: Set<string>): Promise<string | null> {
+  return target.platform === 'resy' ? attemptResyBooking(target, source, refused) : attemptOpenTableBooking(target, source);
+}
 
-  while (Date.now() - startTime < MAX_POLL_DURATION_MS) {
-    const slots = await resyClient.getAvailability(
-      parseInt(config.restaurantId, 10),
-      config.date,
-      config.partySize
-    );
+// A snipe cancelled mid-run is deleted from the store, so a missing row counts too
+async function isSnipeCancelled(snipeId: string): Promise<boolean> {
+  const current = await getSnipe(snipeId);
+  return !current || current.status === 'cancelled';
+}
+
+async function isCampaignCancelled(campaignId: string): Promise<boolean> {
+  const current = await getCampaign(campaignId);
+  return !current || current.status === 'cancelled';
+}
+
+// The poll window closes a fixed time after release, so a run resumed after a restart only gets what's left of it
+function pollDeadline(config: SnipeConfig): number {
+  return new Date(config.releaseTime).getTime() + MAX_POLL_DURATION_MS;
+}
 
-    // Find first slot matching any preferred time
-    for (const preferredTime of config.preferredTimes) {
-      const matchingSlot = slots.find((slot) => {
-        const slotTimeStr = new Date(slot.time).toLocaleTimeString('en-US', {
-          hour: 'numeric',
-          minute: '2-digit',
-        });
-        return timeMatchesPreference(slotTimeStr, preferredTime);
-      });
-
-      if (matchingSlot) {
-        // Found a slot! Try to book it immediately
-        const details = await resyClient.getBookingDetails(
-          matchingSlot.slotId,
-          config.date,
-          config.partySize
-        );
-
-        const result = await resyClient.makeReservation(details.book_token.value);
-
-        return `Successfully booked! Reservation ID: ${result.reservation_id}, Time: ${matchingSlot.time}`;
+/**
+ * Poll until a slot is booked, the snipe is cancelled (null) or the poll window runs out.
+ * A 429 slows polling down and a slot lost to another diner leaves the rest
+ * in play; any other error ends the snipe.
+ */
+async function executeResySnipe(config: SnipeConfig): Promise<string | null> {
+  const clock = getClock();
+  const deadline = pollDeadline(config);
+  const refused = new Set<string>();
+  let delay = POLL_INTERVAL_MS;
+
+  while (clock.now() < deadline) {
+    if (await isSnipeCancelled(config.id)) return null;
+
+    try {
+      const result = await attemptResyBooking(config, 'snipe', refused);
+      if (result) return result;
+      delay = POLL_INTERVAL_MS;
+    } catch (error) {
+      if (isRateLimited(error)) {
+        delay = Math.min(MAX_RATE_LIMIT_BACKOFF_MS, delay * 2);
+      } else if (!isSlotTaken(error)) {
+        throw error;
       }
     }
 
     // No matching slots yet, wait and retry
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    await clock.sleep(delay);
   }
 
   throw new Error('Snipe timed out - no matching slots became available');
 }
 
-async function executeOpenTableSnipe(config: SnipeConfig): Promise<string> {
-  const startTime = Date.now();
+async function executeOpenTableSnipe(config: SnipeConfig): Promise<string | null> {
+  const clock = getClock();
+  const deadline = pollDeadline(config);
 
-  while (Date.now() - startTime < MAX_POLL_DURATION_MS) {
-    const slots = await openTableClient.getAvailability(
-      parseInt(config.restaurantId, 10),
-      config.date,
-      config.partySize
-    );
+  while (clock.now() < deadline) {
+    if (await isSnipeCancelled(config.id)) return null;
 
-    // Find first slot matching any preferred time
-    for (const preferredTime of config.preferredTimes) {
-      const matchingSlot = slots.find((slot) =>
-        timeMatchesPreference(slot.time, preferredTime)
-      );
-
-      if (matchingSlot) {
-        // OpenTable can't complete booking via API, return the URL
-        return `Slot found! Complete booking at: ${matchingSlot.bookingUrl}`;
-      }
-    }
+    const result = await attemptOpenTableBooking(config, 'snipe');
+    if (result) return result;
 
-    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    await clock.sleep(POLL_INTERVAL_MS);
   }
 
   throw new Error('Snipe timed out - no matching slots became available');
 }
 
 export async function executeSnipe(config: SnipeConfig): Promise<void> {
-  await updateSnipeStatus(config.id, 'running');
-
   try {
-    let result: string;
+    await updateSnipeStatus(config.id, 'running');
+
+    let result: string | null;
+
+    // Pick up reservations made elsewhere before the double-booking check; polling only reads the ledger
+    await listReservations('all', { when: 'upcoming' });
 
     if (config.platform === 'resy') {
       result = await executeResySnipe(config);
@@ -129,6 +216,9 @@ export async function executeSnipe(config: SnipeConfig): Promise<void> {
       result = await executeOpenTableSnipe(config);
     }
 
+    // Cancelled while running; leave the cancelled record alone
+    if (result === null) return;
+
     await updateSnipeStatus(config.id, 'success', result);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
@@ -136,12 +226,117 @@ export async function executeSnipe(config: SnipeConfig): Promise<void> {
   }
 }
 
-export function scheduleSnipe(config: SnipeConfig): NodeJS.Timeout {
+export function scheduleSnipe(config: SnipeConfig): TimerHandle {
+  const clock = getClock();
   const releaseTime = new Date(config.releaseTime).getTime();
   const startTime = releaseTime - PRE_RELEASE_START_MS;
-  const delay = Math.max(0, startTime - Date.now());
+  const delay = Math.max(0, startTime - clock.now());
+
+  return clock.setTimer(() => {
+    executeSnipe(config).catch((error) => {
+      console.error(`Snipe ${config.id} error:`, error instanceof Error ? error.message : error);
+    });
+  }, delay);
+}
+
+/**
+ * Run every option of a campaign side by side, polling each one from its own
+ * release time. On every round options are tried in ranked order, so the best
+ * option with a matching slot wins; once one books, the rest are skipped.
+ */
+export async function executeCampaign(campaign: SnipeCampaign): Promise<void> {
+  const clock = getClock();
+  const options = campaign.options.map((o) => ({ ...o }));
+  const refused = options.map(() => new Set<string>());
+
+  const releaseTimes = options.map((o) => new Date(o.releaseTime).getTime());
+  const deadline = Math.max(...releaseTimes) + MAX_POLL_DURATION_MS;
+
+  // A cancel can land while an attempt is in flight; final states never overwrite it
+  const finish = async (update: Parameters<typeof updateCampaign>[1]): Promise<void> => {
+    if (await isCampaignCancelled(campaign.id)) return;
+    await updateCampaign(campaign.id, update);
+  };
+
+  try {
+    await updateCampaign(campaign.id, { status: 'running', options });
+
+    // Pick up reservations made elsewhere before the double-booking check, as snipes do
+    await listReservations('all', { when: 'upcoming' });
+
+    while (clock.now() < deadline) {
+      // Stop if the campaign was cancelled while we were polling
+      if (await isCampaignCancelled(campaign.id)) return;
+
+      for (let i = 0; i < options.length; i++) {
+        const option = options[i];
+        if (option.status !== 'pending') continue;
+
+        const now = clock.now();
+        if (now < releaseTimes[i] - PRE_RELEASE_START_MS) continue;
+        if (now > releaseTimes[i] + MAX_POLL_DURATION_MS) {
+          option.status = 'failed';
+          option.result = 'Timed out - no matching slots became available';
+          continue;
+        }
+
+        let result: string | null;
+        try {
+          result = await attemptBooking(option, 'campaign', refused[i]);
+        } catch (error) {
+          // An option that would double-book stays refused; drop it and let the others run
+          if (error instanceof ReservationError && error.code === ErrorCode.BOOKING_CONFLICT) {
+            option.status = 'failed';
+            option.result = error.message;
+            continue;
+          }
+          // A single failed poll shouldn't sink the whole campaign
+          console.error(`Campaign ${campaign.id} option ${i} error:`, error instanceof Error ? error.message : error);
+          continue;
+        }
+
+        if (result) {
+          option.status = 'booked';
+          option.result = result;
+          for (const other of options) {
+            if (other.status === 'pending') other.status = 'skipped';
+          }
+          await finish({ status: 'success', options, bookedOption: i, result });
+          return;
+        }
+      }
+
+      if (options.every((o) => o.status !== 'pending')) break;
+
+      await clock.sleep(POLL_INTERVAL_MS);
+    }
+
+    for (const option of options) {
+      if (option.status === 'pending') {
+        option.status = 'failed';
+        option.result = 'Timed out - no matching slots became available';
+      }
+    }
+    await finish({
+      status: 'failed',
+      options,
+      result: 'Campaign timed out - no option became available',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await finish({ status: 'failed', options, result: message });
+  }
+}
+
+export function scheduleCampaign(campaign: SnipeCampaign): TimerHandle {
+  const clock = getClock();
+  const firstRelease = Math.min(...campaign.options.map((o) => new Date(o.releaseTime).getTime()));
+  const startTime = firstRelease - PRE_RELEASE_START_MS;
+  const delay = Math.max(0, startTime - clock.now());
 
-  return setTimeout(() => {
-    executeSnipe(config);
+  return clock.setTimer(() => {
+    executeCampaign(campaign).catch((error) => {
+      console.error(`Campaign ${campaign.id} error:`, error instanceof Error ? error.message : error);
+    });
   }, delay);
 }
@@ -0,0 +1,116 @@
+import { resyClient } from '../resy/client.js';
+import { getReleasePolicy, saveReleasePolicy, type ReleasePolicy } from './store.js';
+import { DEFAULT_TIME_ZONE, addDays, daysBetween, todayIn, zonedTimeToUtc } from '../utils/time.js';
+import { getClock } from './clock.js';
+import { catalogReleasePolicy } from '../services/catalog.js';
+
+const LEARNED_POLICY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Re-learn weekly
+
+/**
+ * Look up a venue's time zone from the platform, falling back to New York
+ */
+export async function getVenueTimeZone(platform: ReleasePolicy['platform'], restaurantId: string): Promise<string> {
+  if (platform !== 'resy') return DEFAULT_TIME_ZONE;
+
+  try {
+    const venue = await resyClient.getVenue(parseInt(restaurantId, 10), todayIn(DEFAULT_TIME_ZONE));
+    return venue?.location?.time_zone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+/**
+ * Infer how far ahead a Resy venue books from the last open day on its calendar.
+ * The calendar doesn't say at what hour new days open, so unless one was
+ * configured the learned policy leaves the release hour unknown. It's saved
+ * to snipes.db, which snipes read, and mirrored onto the catalog's listing.
+ */
+export async function learnReleasePolicy(restaurantId: string): Promise<ReleasePolicy | null> {
+  const timeZone = await getVenueTimeZone('resy', restaurantId);
+  const today = todayIn(timeZone, new Date(getClock().now()));
+
+  const calendar = await resyClient.getVenueCalendar(parseInt(restaurantId, 10), 2, today, addDays(today, 365));
+  if (!calendar.last_calendar_day) return null;
+
+  const daysAhead = daysBetween(today, calendar.last_calendar_day);
+  if (daysAhead <= 0) return null;
+
+  // Keep a configured release hour if one exists and only refresh the window
+  const existing = await getReleasePolicy('resy', restaurantId);
+
+  const policy = await saveReleasePolicy({
+    restaurantId,
+    platform: 'resy',
+    daysAhead,
+    releaseTime: existing?.source === 'configured' ? existing.releaseTime : undefined,
+    timeZone,
+    source: 'learned',
+  });
+  await catalogReleasePolicy(policy);
+  return policy;
+}
+
+/**
+ * Get the release policy for a venue: configured first, then a recently
+ * learned one, then learn it fresh (Resy only)
+ */
+export async function resolveReleasePolicy(
+  platform: ReleasePolicy['platform'],
+  restaurantId: string
+): Promise<ReleasePolicy | null> {
+  const policy = await getReleasePolicy(platform, restaurantId);
+
+  if (policy?.source === 'configured') return policy;
+  if (policy && getClock().now() - new Date(policy.updatedAt).getTime() < LEARNED_POLICY_MAX_AGE_MS) return policy;
+  if (platform !== 'resy') return policy;
+
+  try {
+    return (await learnReleasePolicy(restaurantId)) || policy;
+  } catch (error) {
+    console.error('Release policy learning failed:', error instanceof Error ? error.message : error);
+    return policy;
+  }
+}
+
+/**
+ * The instant inventory for a target date opens under a policy, or null if its release hour is unknown
+ */
+export function computeReleaseTime(policy: ReleasePolicy, targetDate: string): Date | null {
+  if (!policy.releaseTime) return null;
+  return zonedTimeToUtc(addDays(targetDate, -policy.daysAhead), policy.releaseTime, policy.timeZone);
+}
+
+/**
+ * Why a policy can't place a release instant: it knows the booking window but not the hour
+ */
+export function unknownReleaseHourMessage(policy: ReleasePolicy): string {
+  return `${policy.platform}-${policy.restaurantId} opens bookings ${policy.daysAhead} days ahead, but the hour new days are released is unknown. ` +
+    'Pass release_time or set it with set_release_policy.';
+}
+
+/**
+ * Use an explicit release time if given, otherwise derive one from the venue's policy
+ */
+export async function resolveReleaseTime(
+  platform: ReleasePolicy['platform'],
+  restaurantId: string,
+  date: string,
+  explicit?: string
+): Promise<{ releaseTime?: string; policy?: ReleasePolicy; error?: string }> {
+  if (explicit) return { releaseTime: explicit };
+
+  const policy = await resolveReleasePolicy(platform, restaurantId);
+  if (!policy) {
+    return {
+      error: `No release policy known for ${platform}-${restaurantId}. Pass release_time or use set_release_policy first.`,
+    };
+  }
+
+  const releaseTime = computeReleaseTime(policy, date);
+  if (!releaseTime) {
+    return { policy, error: unknownReleaseHourMessage(policy) };
+  }
+
+  return { releaseTime: releaseTime.toISOString(), policy };
+}
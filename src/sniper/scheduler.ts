@@ -1,9 +1,25 @@
-import { getPendingSnipes, getSnipe, updateSnipeStatus, type SnipeConfig } from './store.js';
-import { scheduleSnipe } from './executor.js';
+import {
+  getPendingSnipes,
+  listSnipes,
+  getSnipe,
+  updateSnipeStatus,
+  getPendingCampaigns,
+  listCampaigns,
+  updateCampaign,
+  getActiveWatches,
+  type SnipeConfig,
+  type SnipeCampaign,
+  type AvailabilityWatch,
+} from './store.js';
+import { scheduleSnipe, scheduleCampaign, MAX_POLL_DURATION_MS } from './executor.js';
+import { checkWatch } from './watcher.js';
+import { getClock, type TimerHandle } from './clock.js';
 
-const scheduledSnipes = new Map<string, NodeJS.Timeout>();
+const scheduledSnipes = new Map<string, TimerHandle>();
 
 export async function startScheduler(): Promise<void> {
+  const now = getClock().now();
+
   // Load and schedule all pending snipes on startup
   const pending = await getPendingSnipes();
 
@@ -11,13 +27,52 @@ export async function startScheduler(): Promise<void> {
     const releaseTime = new Date(snipe.releaseTime).getTime();
 
     // Skip snipes whose release time has passed
-    if (releaseTime < Date.now()) {
+    if (releaseTime < now) {
       await updateSnipeStatus(snipe.id, 'failed', 'Missed release time (server was not running)');
       continue;
     }
 
     scheduleSnipeJob(snipe);
   }
+
+  // Snipes that were mid-run when the server stopped resume if their poll window is still open
+  const interrupted = await listSnipes('running');
+
+  for (const snipe of interrupted) {
+    const releaseTime = new Date(snipe.releaseTime).getTime();
+
+    if (releaseTime + MAX_POLL_DURATION_MS < now) {
+      await updateSnipeStatus(snipe.id, 'failed', 'Interrupted by a server restart before a slot was found');
+      continue;
+    }
+
+    scheduleSnipeJob(snipe);
+  }
+
+  // Campaigns can still run (or resume) as long as their last option's window is open
+  const pendingCampaigns = [...await getPendingCampaigns(), ...await listCampaigns('running')];
+
+  for (const campaign of pendingCampaigns) {
+    const lastRelease = Math.max(...campaign.options.map((o) => new Date(o.releaseTime).getTime()));
+
+    if (lastRelease + MAX_POLL_DURATION_MS < now) {
+      await updateCampaign(campaign.id, {
+        status: 'failed',
+        options: campaign.options,
+        result: 'Missed release time (server was not running)',
+      });
+      continue;
+    }
+
+    scheduleCampaignJob(campaign);
+  }
+
+  // Watches resume right away; checkWatch expires any whose range has passed
+  const activeWatches = await getActiveWatches();
+
+  for (const watch of activeWatches) {
+    scheduleWatchJob(watch);
+  }
 }
 
 export function scheduleSnipeJob(config: SnipeConfig): void {
@@ -31,13 +86,47 @@ export function scheduleSnipeJob(config: SnipeConfig): void {
 export function cancelSnipeJob(snipeId: string): boolean {
   const timeout = scheduledSnipes.get(snipeId);
   if (timeout) {
-    clearTimeout(timeout);
+    getClock().clearTimer(timeout);
     scheduledSnipes.delete(snipeId);
     return true;
   }
   return false;
 }
 
+export function scheduleCampaignJob(campaign: SnipeCampaign): void {
+  cancelSnipeJob(campaign.id);
+
+  const timeout = scheduleCampaign(campaign);
+  scheduledSnipes.set(campaign.id, timeout);
+}
+
+/**
+ * Schedule the next check of a watch. Each check re-arms the timer with the
+ * delay it returns until the watch books, expires or is cancelled.
+ */
+export function scheduleWatchJob(watch: AvailabilityWatch, delayMinutes = 0): void {
+  cancelSnipeJob(watch.id);
+
+  const timeout = getClock().setTimer(async () => {
+    scheduledSnipes.delete(watch.id);
+
+    let nextDelay: number | null;
+    try {
+      nextDelay = await checkWatch(watch, delayMinutes);
+    } catch (error) {
+      // A failed pass (e.g. the store couldn't be written) shouldn't end the watch
+      console.error(`Watch ${watch.id} error:`, error instanceof Error ? error.message : error);
+      nextDelay = Math.max(watch.intervalMinutes, delayMinutes);
+    }
+
+    if (nextDelay !== null) {
+      scheduleWatchJob(watch, nextDelay);
+    }
+  }, delayMinutes * 60 * 1000);
+
+  scheduledSnipes.set(watch.id, timeout);
+}
+
 export function isSnipeScheduled(snipeId: string): boolean {
   return scheduledSnipes.has(snipeId);
 }
@@ -52,7 +141,7 @@ export async function getSnipeStatus(snipeId: string): Promise<SnipeConfig | nul
 
 export function stopScheduler(): void {
   for (const [id, timeout] of scheduledSnipes) {
-    clearTimeout(timeout);
+    getClock().clearTimer(timeout);
     scheduledSnipes.delete(id);
   }
 }
@@ -2,6 +2,14 @@ import initSqlJs, { Database } from 'sql.js';
 import { promises as fs } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
+import type { SlotPreferences } from '../services/slot-preferences.js';
+import type { ConflictOptions } from '../services/conflicts.js';
+
+// Hard limits on top of a snipe's preferred times
+export type SnipePreferences = Pick<SlotPreferences, 'earliest' | 'latest' | 'excludedTypes' | 'maxDepositFee' | 'maxCancellationFee'>;
+
+// Double-booking override and window for the booking a snipe makes
+export type SnipeConflictGuard = Pick<ConflictOptions, 'allowConflicts' | 'windowMinutes'>;
 
 export interface SnipeConfig {
   id: string;
@@ -10,12 +18,81 @@ export interface SnipeConfig {
   date: string;
   partySize: number;
   preferredTimes: string[];
+  preferences?: SnipePreferences;
+  conflictGuard?: SnipeConflictGuard;
   releaseTime: string;
   status: 'pending' | 'running' | 'success' | 'failed' | 'cancelled';
   createdAt: string;
   result?: string;
 }
 
+export interface CampaignOption {
+  restaurantId: string;
+  platform: 'resy' | 'opentable';
+  date: string;
+  partySize: number;
+  preferredTimes: string[];
+  preferences?: SnipePreferences;
+  conflictGuard?: SnipeConflictGuard;
+  releaseTime: string;
+  status: 'pending' | 'booked' | 'skipped' | 'failed';
+  result?: string;
+}
+
+export interface SnipeCampaign {
+  id: string;
+  name: string;
+  options: CampaignOption[]; // In order of preference, best first
+  status: SnipeConfig['status'];
+  createdAt: string;
+  bookedOption?: number;
+  result?: string;
+}
+
+export interface AvailabilityWatch {
+  id: string;
+  restaurantId: string;
+  platform: 'resy' | 'opentable';
+  startDate: string;
+  endDate: string;
+  daysOfWeek: number[]; // 0 = Sunday; empty means every day
+  earliestTime: string;
+  latestTime: string;
+  partySize: number;
+  intervalMinutes: number;
+  autoBook: boolean;
+  status: 'active' | 'success' | 'expired' | 'cancelled';
+  createdAt: string;
+  lastCheckedAt?: string;
+  result?: string;
+}
+
+export interface NotifyEntry {
+  id: string;
+  restaurantId: string;          // Prefixed, e.g. "resy-12345"
+  platform: string;
+  restaurantName?: string;
+  date: string;
+  partySize: number;
+  earliestTime: string;          // HH:MM, venue-local
+  latestTime: string;
+  platformNotifyId: string;      // The platform's ID for the request, used to leave it
+  watchId?: string;              // Watch that books a hit, when auto-booking
+  status: 'active' | 'booked' | 'expired' | 'removed';
+  createdAt: string;
+  result?: string;
+}
+
+export interface ReleasePolicy {
+  restaurantId: string;
+  platform: 'resy' | 'opentable';
+  daysAhead: number;
+  releaseTime?: string; // HH:MM in the venue's time zone; unknown when only the booking window was learned
+  timeZone: string;
+  source: 'configured' | 'learned';
+  updatedAt: string;
+}
+
 const DB_DIR = join(homedir(), '.restaurant-mcp');
 const DB_PATH = join(DB_DIR, 'snipes.db');
 
@@ -53,6 +130,81 @@ async function ensureDb(): Promise<Database> {
         )
       `);
 
+      // Added after the first release; older databases need the column
+      try {
+        db.run('ALTER TABLE snipes ADD COLUMN preferences TEXT');
+      } catch {
+        // Column already exists
+      }
+      try {
+        db.run('ALTER TABLE snipes ADD COLUMN conflict_guard TEXT');
+      } catch {
+        // Column already exists
+      }
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS campaigns (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          options TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          created_at TEXT NOT NULL,
+          booked_option INTEGER,
+          result TEXT
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS watches (
+          id TEXT PRIMARY KEY,
+          restaurant_id TEXT NOT NULL,
+          platform TEXT NOT NULL,
+          start_date TEXT NOT NULL,
+          end_date TEXT NOT NULL,
+          days_of_week TEXT NOT NULL,
+          earliest_time TEXT NOT NULL,
+          latest_time TEXT NOT NULL,
+          party_size INTEGER NOT NULL,
+          interval_minutes INTEGER NOT NULL,
+          auto_book INTEGER NOT NULL,
+          status TEXT NOT NULL DEFAULT 'active',
+          created_at TEXT NOT NULL,
+          last_checked_at TEXT,
+          result TEXT
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS notifies (
+          id TEXT PRIMARY KEY,
+          restaurant_id TEXT NOT NULL,
+          platform TEXT NOT NULL,
+          restaurant_name TEXT,
+          date TEXT NOT NULL,
+          party_size INTEGER NOT NULL,
+          earliest_time TEXT NOT NULL,
+          latest_time TEXT NOT NULL,
+          platform_notify_id TEXT NOT NULL,
+          watch_id TEXT,
+          status TEXT NOT NULL DEFAULT 'active',
+          created_at TEXT NOT NULL,
+          result TEXT
+        )
+      `);
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS release_policies (
+          restaurant_id TEXT NOT NULL,
+          platform TEXT NOT NULL,
+          days_ahead INTEGER NOT NULL,
+          release_time TEXT NOT NULL,
+          time_zone TEXT NOT NULL,
+          source TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (platform, restaurant_id)
+        )
+      `);
+
       await saveDb();
     })();
   }
@@ -74,10 +226,12 @@ export async function createSnipe(config: Omit<SnipeConfig, 'id' | 'createdAt' |
   const createdAt = new Date().toISOString();
 
   database.run(
-    `INSERT INTO snipes (id, restaurant_id, platform, date, party_size, preferred_times, release_time, status, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+    `INSERT INTO snipes (id, restaurant_id, platform, date, party_size, preferred_times, preferences, conflict_guard, release_time, status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
     [id, config.restaurantId, config.platform, config.date, config.partySize,
-     JSON.stringify(config.preferredTimes), config.releaseTime, createdAt]
+     JSON.stringify(config.preferredTimes), config.preferences ? JSON.stringify(config.preferences) : null,
+     config.conflictGuard ? JSON.stringify(config.conflictGuard) : null,
+     config.releaseTime, createdAt]
   );
 
   await saveDb();
@@ -107,6 +261,8 @@ export async function getSnipe(id: string): Promise<SnipeConfig | null> {
     date: string;
     party_size: number;
     preferred_times: string;
+    preferences: string | null;
+    conflict_guard: string | null;
     release_time: string;
     status: string;
     created_at: string;
@@ -121,6 +277,8 @@ export async function getSnipe(id: string): Promise<SnipeConfig | null> {
     date: row.date,
     partySize: row.party_size,
     preferredTimes: JSON.parse(row.preferred_times),
+    preferences: row.preferences ? JSON.parse(row.preferences) : undefined,
+    conflictGuard: row.conflict_guard ? JSON.parse(row.conflict_guard) : undefined,
     releaseTime: row.release_time,
     status: row.status as SnipeConfig['status'],
     createdAt: row.created_at,
@@ -153,6 +311,8 @@ export async function listSnipes(status?: SnipeConfig['status']): Promise<SnipeC
       date: string;
       party_size: number;
       preferred_times: string;
+      preferences: string | null;
+      conflict_guard: string | null;
       release_time: string;
       status: string;
       created_at: string;
@@ -166,6 +326,8 @@ export async function listSnipes(status?: SnipeConfig['status']): Promise<SnipeC
       date: row.date,
       partySize: row.party_size,
       preferredTimes: JSON.parse(row.preferred_times),
+      preferences: row.preferences ? JSON.parse(row.preferences) : undefined,
+      conflictGuard: row.conflict_guard ? JSON.parse(row.conflict_guard) : undefined,
       releaseTime: row.release_time,
       status: row.status as SnipeConfig['status'],
       createdAt: row.created_at,
@@ -201,6 +363,402 @@ export async function getPendingSnipes(): Promise<SnipeConfig[]> {
   return listSnipes('pending');
 }
 
+interface CampaignRow {
+  id: string;
+  name: string;
+  options: string;
+  status: string;
+  created_at: string;
+  booked_option: number | null;
+  result: string | null;
+}
+
+function rowToCampaign(row: CampaignRow): SnipeCampaign {
+  return {
+    id: row.id,
+    name: row.name,
+    options: JSON.parse(row.options),
+    status: row.status as SnipeCampaign['status'],
+    createdAt: row.created_at,
+    bookedOption: row.booked_option ?? undefined,
+    result: row.result || undefined,
+  };
+}
+
+export async function createCampaign(
+  name: string,
+  options: Array<Omit<CampaignOption, 'status' | 'result'>>
+): Promise<SnipeCampaign> {
+  const database = await ensureDb();
+  const id = `campaign-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const createdAt = new Date().toISOString();
+  const campaignOptions: CampaignOption[] = options.map((o) => ({ ...o, status: 'pending' }));
+
+  database.run(
+    `INSERT INTO campaigns (id, name, options, status, created_at)
+     VALUES (?, ?, ?, 'pending', ?)`,
+    [id, name, JSON.stringify(campaignOptions), createdAt]
+  );
+
+  await saveDb();
+
+  return {
+    id,
+    name,
+    options: campaignOptions,
+    status: 'pending',
+    createdAt,
+  };
+}
+
+export async function getCampaign(id: string): Promise<SnipeCampaign | null> {
+  const database = await ensureDb();
+  const stmt = database.prepare('SELECT * FROM campaigns WHERE id = ?');
+  stmt.bind([id]);
+
+  if (!stmt.step()) {
+    stmt.free();
+    return null;
+  }
+
+  const row = stmt.getAsObject() as unknown as CampaignRow;
+  stmt.free();
+
+  return rowToCampaign(row);
+}
+
+export async function listCampaigns(status?: SnipeCampaign['status']): Promise<SnipeCampaign[]> {
+  const database = await ensureDb();
+
+  let query = 'SELECT * FROM campaigns';
+  const params: string[] = [];
+
+  if (status) {
+    query += ' WHERE status = ?';
+    params.push(status);
+  }
+
+  query += ' ORDER BY created_at ASC';
+
+  const results: SnipeCampaign[] = [];
+  const stmt = database.prepare(query);
+  if (params.length) stmt.bind(params);
+
+  while (stmt.step()) {
+    results.push(rowToCampaign(stmt.getAsObject() as unknown as CampaignRow));
+  }
+
+  stmt.free();
+  return results;
+}
+
+export async function updateCampaign(
+  id: string,
+  update: Pick<SnipeCampaign, 'status' | 'options'> & Partial<Pick<SnipeCampaign, 'bookedOption' | 'result'>>
+): Promise<void> {
+  const database = await ensureDb();
+  database.run(
+    'UPDATE campaigns SET status = ?, options = ?, booked_option = ?, result = ? WHERE id = ?',
+    [update.status, JSON.stringify(update.options), update.bookedOption ?? null, update.result || null, id]
+  );
+  await saveDb();
+}
+
+export async function getPendingCampaigns(): Promise<SnipeCampaign[]> {
+  return listCampaigns('pending');
+}
+
+interface WatchRow {
+  id: string;
+  restaurant_id: string;
+  platform: string;
+  start_date: string;
+  end_date: string;
+  days_of_week: string;
+  earliest_time: string;
+  latest_time: string;
+  party_size: number;
+  interval_minutes: number;
+  auto_book: number;
+  status: string;
+  created_at: string;
+  last_checked_at: string | null;
+  result: string | null;
+}
+
+function rowToWatch(row: WatchRow): AvailabilityWatch {
+  return {
+    id: row.id,
+    restaurantId: row.restaurant_id,
+    platform: row.platform as 'resy' | 'opentable',
+    startDate: row.start_date,
+    endDate: row.end_date,
+    daysOfWeek: JSON.parse(row.days_of_week),
+    earliestTime: row.earliest_time,
+    latestTime: row.latest_time,
+    partySize: row.party_size,
+    intervalMinutes: row.interval_minutes,
+    autoBook: row.auto_book === 1,
+    status: row.status as AvailabilityWatch['status'],
+    createdAt: row.created_at,
+    lastCheckedAt: row.last_checked_at || undefined,
+    result: row.result || undefined,
+  };
+}
+
+export async function createWatch(
+  config: Omit<AvailabilityWatch, 'id' | 'createdAt' | 'status' | 'lastCheckedAt' | 'result'>
+): Promise<AvailabilityWatch> {
+  const database = await ensureDb();
+  const id = `watch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const createdAt = new Date().toISOString();
+
+  database.run(
+    `INSERT INTO watches (id, restaurant_id, platform, start_date, end_date, days_of_week, earliest_time,
+       latest_time, party_size, interval_minutes, auto_book, status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?)`,
+    [id, config.restaurantId, config.platform, config.startDate, config.endDate,
+     JSON.stringify(config.daysOfWeek), config.earliestTime, config.latestTime, config.partySize,
+     config.intervalMinutes, config.autoBook ? 1 : 0, createdAt]
+  );
+
+  await saveDb();
+
+  return {
+    id,
+    ...config,
+    status: 'active',
+    createdAt,
+  };
+}
+
+export async function getWatch(id: string): Promise<AvailabilityWatch | null> {
+  const database = await ensureDb();
+  const stmt = database.prepare('SELECT * FROM watches WHERE id = ?');
+  stmt.bind([id]);
+
+  if (!stmt.step()) {
+    stmt.free();
+    return null;
+  }
+
+  const row = stmt.getAsObject() as unknown as WatchRow;
+  stmt.free();
+
+  return rowToWatch(row);
+}
+
+export async function listWatches(status?: AvailabilityWatch['status']): Promise<AvailabilityWatch[]> {
+  const database = await ensureDb();
+
+  let query = 'SELECT * FROM watches';
+  const params: string[] = [];
+
+  if (status) {
+    query += ' WHERE status = ?';
+    params.push(status);
+  }
+
+  query += ' ORDER BY start_date ASC';
+
+  const results: AvailabilityWatch[] = [];
+  const stmt = database.prepare(query);
+  if (params.length) stmt.bind(params);
+
+  while (stmt.step()) {
+    results.push(rowToWatch(stmt.getAsObject() as unknown as WatchRow));
+  }
+
+  stmt.free();
+  return results;
+}
+
+export async function updateWatchStatus(
+  id: string,
+  status: AvailabilityWatch['status'],
+  result?: string
+): Promise<void> {
+  const database = await ensureDb();
+  database.run(
+    'UPDATE watches SET status = ?, result = ? WHERE id = ?',
+    [status, result || null, id]
+  );
+  await saveDb();
+}
+
+export async function markWatchChecked(id: string, checkedAt: string): Promise<void> {
+  const database = await ensureDb();
+  database.run('UPDATE watches SET last_checked_at = ? WHERE id = ?', [checkedAt, id]);
+  await saveDb();
+}
+
+export async function getActiveWatches(): Promise<AvailabilityWatch[]> {
+  return listWatches('active');
+}
+
+interface NotifyRow {
+  id: string;
+  restaurant_id: string;
+  platform: string;
+  restaurant_name: string | null;
+  date: string;
+  party_size: number;
+  earliest_time: string;
+  latest_time: string;
+  platform_notify_id: string;
+  watch_id: string | null;
+  status: string;
+  created_at: string;
+  result: string | null;
+}
+
+function rowToNotify(row: NotifyRow): NotifyEntry {
+  return {
+    id: row.id,
+    restaurantId: row.restaurant_id,
+    platform: row.platform,
+    restaurantName: row.restaurant_name || undefined,
+    date: row.date,
+    partySize: row.party_size,
+    earliestTime: row.earliest_time,
+    latestTime: row.latest_time,
+    platformNotifyId: row.platform_notify_id,
+    watchId: row.watch_id || undefined,
+    status: row.status as NotifyEntry['status'],
+    createdAt: row.created_at,
+    result: row.result || undefined,
+  };
+}
+
+export async function createNotify(
+  config: Omit<NotifyEntry, 'id' | 'createdAt' | 'status' | 'result'>
+): Promise<NotifyEntry> {
+  const database = await ensureDb();
+  const id = `notify-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const createdAt = new Date().toISOString();
+
+  database.run(
+    `INSERT INTO notifies (id, restaurant_id, platform, restaurant_name, date, party_size, earliest_time,
+       latest_time, platform_notify_id, watch_id, status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?)`,
+    [id, config.restaurantId, config.platform, config.restaurantName ?? null, config.date, config.partySize,
+     config.earliestTime, config.latestTime, config.platformNotifyId, config.watchId ?? null, createdAt]
+  );
+
+  await saveDb();
+
+  return {
+    id,
+    ...config,
+    status: 'active',
+    createdAt,
+  };
+}
+
+export async function getNotify(id: string): Promise<NotifyEntry | null> {
+  const database = await ensureDb();
+  const stmt = database.prepare('SELECT * FROM notifies WHERE id = ?');
+  stmt.bind([id]);
+
+  if (!stmt.step()) {
+    stmt.free();
+    return null;
+  }
+
+  const row = stmt.getAsObject() as unknown as NotifyRow;
+  stmt.free();
+
+  return rowToNotify(row);
+}
+
+export async function listNotifies(status?: NotifyEntry['status']): Promise<NotifyEntry[]> {
+  const database = await ensureDb();
+
+  let query = 'SELECT * FROM notifies';
+  const params: string[] = [];
+
+  if (status) {
+    query += ' WHERE status = ?';
+    params.push(status);
+  }
+
+  query += ' ORDER BY date ASC, earliest_time ASC';
+
+  const results: NotifyEntry[] = [];
+  const stmt = database.prepare(query);
+  if (params.length) stmt.bind(params);
+
+  while (stmt.step()) {
+    results.push(rowToNotify(stmt.getAsObject() as unknown as NotifyRow));
+  }
+
+  stmt.free();
+  return results;
+}
+
+export async function updateNotifyStatus(
+  id: string,
+  status: NotifyEntry['status'],
+  result?: string
+): Promise<void> {
+  const database = await ensureDb();
+  database.run(
+    'UPDATE notifies SET status = ?, result = ? WHERE id = ?',
+    [status, result || null, id]
+  );
+  await saveDb();
+}
+
+export async function getReleasePolicy(
+  platform: ReleasePolicy['platform'],
+  restaurantId: string
+): Promise<ReleasePolicy | null> {
+  const database = await ensureDb();
+  const stmt = database.prepare('SELECT * FROM release_policies WHERE platform = ? AND restaurant_id = ?');
+  stmt.bind([platform, restaurantId]);
+
+  if (!stmt.step()) {
+    stmt.free();
+    return null;
+  }
+
+  const row = stmt.getAsObject() as {
+    restaurant_id: string;
+    platform: string;
+    days_ahead: number;
+    release_time: string;
+    time_zone: string;
+    source: string;
+    updated_at: string;
+  };
+  stmt.free();
+
+  return {
+    restaurantId: row.restaurant_id,
+    platform: row.platform as ReleasePolicy['platform'],
+    daysAhead: row.days_ahead,
+    releaseTime: row.release_time || undefined,
+    timeZone: row.time_zone,
+    source: row.source as ReleasePolicy['source'],
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function saveReleasePolicy(policy: Omit<ReleasePolicy, 'updatedAt'>): Promise<ReleasePolicy> {
+  const database = await ensureDb();
+  const updatedAt = new Date().toISOString();
+
+  database.run(
+    `INSERT OR REPLACE INTO release_policies (restaurant_id, platform, days_ahead, release_time, time_zone, source, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [policy.restaurantId, policy.platform, policy.daysAhead, policy.releaseTime ?? '', policy.timeZone, policy.source, updatedAt]
+  );
+
+  await saveDb();
+
+  return { ...policy, updatedAt };
+}
+
 export async function closeDb(): Promise<void> {
   if (db) {
     await saveDb();
@@ -0,0 +1,184 @@
+import { resyClient, bookingFees } from '../resy/client.js';
+import { openTableClient } from '../opentable/client.js';
+import { rateLimiter } from '../services/rate-limiter.js';
+import { addDays, dayOfWeek, todayIn, toVenueLocalTime } from '../utils/time.js';
+import { chooseSlot, rankSlots, withFeeLimits, type SlotPreferences } from '../services/slot-preferences.js';
+import { recordBooking } from '../services/ledger.js';
+import { checkFees } from '../services/fee-policy.js';
+import { assertNoConflicts } from '../services/conflicts.js';
+import { ErrorCode, ReservationError } from '../types/restaurant.js';
+import { getWatch, markWatchChecked, updateWatchStatus, type AvailabilityWatch } from './store.js';
+import { getClock } from './clock.js';
+
+const MAX_BACKOFF_MINUTES = 60;
+
+// Where the next pass of a watch picks up after one was cut short, so the
+// first dates of a long range can't starve the rest under a tight rate limit
+const resumeFrom = new Map<string, string>();
+
+interface WatchHit {
+  date: string;
+  time: string;
+  timeZone?: string;
+  slotId: string;
+  bookingUrl?: string;
+}
+
+/**
+ * Dates still worth checking: within the watch range, not in the past,
+ * and on one of the requested weekdays.
+ */
+export function getWatchDates(watch: AvailabilityWatch, today = todayIn(undefined, new Date(getClock().now()))): string[] {
+  const dates: string[] = [];
+  let date = watch.startDate > today ? watch.startDate : today;
+
+  while (date <= watch.endDate) {
+    if (watch.daysOfWeek.length === 0 || watch.daysOfWeek.includes(dayOfWeek(date))) {
+      dates.push(date);
+    }
+    date = addDays(date, 1);
+  }
+
+  return dates;
+}
+
+/**
+ * The watch dates in checking order: from the resume point to the end, then wrapping around
+ */
+function rotateDates(dates: string[], from?: string): string[] {
+  const start = from ? dates.findIndex((d) => d >= from) : -1;
+  return start > 0 ? [...dates.slice(start), ...dates.slice(0, start)] : dates;
+}
+
+function watchPreferences(watch: AvailabilityWatch): SlotPreferences {
+  return { earliest: watch.earliestTime, latest: watch.latestTime };
+}
+
+/**
+ * Matching slots on a date, best first. An auto-booking Resy watch gets every
+ * slot within the booking fee limits, so a slot whose quote turns out to be
+ * over them can give way to the next; otherwise only the best slot is reported.
+ */
+async function findHits(watch: AvailabilityWatch, date: string): Promise<WatchHit[]> {
+  if (watch.platform === 'resy') {
+    const slots = await resyClient.getAvailability(parseInt(watch.restaurantId, 10), date, watch.partySize);
+    if (watch.autoBook) {
+      return rankSlots(slots, withFeeLimits(watchPreferences(watch)))
+        .filter((r) => r.eligible)
+        .map(({ slot }) => ({ date, time: slot.time, timeZone: slot.timeZone, slotId: slot.slotId }));
+    }
+    const { selected: slot } = chooseSlot(slots, watchPreferences(watch));
+    return slot ? [{ date, time: slot.time, timeZone: slot.timeZone, slotId: slot.slotId }] : [];
+  }
+
+  const slots = await openTableClient.getAvailability(parseInt(watch.restaurantId, 10), date, watch.partySize);
+  const { selected: slot } = chooseSlot(slots, watchPreferences(watch));
+  return slot ? [{ date, time: slot.time, slotId: slot.slotId, bookingUrl: slot.bookingUrl }] : [];
+}
+
+/**
+ * Report or book a hit. Returns null if the slot's quoted fees are over the
+ * limits, leaving the watch to try the next slot or keep watching.
+ */
+async function bookHit(watch: AvailabilityWatch, hit: WatchHit): Promise<string | null> {
+  const attempt = {
+    platform: watch.platform,
+    restaurantId: `${watch.platform}-${watch.restaurantId}`,
+    date: hit.date,
+    time: toVenueLocalTime(hit.time, hit.timeZone)?.time,
+    partySize: watch.partySize,
+    slotId: hit.slotId,
+    source: 'watch' as const,
+  };
+
+  if (watch.platform !== 'resy' || !watch.autoBook) {
+    if (hit.bookingUrl) {
+      await recordBooking({ ...attempt, bookingUrl: hit.bookingUrl, status: 'handoff' });
+    }
+    const link = hit.bookingUrl ? ` Complete booking at: ${hit.bookingUrl}` : '';
+    return `Slot found on ${hit.date} at ${hit.time}.${link}`;
+  }
+
+  // Same double-booking guard as snipes and direct bookings
+  await assertNoConflicts({ date: hit.date, time: hit.time, timeZone: hit.timeZone });
+
+  let result: Awaited<ReturnType<typeof resyClient.makeReservation>>;
+  try {
+    const details = await resyClient.getBookingDetails(hit.slotId, hit.date, watch.partySize);
+    const feeError = checkFees(bookingFees(details));
+    if (feeError) {
+      console.error(`Watch ${watch.id} skipped the ${hit.date} slot at ${hit.time}: ${feeError}`);
+      return null;
+    }
+    result = await resyClient.makeReservation(details.book_token.value);
+  } catch (error) {
+    await recordBooking({ ...attempt, status: 'failed', error: error instanceof Error ? error.message : 'Booking failed' });
+    throw error;
+  }
+
+  await recordBooking({ ...attempt, status: 'confirmed', confirmationId: result.resy_token });
+
+  return `Successfully booked! Reservation ID: ${result.reservation_id}, Date: ${hit.date}, Time: ${hit.time}`;
+}
+
+/**
+ * Run one pass over every candidate date of a watch.
+ * Returns the delay in minutes before the next pass should run,
+ * or null if the watch is finished.
+ */
+export async function checkWatch(watch: AvailabilityWatch, previousDelayMinutes = 0): Promise<number | null> {
+  const current = await getWatch(watch.id);
+  if (!current || current.status !== 'active') {
+    resumeFrom.delete(watch.id);
+    return null;
+  }
+
+  const dates = rotateDates(getWatchDates(watch), resumeFrom.get(watch.id));
+  if (dates.length === 0) {
+    resumeFrom.delete(watch.id);
+    await updateWatchStatus(watch.id, 'expired', 'No dates left in the watch range');
+    return null;
+  }
+
+  for (let i = 0; i < dates.length; i++) {
+    const date = dates[i];
+
+    // Back off instead of queueing when the platform budget is spent,
+    // so a long-running watch never starves interactive requests
+    if (!rateLimiter.tryAcquire(watch.platform)) {
+      resumeFrom.set(watch.id, date);
+      return Math.min(MAX_BACKOFF_MINUTES, Math.max(watch.intervalMinutes, previousDelayMinutes * 2));
+    }
+
+    try {
+      for (const hit of await findHits(watch, date)) {
+        const result = await bookHit(watch, hit);
+        if (!result) continue;
+
+        resumeFrom.delete(watch.id);
+        await updateWatchStatus(watch.id, 'success', result);
+        return null;
+      }
+    } catch (error) {
+      // That evening is already booked; the other dates are still worth a look
+      if (error instanceof ReservationError && error.code === ErrorCode.BOOKING_CONFLICT) {
+        console.error(`Watch ${watch.id} skipped ${date}:`, error.message);
+        continue;
+      }
+
+      console.error(`Watch ${watch.id} error:`, error instanceof Error ? error.message : error);
+      // Move past the failing date so it can't block the ones after it
+      if (i + 1 < dates.length) {
+        resumeFrom.set(watch.id, dates[i + 1]);
+      } else {
+        resumeFrom.delete(watch.id);
+      }
+      await markWatchChecked(watch.id, new Date(getClock().now()).toISOString());
+      return Math.min(MAX_BACKOFF_MINUTES, Math.max(watch.intervalMinutes, previousDelayMinutes * 2));
+    }
+  }
+
+  resumeFrom.delete(watch.id);
+  await markWatchChecked(watch.id, new Date(getClock().now()).toISOString());
+  return watch.intervalMinutes;
+}
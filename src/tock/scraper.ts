@@ -0,0 +1,330 @@
+/**
+ * Tock web scraper
+ *
+ * Tock has no public API. Venue and search pages embed their Redux state
+ * (window.$REDUX_STATE) with the business and its experiences; availability
+ * comes from the calendar endpoint the booking widget calls. Unlike Resy and
+ * OpenTable, every slot belongs to an experience with its own (often prepaid)
+ * per-person price.
+ *
+ * Fetching sits behind TockPageSource so recorded fixture pages can stand in
+ * for the live site: set TOCK_FIXTURE_DIR (e.g. fixtures/tock) to run offline.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type {
+  TockBusiness,
+  TockCalendarPayload,
+  TockOffering,
+  TockSearchState,
+  TockVenueState,
+} from './types.js';
+import type {
+  Experience,
+  PriceRange,
+  Restaurant,
+  RestaurantDetails,
+  SearchQuery,
+  TimeSlot,
+} from '../types/restaurant.js';
+import { extractEmbeddedState } from '../utils/embedded-state.js';
+
+const WEB_BASE = process.env.TOCK_BASE_URL || 'https://www.exploretock.com';
+const BOOKING_BASE = 'https://www.exploretock.com';
+const STATE_MARKER = '$REDUX_STATE';
+
+/**
+ * Where raw Tock pages come from: the live site or recorded fixtures
+ */
+export interface TockPageSource {
+  fetchSearchPage(query: string, location: string): Promise<string>;
+  fetchVenuePage(slug: string): Promise<string>;
+  fetchCalendar(slug: string, businessId: number, date: string, partySize: number): Promise<TockCalendarPayload>;
+}
+
+/**
+ * What the Tock client needs from a data source, already in unified types
+ */
+export interface TockAdapter {
+  search(query: SearchQuery): Promise<Restaurant[]>;
+  getDetails(slug: string): Promise<RestaurantDetails | null>;
+  getAvailability(slug: string, date: string, partySize: number): Promise<TimeSlot[]>;
+}
+
+export interface TockBookingUrlOptions {
+  time?: string;                 // HH:MM
+  experienceId?: string;
+  experienceName?: string;
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Deep link into Tock's booking flow, down to the experience and time when known
+ */
+export function buildTockBookingUrl(slug: string, date: string, partySize: number, options: TockBookingUrlOptions = {}): string {
+  const params = new URLSearchParams({ date, size: String(partySize) });
+  if (options.time) params.set('time', options.time);
+
+  const experiencePath = options.experienceId
+    ? `/experience/${options.experienceId}${options.experienceName ? `/${slugify(options.experienceName)}` : ''}`
+    : '';
+
+  return `${BOOKING_BASE}/${slug}${experiencePath}?${params.toString()}`;
+}
+
+function toPriceRange(priceRange?: number): PriceRange {
+  return Math.min(4, Math.max(1, priceRange || 3)) as PriceRange;
+}
+
+function splitCuisines(cuisines?: string): string[] {
+  return (cuisines || '').split(',').map((c) => c.trim()).filter(Boolean);
+}
+
+function toExperience(slug: string, offering: TockOffering): Experience {
+  return {
+    id: String(offering.id),
+    name: offering.name,
+    description: offering.description,
+    price: offering.priceCents !== undefined ? offering.priceCents / 100 : undefined,
+    prepaid: offering.isPrepaid ?? true,
+    bookingUrl: `${BOOKING_BASE}/${slug}/experience/${offering.id}/${slugify(offering.name)}`,
+  };
+}
+
+function mapToRestaurant(b: TockBusiness): Restaurant {
+  const cuisines = splitCuisines(b.cuisines);
+
+  return {
+    id: `tock-${b.domainName}`,
+    platform: 'tock',
+    platformId: b.domainName,
+    name: b.name,
+    location: b.city || '',
+    neighborhood: b.neighborhood,
+    cuisine: cuisines[0] || '',
+    cuisines: cuisines.length > 0 ? cuisines : undefined,
+    priceRange: toPriceRange(b.priceRange),
+    rating: 0,                   // Tock doesn't publish ratings
+    imageUrl: b.imageUrl,
+    coordinates: b.latitude !== undefined && b.longitude !== undefined
+      ? { lat: b.latitude, lng: b.longitude }
+      : undefined,
+  };
+}
+
+/**
+ * Businesses listed in a search page's embedded state
+ */
+export function parseSearchResults(state: TockSearchState | null): Restaurant[] {
+  return (state?.search?.results || [])
+    .map((r) => r.business)
+    .filter((b): b is TockBusiness => !!b?.domainName && !!b.name)
+    .map(mapToRestaurant);
+}
+
+/**
+ * Restaurant details, including bookable experiences, from a venue page's embedded state
+ */
+export function parseVenueDetails(state: TockVenueState | null): RestaurantDetails | null {
+  const b = state?.app?.config?.business;
+  if (!b?.domainName || !b.name) return null;
+
+  const experiences = (state?.calendar?.offerings?.experience || [])
+    .filter((o) => !o.type || o.type === 'EXPERIENCE')
+    .map((o) => toExperience(b.domainName, o));
+
+  return {
+    id: `tock-${b.domainName}`,
+    platformIds: { tock: b.domainName },
+    name: b.name,
+    description: b.description,
+    cuisines: splitCuisines(b.cuisines),
+    priceRange: toPriceRange(b.priceRange),
+    rating: 0,
+    reviewCount: 0,
+    address: {
+      street: b.address || '',
+      city: b.city || '',
+      state: b.state || '',
+      zip: b.zipCode || '',
+      neighborhood: b.neighborhood,
+      coordinates: b.latitude !== undefined && b.longitude !== undefined
+        ? { lat: b.latitude, lng: b.longitude }
+        : undefined,
+    },
+    phone: b.phone,
+    website: b.webUrl,
+    acceptsOnlineReservations: true,
+    reservationPlatforms: ['tock'],
+    bookingUrls: {
+      tock: `${BOOKING_BASE}/${b.domainName}`,
+    },
+    experiences,
+    images: b.imageUrl ? [b.imageUrl] : [],
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Bookable slots for a date: one per experience and time with enough tickets for the party
+ */
+export function parseCalendar(
+  payload: TockCalendarPayload,
+  venue: TockVenueState | null,
+  date: string,
+  partySize: number
+): TimeSlot[] {
+  const business = venue?.app?.config?.business;
+  if (!business?.domainName) return [];
+
+  const offerings = new Map(
+    (venue?.calendar?.offerings?.experience || []).map((o) => [o.id, o])
+  );
+
+  return (payload.result?.ticketGroup || [])
+    .filter((g) =>
+      g.date === date &&
+      g.availableTickets >= partySize &&
+      (g.minPurchaseSize === undefined || partySize >= g.minPurchaseSize) &&
+      (g.maxPurchaseSize === undefined || partySize <= g.maxPurchaseSize))
+    .map((g) => {
+      const offering = offerings.get(g.experienceId);
+      const experienceId = String(g.experienceId);
+      const experienceName = offering?.name || `Experience ${experienceId}`;
+      const priceCents = g.priceCents ?? offering?.priceCents;
+
+      return {
+        slotId: `tock-${experienceId}-${date}-${g.time}`,
+        platform: 'tock' as const,
+        time: g.time,
+        type: experienceName,
+        experienceId,
+        experienceName,
+        price: priceCents !== undefined ? priceCents / 100 : undefined,
+        prepaid: offering?.isPrepaid ?? true,
+        bookingUrl: buildTockBookingUrl(business.domainName, date, partySize, { time: g.time, experienceId, experienceName }),
+        timeZone: business.timeZone,
+      };
+    })
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Fetches pages from exploretock.com
+ */
+export class WebPageSource implements TockPageSource {
+  private client: AxiosInstance;
+
+  constructor(baseUrl = WEB_BASE) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: 15000,
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/json',
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/144.0.0.0 Safari/537.36',
+      },
+    });
+  }
+
+  async fetchSearchPage(query: string, location: string): Promise<string> {
+    const response = await this.client.get<string>(`/city/${slugify(location || 'new york')}/search`, {
+      params: { query },
+      responseType: 'text',
+    });
+    return response.data;
+  }
+
+  async fetchVenuePage(slug: string): Promise<string> {
+    const response = await this.client.get<string>(`/${slug}`, { responseType: 'text' });
+    return response.data;
+  }
+
+  async fetchCalendar(slug: string, businessId: number, date: string, partySize: number): Promise<TockCalendarPayload> {
+    const response = await this.client.post<TockCalendarPayload>(
+      '/api/consumer/calendar/full/v2',
+      { startDate: date, endDate: date, partySize },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-tock-scope': JSON.stringify({ businessId, site: 'EXPLORETOCK' }),
+          'Referer': `${WEB_BASE}/${slug}`,
+        },
+      }
+    );
+    return response.data;
+  }
+}
+
+/**
+ * Serves recorded pages from a directory: search.html, venue-<slug>.html and
+ * calendar-<slug>.json, falling back to venue.html and calendar.json
+ */
+export class FixturePageSource implements TockPageSource {
+  constructor(private dir: string) {}
+
+  private async read(name: string, fallback: string): Promise<string> {
+    try {
+      return await readFile(join(this.dir, name), 'utf-8');
+    } catch {
+      return readFile(join(this.dir, fallback), 'utf-8');
+    }
+  }
+
+  fetchSearchPage(): Promise<string> {
+    return readFile(join(this.dir, 'search.html'), 'utf-8');
+  }
+
+  fetchVenuePage(slug: string): Promise<string> {
+    return this.read(`venue-${slug}.html`, 'venue.html');
+  }
+
+  async fetchCalendar(slug: string, _businessId: number, date: string): Promise<TockCalendarPayload> {
+    const payload = JSON.parse(await this.read(`calendar-${slug}.json`, 'calendar.json')) as TockCalendarPayload;
+
+    // Recordings are for a fixed day; move them to whatever date was asked for
+    const recordedDate = payload.result?.ticketGroup?.[0]?.date;
+    for (const group of payload.result?.ticketGroup || []) {
+      if (group.date === recordedDate) group.date = date;
+    }
+    return payload;
+  }
+}
+
+/**
+ * Adapter that parses Tock's web pages into unified types
+ */
+export class ScraperAdapter implements TockAdapter {
+  constructor(private source: TockPageSource) {}
+
+  async search(query: SearchQuery): Promise<Restaurant[]> {
+    const html = await this.source.fetchSearchPage(query.query, query.location);
+    return parseSearchResults(extractEmbeddedState<TockSearchState>(html, STATE_MARKER));
+  }
+
+  async getDetails(slug: string): Promise<RestaurantDetails | null> {
+    const html = await this.source.fetchVenuePage(slug);
+    return parseVenueDetails(extractEmbeddedState<TockVenueState>(html, STATE_MARKER));
+  }
+
+  async getAvailability(slug: string, date: string, partySize: number): Promise<TimeSlot[]> {
+    const venue = extractEmbeddedState<TockVenueState>(await this.source.fetchVenuePage(slug), STATE_MARKER);
+    const businessId = venue?.app?.config?.business?.id;
+    if (!businessId) return [];
+
+    const calendar = await this.source.fetchCalendar(slug, businessId, date, partySize);
+    return parseCalendar(calendar, venue, date, partySize);
+  }
+}
+
+/**
+ * Adapter for the current environment: fixtures if TOCK_FIXTURE_DIR is set, else the live site
+ */
+export function createDefaultAdapter(): TockAdapter {
+  const fixtureDir = process.env.TOCK_FIXTURE_DIR;
+  return new ScraperAdapter(fixtureDir ? new FixturePageSource(fixtureDir) : new WebPageSource());
+}
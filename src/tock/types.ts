@@ -0,0 +1,66 @@
+// Embedded page state (window.$REDUX_STATE) and calendar payloads from
+// exploretock.com. Only the fields the scraper reads are listed.
+
+export interface TockBusiness {
+  id: number;
+  name: string;
+  domainName: string;            // URL slug, e.g. "alinea"
+  description?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  neighborhood?: string;
+  phone?: string;
+  webUrl?: string;
+  cuisines?: string;             // Comma-separated, e.g. "American, Tasting Menu"
+  priceRange?: number;
+  latitude?: number;
+  longitude?: number;
+  timeZone?: string;
+  imageUrl?: string;
+}
+
+export interface TockOffering {
+  id: number;
+  name: string;
+  description?: string;
+  type?: string;                 // "EXPERIENCE", "EVENT", "PICKUP", ...
+  isPrepaid?: boolean;
+  priceCents?: number;           // Per person
+}
+
+export interface TockVenueState {
+  app?: {
+    config?: {
+      business?: TockBusiness;
+    };
+  };
+  calendar?: {
+    offerings?: {
+      experience?: TockOffering[];
+    };
+  };
+}
+
+export interface TockSearchState {
+  search?: {
+    results?: Array<{ business?: TockBusiness }>;
+  };
+}
+
+export interface TockTicketGroup {
+  experienceId: number;
+  date: string;                  // YYYY-MM-DD
+  time: string;                  // HH:MM, venue-local
+  availableTickets: number;
+  minPurchaseSize?: number;
+  maxPurchaseSize?: number;
+  priceCents?: number;           // Per person, overrides the experience price
+}
+
+export interface TockCalendarPayload {
+  result?: {
+    ticketGroup?: TockTicketGroup[];
+  };
+}
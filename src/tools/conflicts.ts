@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import type { ConflictOptions } from '../services/conflicts.js';
+
+// Double-booking override shared by make_reservation, find_table, modify_reservation, snipe_reservation and snipe_campaign options
+export const conflictGuardFields = {
+  allow_conflicts: z.boolean().default(false).describe('Book even if you already have a reservation close to this one'),
+  conflict_window_minutes: z.number().int().min(0).max(1440).optional().describe('How close (in minutes) another reservation on the same date must be to count as a conflict (default 180)'),
+};
+
+const conflictGuardSchema = z.object(conflictGuardFields);
+
+export type ConflictGuardInput = z.input<typeof conflictGuardSchema>;
+
+export function toConflictOptions(input: ConflictGuardInput): ConflictOptions {
+  return {
+    allowConflicts: input.allow_conflicts ?? false,
+    windowMinutes: input.conflict_window_minutes,
+  };
+}
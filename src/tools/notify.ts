@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { getPlatform } from '../platforms/index.js';
+import { parseRestaurantId } from '../platforms/base.js';
+import { joinNotifyList, listNotifyEntries, removeNotifyEntry, type NotifyResult } from '../services/notify.js';
+import type { NotifyEntry } from '../sniper/store.js';
+import { minutesToClockTime, clockTimeToMinutes } from '../utils/time.js';
+
+export const joinNotifySchema = z.object({
+  restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345)'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Date to be notified about (YYYY-MM-DD)'),
+  party_size: z.number().int().min(1).max(20).describe('Number of guests'),
+  earliest_time: z.string().describe('Earliest acceptable time (e.g., "7:00 PM")'),
+  latest_time: z.string().describe('Latest acceptable time (e.g., "9:00 PM")'),
+  auto_book: z.boolean().default(false).describe('Also have the sniper book the first matching slot that opens up'),
+  check_interval_minutes: z.number().int().min(1).max(1440).default(5).describe('How often the sniper checks when auto-booking'),
+});
+
+export type JoinNotifyInput = z.infer<typeof joinNotifySchema>;
+
+export async function joinNotify(input: JoinNotifyInput): Promise<NotifyResult> {
+  const parsed = parseRestaurantId(input.restaurant_id);
+  const client = parsed ? getPlatform(parsed.platform) : undefined;
+  if (!client) {
+    return { success: false, error: `Invalid restaurant ID: ${input.restaurant_id}` };
+  }
+
+  let earliestTime: string;
+  let latestTime: string;
+  try {
+    earliestTime = minutesToClockTime(clockTimeToMinutes(input.earliest_time));
+    latestTime = minutesToClockTime(clockTimeToMinutes(input.latest_time));
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid time range' };
+  }
+
+  return joinNotifyList(client, {
+    restaurantId: input.restaurant_id,
+    date: input.date,
+    partySize: input.party_size,
+    earliestTime,
+    latestTime,
+  }, {
+    autoBook: input.auto_book,
+    intervalMinutes: input.check_interval_minutes,
+  });
+}
+
+export const listNotifiesSchema = z.object({
+  status: z.enum(['active', 'booked', 'expired', 'removed']).optional().describe('Only entries with this status'),
+});
+
+export type ListNotifiesInput = z.infer<typeof listNotifiesSchema>;
+
+export async function listNotifyRequests(input: ListNotifiesInput): Promise<NotifyEntry[]> {
+  return listNotifyEntries(input.status);
+}
+
+export const removeNotifySchema = z.object({
+  notify_id: z.string().min(1).describe('Notify entry ID from join_notify or list_notifies'),
+});
+
+export type RemoveNotifyInput = z.infer<typeof removeNotifySchema>;
+
+export async function removeNotify(input: RemoveNotifyInput): Promise<NotifyResult> {
+  return removeNotifyEntry(input.notify_id);
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import type { PaymentOptions } from '../types/restaurant.js';
+
+// Card choice shared by make_reservation, find_table and confirm_booking
+export const paymentFields = {
+  payment_method_id: z.string().min(1).max(50).optional().describe('Card to charge, by ID from a find_table hold\'s paymentMethods (an unknown ID lists the cards on file); defaults to the account\'s default card'),
+  require_no_charge: z.boolean().default(false).describe('Book without a card, and refuse slots with a deposit or cancellation fee'),
+};
+
+const paymentSchema = z.object(paymentFields);
+
+export type PaymentInput = z.input<typeof paymentSchema>;
+
+/**
+ * Map tool input to payment options. A tool's max_deposit and
+ * max_cancellation_fee filters also cap the fees actually quoted at booking.
+ */
+export function toPaymentOptions(input: PaymentInput & { max_deposit?: number; max_cancellation_fee?: number }): PaymentOptions {
+  if (input.payment_method_id && input.require_no_charge) {
+    throw new Error('payment_method_id and require_no_charge can\'t be used together');
+  }
+
+  return {
+    paymentMethodId: input.payment_method_id,
+    requireNoCharge: input.require_no_charge ?? false,
+    maxDeposit: input.max_deposit,
+    maxCancellationFee: input.max_cancellation_fee,
+  };
+}
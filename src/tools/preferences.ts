@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { validateSlotPreferences, type SlotPreferences } from '../services/slot-preferences.js';
+
+// Optional slot filters shared by find_table, snipe_reservation and snipe_campaign
+export const slotPreferenceFields = {
+  earliest_time: z.string().optional().describe('Earliest acceptable time (e.g., "6:30 PM")'),
+  latest_time: z.string().optional().describe('Latest acceptable time (e.g., "9:00 PM")'),
+  exclude_seating: z.array(z.string()).max(10).optional().describe('Seating types to avoid (e.g., ["bar", "patio", "counter"])'),
+  max_deposit: z.number().min(0).optional().describe('Maximum deposit in dollars'),
+  max_cancellation_fee: z.number().min(0).optional().describe('Maximum cancellation fee in dollars'),
+};
+
+const slotPreferenceSchema = z.object(slotPreferenceFields);
+
+export type SlotPreferenceInput = z.infer<typeof slotPreferenceSchema>;
+
+/**
+ * Map tool input to the shared preference model, or undefined if no filters were given.
+ * Throws if a time can't be parsed.
+ */
+export function toSlotPreferences(input: SlotPreferenceInput): SlotPreferences | undefined {
+  const prefs: SlotPreferences = {
+    earliest: input.earliest_time,
+    latest: input.latest_time,
+    excludedTypes: input.exclude_seating,
+    maxDepositFee: input.max_deposit,
+    maxCancellationFee: input.max_cancellation_fee,
+  };
+
+  if (Object.values(prefs).every((v) => v === undefined)) return undefined;
+
+  validateSlotPreferences(prefs);
+  return prefs;
+}
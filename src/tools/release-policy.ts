@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { getReleasePolicy, saveReleasePolicy, type ReleasePolicy } from '../sniper/store.js';
+import { computeReleaseTime, getVenueTimeZone, resolveReleasePolicy, unknownReleaseHourMessage } from '../sniper/release-policy.js';
+import { isValidTimeZone } from '../utils/time.js';
+import { catalogReleasePolicy } from '../services/catalog.js';
+import { extractNumericId } from '../utils/ids.js';
+
+export const setReleasePolicySchema = z.object({
+  restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345)'),
+  platform: z.enum(['resy', 'opentable']).describe('Platform'),
+  days_ahead: z.number().int().min(0).max(365).describe('How many days ahead the venue opens reservations'),
+  release_time: z.string().regex(/^\d{2}:\d{2}$/).describe('Local time inventory opens, 24-hour HH:MM (e.g., "10:00")'),
+  time_zone: z.string().optional().describe('IANA time zone of the venue (e.g., "America/New_York"). Looked up from the platform if omitted.'),
+});
+
+export type SetReleasePolicyInput = z.infer<typeof setReleasePolicySchema>;
+
+export interface ReleasePolicyResult {
+  success: boolean;
+  policy?: ReleasePolicy;
+  nextRelease?: { date: string; releaseTime: string };
+  message?: string;
+}
+
+export async function setReleasePolicy(input: SetReleasePolicyInput): Promise<ReleasePolicyResult> {
+  const restaurantId = extractNumericId(input.restaurant_id, input.platform);
+
+  if (input.time_zone && !isValidTimeZone(input.time_zone)) {
+    return { success: false, message: `Unknown time zone: ${input.time_zone}` };
+  }
+
+  const existing = await getReleasePolicy(input.platform, restaurantId);
+  const timeZone = input.time_zone || existing?.timeZone || await getVenueTimeZone(input.platform, restaurantId);
+
+  const policy = await saveReleasePolicy({
+    restaurantId,
+    platform: input.platform,
+    daysAhead: input.days_ahead,
+    releaseTime: input.release_time,
+    timeZone,
+    source: 'configured',
+  });
+  await catalogReleasePolicy(policy);
+
+  return { success: true, policy };
+}
+
+export const getReleasePolicySchema = z.object({
+  restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345)'),
+  platform: z.enum(['resy', 'opentable']).describe('Platform'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Target reservation date to compute the release time for (YYYY-MM-DD)'),
+});
+
+export type GetReleasePolicyInput = z.infer<typeof getReleasePolicySchema>;
+
+export async function getVenueReleasePolicy(input: GetReleasePolicyInput): Promise<ReleasePolicyResult> {
+  const restaurantId = extractNumericId(input.restaurant_id, input.platform);
+  const policy = await resolveReleasePolicy(input.platform, restaurantId);
+
+  if (!policy) {
+    return { success: false, message: 'No release policy known for this venue. Use set_release_policy to configure one.' };
+  }
+
+  const result: ReleasePolicyResult = { success: true, policy };
+  if (!policy.releaseTime) {
+    result.message = unknownReleaseHourMessage(policy);
+  }
+
+  // No release instant without a release hour; the message above says why
+  if (input.date) {
+    const releaseTime = computeReleaseTime(policy, input.date);
+    if (releaseTime) result.nextRelease = { date: input.date, releaseTime: releaseTime.toISOString() };
+  }
+  return result;
+}
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { ReservationError } from '../types/restaurant.js';
+import type { SearchAreaOptions } from '../services/search.js';
+
+// Explicit search center and radius shared by search_restaurant, find_table and discover_tables
+export const searchAreaFields = {
+  latitude: z.number().min(-90).max(90).optional().describe('Search center latitude; use with longitude instead of geocoding the location'),
+  longitude: z.number().min(-180).max(180).optional().describe('Search center longitude'),
+  radius_miles: z.number().positive().max(100).optional().describe('Only return restaurants within this many miles of the center'),
+};
+
+const searchAreaSchema = z.object(searchAreaFields);
+
+export type SearchAreaInput = z.input<typeof searchAreaSchema>;
+
+export function toSearchArea(input: SearchAreaInput): SearchAreaOptions {
+  if ((input.latitude === undefined) !== (input.longitude === undefined)) {
+    throw new Error('latitude and longitude must be given together');
+  }
+
+  return {
+    coordinates: input.latitude !== undefined && input.longitude !== undefined
+      ? { lat: input.latitude, lng: input.longitude }
+      : undefined,
+    radiusMiles: input.radius_miles,
+  };
+}
+
+// Tool response for a failed search; an unknown location carries "Did you mean" suggestions
+export function searchErrorPayload(error: unknown): Record<string, unknown> {
+  if (error instanceof ReservationError) {
+    return { success: false, error: error.message, code: error.code, suggestions: error.suggestions };
+  }
+  return { success: false, error: error instanceof Error ? error.message : 'Search failed' };
+}
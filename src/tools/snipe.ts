@@ -1,14 +1,36 @@
 import { z } from 'zod';
-import { createSnipe, listSnipes, deleteSnipe, getSnipe, updateSnipeStatus, type SnipeConfig } from '../sniper/store.js';
-import { scheduleSnipeJob, cancelSnipeJob, isSnipeScheduled } from '../sniper/scheduler.js';
+import {
+  createSnipe,
+  listSnipes,
+  deleteSnipe,
+  getSnipe,
+  updateSnipeStatus,
+  createCampaign,
+  listCampaigns,
+  getCampaign,
+  updateCampaign,
+  getReleasePolicy,
+  type SnipeConfig,
+  type CampaignOption,
+} from '../sniper/store.js';
+import { scheduleSnipeJob, scheduleCampaignJob, cancelSnipeJob, isSnipeScheduled } from '../sniper/scheduler.js';
+import { getVenueTimeZone, resolveReleaseTime } from '../sniper/release-policy.js';
+import { getClock } from '../sniper/clock.js';
+import { slotPreferenceFields, toSlotPreferences } from './preferences.js';
+import { conflictGuardFields, toConflictOptions } from './conflicts.js';
+import { validateSlotPreferences } from '../services/slot-preferences.js';
+import { parseDateExpression, type DateInterpretation } from '../utils/dates.js';
+import { extractNumericId } from '../utils/ids.js';
 
 export const snipeReservationSchema = z.object({
   restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345)'),
   platform: z.enum(['resy', 'opentable']).describe('Platform'),
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Target reservation date (YYYY-MM-DD)'),
+  date: z.string().min(1).max(50).describe('Target reservation date: YYYY-MM-DD or a phrase naming one day, like "friday", "Valentine\'s Day" or "the 14th"'),
   party_size: z.number().int().min(1).max(20).describe('Number of guests'),
   preferred_times: z.array(z.string()).min(1).max(5).describe('Preferred time slots in order of preference (e.g., ["7:00 PM", "7:30 PM"])'),
-  release_time: z.string().describe('When slots become available (ISO 8601 datetime, e.g., "2025-02-01T09:00:00")'),
+  release_time: z.string().optional().describe('When slots become available (ISO 8601 datetime, e.g., "2025-02-01T09:00:00"). Omit to derive it from the venue\'s release policy.'),
+  ...slotPreferenceFields,
+  ...conflictGuardFields,
 });
 
 export type SnipeReservationInput = z.infer<typeof snipeReservationSchema>;
@@ -18,37 +40,88 @@ export interface SnipeResult {
   snipeId: string;
   message: string;
   scheduledFor: string;
+  date?: string;                 // The date the expression resolved to
+  dateOptions?: DateInterpretation[];  // Readings of an ambiguous date
 }
 
-function extractNumericId(fullId: string, platform: string): string {
-  const prefix = `${platform}-`;
-  if (fullId.startsWith(prefix)) {
-    return fullId.slice(prefix.length);
+// A snipe targets one day: "friday" or "Valentine's Day" resolves, "this weekend" doesn't.
+// "Today" is the venue's; a saved release policy already knows its zone, so only look it up otherwise
+async function resolveSnipeDate(
+  expression: string,
+  platform: SnipeConfig['platform'],
+  restaurantId: string
+): Promise<{ date?: string; error?: string; options?: DateInterpretation[] }> {
+  const timeZone = (await getReleasePolicy(platform, restaurantId))?.timeZone ?? await getVenueTimeZone(platform, restaurantId);
+  const parsed = parseDateExpression(expression, { timeZone });
+  if (!parsed.ok) return { error: parsed.message, options: parsed.interpretations };
+  if (parsed.dates.length > 1) {
+    return {
+      error: `"${expression}" covers ${parsed.dates.length} dates (${parsed.dates.join(', ')}). A snipe targets one date: pick one, or use snipe_campaign with an option per date.`,
+    };
   }
-  return fullId;
+  return { date: parsed.dates[0] };
 }
 
 export async function snipeReservation(input: SnipeReservationInput): Promise<SnipeResult> {
-  const releaseDate = new Date(input.release_time);
-
-  if (releaseDate.getTime() < Date.now()) {
+  let preferences;
+  try {
+    preferences = toSlotPreferences(input);
+    validateSlotPreferences({ preferredTimes: input.preferred_times });
+  } catch (error) {
     return {
       success: false,
       snipeId: '',
-      message: 'Release time must be in the future',
-      scheduledFor: input.release_time,
+      message: error instanceof Error ? error.message : 'Invalid time preferences',
+      scheduledFor: '',
     };
   }
 
   const numericId = extractNumericId(input.restaurant_id, input.platform);
+  const { date, error: dateError, options: dateOptions } = await resolveSnipeDate(input.date, input.platform, numericId);
+  if (!date) {
+    return {
+      success: false,
+      snipeId: '',
+      message: dateError || 'Invalid date',
+      scheduledFor: '',
+      dateOptions,
+    };
+  }
+
+  const { releaseTime, error } = await resolveReleaseTime(input.platform, numericId, date, input.release_time);
+
+  if (!releaseTime) {
+    return {
+      success: false,
+      snipeId: '',
+      message: error || 'Could not determine release time',
+      scheduledFor: '',
+    };
+  }
+
+  const releaseDate = new Date(releaseTime);
+
+  if (releaseDate.getTime() < getClock().now()) {
+    return {
+      success: false,
+      snipeId: '',
+      message: input.release_time
+        ? 'Release time must be in the future'
+        : `Reservations for ${date} opened at ${releaseTime}. Check availability directly or use watch_availability.`,
+      scheduledFor: releaseTime,
+      date,
+    };
+  }
 
   const snipe = await createSnipe({
     restaurantId: numericId,
     platform: input.platform,
-    date: input.date,
+    date,
     partySize: input.party_size,
     preferredTimes: input.preferred_times,
-    releaseTime: input.release_time,
+    preferences,
+    conflictGuard: toConflictOptions(input),
+    releaseTime,
   });
 
   scheduleSnipeJob(snipe);
@@ -56,8 +129,9 @@ export async function snipeReservation(input: SnipeReservationInput): Promise<Sn
   return {
     success: true,
     snipeId: snipe.id,
-    message: `Snipe scheduled! Will attempt to book at ${input.release_time}`,
-    scheduledFor: input.release_time,
+    message: `Snipe scheduled! Will attempt to book at ${releaseTime}`,
+    scheduledFor: releaseTime,
+    date,
   };
 }
 
@@ -72,6 +146,7 @@ export interface SnipeSummary {
   date: string;
   partySize: number;
   preferredTimes: string[];
+  preferences?: SnipeConfig['preferences'];
   releaseTime: string;
   status: string;
   isScheduled: boolean;
@@ -88,6 +163,7 @@ export async function listScheduledSnipes(_input: ListSnipesInput): Promise<Snip
     date: s.date,
     partySize: s.partySize,
     preferredTimes: s.preferredTimes,
+    preferences: s.preferences,
     releaseTime: s.releaseTime,
     status: s.status,
     isScheduled: isSnipeScheduled(s.id),
@@ -116,13 +192,14 @@ export async function cancelSnipe(input: CancelSnipeInput): Promise<CancelSnipeR
     };
   }
 
-  if (snipe.status !== 'pending') {
+  if (snipe.status !== 'pending' && snipe.status !== 'running') {
     return {
       success: false,
       message: `Cannot cancel snipe with status: ${snipe.status}`,
     };
   }
 
+  // A running snipe checks for its record before every poll and stops on its own
   cancelSnipeJob(input.snipe_id);
   await updateSnipeStatus(input.snipe_id, 'cancelled');
   await deleteSnipe(input.snipe_id);
@@ -132,3 +209,183 @@ export async function cancelSnipe(input: CancelSnipeInput): Promise<CancelSnipeR
     message: 'Snipe cancelled successfully',
   };
 }
+
+const campaignOptionSchema = z.object({
+  restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345)'),
+  platform: z.enum(['resy', 'opentable']).describe('Platform'),
+  date: z.string().min(1).max(50).describe('Target reservation date: YYYY-MM-DD or a phrase naming one day, like "friday", "Valentine\'s Day" or "the 14th"'),
+  party_size: z.number().int().min(1).max(20).describe('Number of guests'),
+  preferred_times: z.array(z.string()).min(1).max(5).describe('Preferred time slots in order of preference'),
+  release_time: z.string().optional().describe('When slots become available (ISO 8601 datetime). Omit to derive it from the venue\'s release policy.'),
+  ...slotPreferenceFields,
+  ...conflictGuardFields,
+});
+
+export const snipeCampaignSchema = z.object({
+  name: z.string().min(1).max(100).describe('Campaign name (e.g., "Birthday dinner")'),
+  options: z.array(campaignOptionSchema).min(1).max(10).describe('Restaurant/date options ranked best first. Only one will be booked.'),
+});
+
+export type SnipeCampaignInput = z.infer<typeof snipeCampaignSchema>;
+
+export interface CampaignResult {
+  success: boolean;
+  campaignId: string;
+  message: string;
+  scheduledFor: string;
+}
+
+export async function snipeCampaign(input: SnipeCampaignInput): Promise<CampaignResult> {
+  let preferences;
+  try {
+    preferences = input.options.map((o) => {
+      validateSlotPreferences({ preferredTimes: o.preferred_times });
+      return toSlotPreferences(o);
+    });
+  } catch (error) {
+    return {
+      success: false,
+      campaignId: '',
+      message: error instanceof Error ? error.message : 'Invalid time preferences',
+      scheduledFor: '',
+    };
+  }
+
+  const dates: string[] = [];
+  for (const option of input.options) {
+    const { date, error } = await resolveSnipeDate(option.date, option.platform, extractNumericId(option.restaurant_id, option.platform));
+    if (!date) {
+      return {
+        success: false,
+        campaignId: '',
+        message: `${option.restaurant_id}: ${error || 'Invalid date'}`,
+        scheduledFor: '',
+      };
+    }
+    dates.push(date);
+  }
+
+  const resolved: string[] = [];
+  for (const [i, option] of input.options.entries()) {
+    const restaurantId = extractNumericId(option.restaurant_id, option.platform);
+    const { releaseTime, error } = await resolveReleaseTime(option.platform, restaurantId, dates[i], option.release_time);
+    if (!releaseTime) {
+      return {
+        success: false,
+        campaignId: '',
+        message: error || `Could not determine release time for ${option.restaurant_id}`,
+        scheduledFor: '',
+      };
+    }
+    resolved.push(releaseTime);
+  }
+
+  const releaseTimes = resolved.map((t) => new Date(t));
+
+  if (releaseTimes.some((d) => isNaN(d.getTime()))) {
+    return {
+      success: false,
+      campaignId: '',
+      message: 'Every option needs a valid release time',
+      scheduledFor: '',
+    };
+  }
+
+  const firstRelease = releaseTimes.reduce((a, b) => (a.getTime() <= b.getTime() ? a : b));
+
+  if (releaseTimes.every((d) => d.getTime() < getClock().now())) {
+    return {
+      success: false,
+      campaignId: '',
+      message: 'At least one release time must be in the future',
+      scheduledFor: firstRelease.toISOString(),
+    };
+  }
+
+  const campaign = await createCampaign(
+    input.name,
+    input.options.map((o, i) => ({
+      restaurantId: extractNumericId(o.restaurant_id, o.platform),
+      platform: o.platform,
+      date: dates[i],
+      partySize: o.party_size,
+      preferredTimes: o.preferred_times,
+      preferences: preferences[i],
+      conflictGuard: toConflictOptions(o),
+      releaseTime: resolved[i],
+    }))
+  );
+
+  scheduleCampaignJob(campaign);
+
+  return {
+    success: true,
+    campaignId: campaign.id,
+    message: `Campaign scheduled with ${campaign.options.length} options! The first option to release opens at ${firstRelease.toISOString()}`,
+    scheduledFor: firstRelease.toISOString(),
+  };
+}
+
+export const listCampaignsSchema = z.object({});
+
+export type ListCampaignsInput = z.infer<typeof listCampaignsSchema>;
+
+export interface CampaignSummary {
+  id: string;
+  name: string;
+  status: string;
+  isScheduled: boolean;
+  bookedOption?: number;
+  result?: string;
+  options: CampaignOption[];
+}
+
+export async function listScheduledCampaigns(_input: ListCampaignsInput): Promise<CampaignSummary[]> {
+  const campaigns = await listCampaigns();
+
+  return campaigns.map((c) => ({
+    id: c.id,
+    name: c.name,
+    status: c.status,
+    isScheduled: isSnipeScheduled(c.id),
+    bookedOption: c.bookedOption,
+    result: c.result,
+    options: c.options.map((o) => ({ ...o, restaurantId: `${o.platform}-${o.restaurantId}` })),
+  }));
+}
+
+export const cancelCampaignSchema = z.object({
+  campaign_id: z.string().min(1).describe('Campaign ID to cancel'),
+});
+
+export type CancelCampaignInput = z.infer<typeof cancelCampaignSchema>;
+
+export async function cancelCampaign(input: CancelCampaignInput): Promise<CancelSnipeResult> {
+  const campaign = await getCampaign(input.campaign_id);
+
+  if (!campaign) {
+    return {
+      success: false,
+      message: 'Campaign not found',
+    };
+  }
+
+  if (campaign.status !== 'pending' && campaign.status !== 'running') {
+    return {
+      success: false,
+      message: `Cannot cancel campaign with status: ${campaign.status}`,
+    };
+  }
+
+  // A running campaign checks its status each round and stops on its own
+  cancelSnipeJob(input.campaign_id);
+  await updateCampaign(input.campaign_id, {
+    status: 'cancelled',
+    options: campaign.options.map((o) => (o.status === 'pending' ? { ...o, status: 'skipped' } : o)),
+  });
+
+  return {
+    success: true,
+    message: 'Campaign cancelled successfully',
+  };
+}
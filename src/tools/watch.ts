@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { createWatch, listWatches, getWatch, updateWatchStatus } from '../sniper/store.js';
+import { scheduleWatchJob, cancelSnipeJob, isSnipeScheduled } from '../sniper/scheduler.js';
+import { clockTimeToMinutes, parseClockTime } from '../utils/time.js';
+import { extractNumericId } from '../utils/ids.js';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// Unreadable times are reported by watchAvailability; this only puts readable ones in order
+function isTimeWindowOrdered(input: { earliest_time: string; latest_time: string }): boolean {
+  try {
+    return clockTimeToMinutes(input.earliest_time) <= clockTimeToMinutes(input.latest_time);
+  } catch {
+    return true;
+  }
+}
+
+export const watchAvailabilitySchema = z.object({
+  restaurant_id: z.string().min(1).describe('Restaurant ID (e.g., resy-12345)'),
+  platform: z.enum(['resy', 'opentable']).describe('Platform'),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('First date to watch (YYYY-MM-DD)'),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Last date to watch (YYYY-MM-DD)'),
+  days_of_week: z.array(z.enum(DAY_NAMES)).default([]).describe('Only watch these weekdays (e.g., ["friday", "saturday"]). Empty means every day.'),
+  earliest_time: z.string().describe('Earliest acceptable time (e.g., "7:00 PM")'),
+  latest_time: z.string().describe('Latest acceptable time (e.g., "9:00 PM")'),
+  party_size: z.number().int().min(1).max(20).describe('Number of guests'),
+  check_interval_minutes: z.number().int().min(1).max(1440).default(5).describe('How often to check for openings'),
+  auto_book: z.boolean().default(true).describe('Book the first matching slot (Resy only); otherwise just report it'),
+}).refine(isTimeWindowOrdered, { message: 'earliest_time must be at or before latest_time', path: ['latest_time'] });
+
+export type WatchAvailabilityInput = z.infer<typeof watchAvailabilitySchema>;
+
+export interface WatchResult {
+  success: boolean;
+  watchId: string;
+  message: string;
+}
+
+export async function watchAvailability(input: WatchAvailabilityInput): Promise<WatchResult> {
+  if (input.end_date < input.start_date) {
+    return { success: false, watchId: '', message: 'end_date must be on or after start_date' };
+  }
+
+  try {
+    parseClockTime(input.earliest_time);
+    parseClockTime(input.latest_time);
+  } catch (error) {
+    return { success: false, watchId: '', message: error instanceof Error ? error.message : 'Invalid time window' };
+  }
+
+  const watch = await createWatch({
+    restaurantId: extractNumericId(input.restaurant_id, input.platform),
+    platform: input.platform,
+    startDate: input.start_date,
+    endDate: input.end_date,
+    daysOfWeek: input.days_of_week.map((d) => DAY_NAMES.indexOf(d)),
+    earliestTime: input.earliest_time,
+    latestTime: input.latest_time,
+    partySize: input.party_size,
+    intervalMinutes: input.check_interval_minutes,
+    autoBook: input.auto_book,
+  });
+
+  scheduleWatchJob(watch);
+
+  return {
+    success: true,
+    watchId: watch.id,
+    message: `Watching ${input.start_date} to ${input.end_date}, checking every ${input.check_interval_minutes} minutes`,
+  };
+}
+
+export const listWatchesSchema = z.object({});
+
+export type ListWatchesInput = z.infer<typeof listWatchesSchema>;
+
+export interface WatchSummary {
+  id: string;
+  restaurantId: string;
+  platform: 'resy' | 'opentable';
+  startDate: string;
+  endDate: string;
+  daysOfWeek: string[];
+  timeWindow: string;
+  partySize: number;
+  intervalMinutes: number;
+  autoBook: boolean;
+  status: string;
+  isScheduled: boolean;
+  lastCheckedAt?: string;
+  result?: string;
+}
+
+export async function listAvailabilityWatches(_input: ListWatchesInput): Promise<WatchSummary[]> {
+  const watches = await listWatches();
+
+  return watches.map((w) => ({
+    id: w.id,
+    restaurantId: w.restaurantId,
+    platform: w.platform,
+    startDate: w.startDate,
+    endDate: w.endDate,
+    daysOfWeek: w.daysOfWeek.map((d) => DAY_NAMES[d]),
+    timeWindow: `${w.earliestTime} - ${w.latestTime}`,
+    partySize: w.partySize,
+    intervalMinutes: w.intervalMinutes,
+    autoBook: w.autoBook,
+    status: w.status,
+    isScheduled: isSnipeScheduled(w.id),
+    lastCheckedAt: w.lastCheckedAt,
+    result: w.result,
+  }));
+}
+
+export const cancelWatchSchema = z.object({
+  watch_id: z.string().min(1).describe('Watch ID to cancel'),
+});
+
+export type CancelWatchInput = z.infer<typeof cancelWatchSchema>;
+
+export interface CancelWatchResult {
+  success: boolean;
+  message: string;
+}
+
+export async function cancelWatch(input: CancelWatchInput): Promise<CancelWatchResult> {
+  const watch = await getWatch(input.watch_id);
+
+  if (!watch) {
+    return {
+      success: false,
+      message: 'Watch not found',
+    };
+  }
+
+  if (watch.status !== 'active') {
+    return {
+      success: false,
+      message: `Cannot cancel watch with status: ${watch.status}`,
+    };
+  }
+
+  cancelSnipeJob(input.watch_id);
+  await updateWatchStatus(input.watch_id, 'cancelled');
+
+  return {
+    success: true,
+    message: 'Watch cancelled successfully',
+  };
+}
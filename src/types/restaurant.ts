@@ -2,29 +2,35 @@
  * Unified restaurant types for multi-platform support
  */
 
-// Platform identifiers
-export type PlatformName = 'resy' | 'opentable' | 'tock';
+import type { PlatformCapabilities } from '../platforms/base.js';
+
+// Platform identifiers. Built-ins are listed for autocompletion; any
+// registered platform name is valid (see src/platforms/registry.ts)
+export type PlatformName = 'resy' | 'opentable' | 'tock' | (string & {});
 
 export interface PlatformIds {
   resy?: number;
   opentable?: number;
   tock?: string;
+  [platform: string]: string | number | undefined;
 }
 
 // Price range ($ to $$$$)
 export type PriceRange = 1 | 2 | 3 | 4;
 
 // Address structure
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
 export interface Address {
   street: string;
   city: string;
   state: string;
   zip: string;
   neighborhood?: string;
-  coordinates?: {
-    lat: number;
-    lng: number;
-  };
+  coordinates?: Coordinates;
 }
 
 // Operating hours
@@ -42,6 +48,7 @@ export interface BookingUrls {
   resy?: string;
   opentable?: string;
   tock?: string;
+  [platform: string]: string | undefined;
 }
 
 // Search query parameters
@@ -54,6 +61,8 @@ export interface SearchQuery {
   priceRange?: PriceRange[];
   platforms?: PlatformName[];
   fuzzyMatch?: boolean;
+  coordinates?: Coordinates;     // Search center; geocoded from `location` when omitted
+  radiusMiles?: number;          // Only keep results this close to the center
 }
 
 // Basic restaurant result from search
@@ -70,9 +79,21 @@ export interface Restaurant {
   rating: number;
   reviewCount?: number;
   imageUrl?: string;
+  coordinates?: Coordinates;
+  distanceMiles?: number;        // From the search center, when both are known
   matchScore?: number;           // Fuzzy match score (0-1)
 }
 
+// Ticketed experience (Tock): a prepaid or reserved menu with its own price
+export interface Experience {
+  id: string;
+  name: string;
+  description?: string;
+  price?: number;                // Per person, in dollars
+  prepaid: boolean;
+  bookingUrl?: string;
+}
+
 // Full restaurant details
 export interface RestaurantDetails {
   // Identifiers
@@ -102,6 +123,7 @@ export interface RestaurantDetails {
   acceptsOnlineReservations: boolean;
   reservationPlatforms: PlatformName[];
   bookingUrls: BookingUrls;
+  experiences?: Experience[];
 
   // Menu
   menuUrl?: string;
@@ -126,6 +148,11 @@ export interface TimeSlot {
   depositFee?: number;
   bookingUrl?: string;
   token?: string;                // Resy-specific booking token
+  timeZone?: string;             // Venue IANA time zone; `time` is venue-local wall clock
+  experienceId?: string;         // Tock-specific: experience this slot books
+  experienceName?: string;
+  price?: number;                // Tock-specific: ticket price per person, in dollars
+  prepaid?: boolean;
 }
 
 // Availability result
@@ -135,9 +162,41 @@ export interface AvailabilityResult {
   platform: PlatformName;
   date: string;
   partySize: number;
+  timeZone?: string;             // Venue IANA time zone, when known
+  slots: TimeSlot[];
+  platforms?: PlatformName[];    // Platforms checked, when the restaurant is matched to more than one
+  platformErrors?: Record<string, string>;
+}
+
+// A venue and its open slots, from a platform's area-wide availability search
+export interface VenueAvailability {
+  restaurant: Restaurant;
   slots: TimeSlot[];
 }
 
+// Whether a day has inventory, from a platform's venue calendar
+export interface AvailabilityCalendarDay {
+  date: string;
+  status: 'available' | 'sold-out' | 'closed' | 'not-released';
+}
+
+// Availability over a date range: compact slot list per day with inventory
+export interface AvailabilityRangeResult {
+  restaurantId: string;
+  restaurantName?: string;
+  platform: PlatformName;
+  startDate: string;
+  endDate: string;
+  partySize: number;
+  timeZone?: string;
+  grid: Record<string, string[]>; // Date -> ["19:00 Dining Room (slot 123)", ...]
+  soldOut: string[];
+  closed: string[];              // Closed, or not released yet
+  unchecked: string[];           // Skipped to stay under the rate limit
+  unknown: string[];             // Left out of the platform's calendar, so never checked
+  note?: string;
+}
+
 // Reservation parameters
 export interface ReservationParams {
   restaurantId: string;
@@ -146,6 +205,42 @@ export interface ReservationParams {
   date: string;
   partySize: number;
   token?: string;
+  payment?: PaymentOptions;
+}
+
+// Ask to be told when a table opens up (capabilities.notify)
+export interface NotifyParams {
+  restaurantId: string;
+  date: string;                  // YYYY-MM-DD
+  partySize: number;
+  earliestTime: string;          // HH:MM, venue-local
+  latestTime: string;
+}
+
+// How a booking is paid for, and the fees it may carry
+export interface PaymentOptions {
+  paymentMethodId?: string;      // Charge this card instead of the account default
+  requireNoCharge?: boolean;     // Attach no card; refuse slots with a deposit or cancellation fee
+  maxDeposit?: number;           // Tighten the configured limits for this booking, in dollars
+  maxCancellationFee?: number;
+}
+
+// A card on the user's platform account
+export interface PaymentMethod {
+  id: string;
+  type?: string;                 // e.g. "visa"
+  display?: string;              // e.g. last four digits
+  isDefault?: boolean;
+}
+
+// A slot's booking terms and the short-lived token that books it (capabilities.holds)
+export interface BookingQuote {
+  bookToken: string;             // Opaque; completes the booking
+  expiresAt: string;             // ISO 8601; the platform drops the token after this
+  depositFee?: number;
+  cancellationFee?: number;
+  cancellationPolicy?: string[];
+  paymentMethods?: PaymentMethod[];  // Cards on the account the booking can be charged to
 }
 
 // Reservation result
@@ -157,6 +252,33 @@ export interface ReservationResult {
   bookingUrl?: string;
   error?: string;
   suggestions?: string[];
+  replacedReservationId?: string; // Original booking cancelled by a modification
+  paymentMethod?: PaymentMethod; // Card the booking was charged to; absent when none was attached
+  depositFee?: number;           // Fees the platform quoted for the booking
+  cancellationFee?: number;
+}
+
+// A booking on a platform, as listed by list_reservations
+export interface Reservation {
+  platform: PlatformName;
+  reservationId: string;         // Platform token used to cancel or modify
+  restaurantName: string;
+  location: string;
+  date: string;                  // YYYY-MM-DD
+  time: string;
+  partySize: number;
+  status: string;
+}
+
+// Move an existing reservation to a new slot
+export interface ModifyReservationParams {
+  reservationId: string;         // Booking to replace
+  restaurantId: string;
+  date: string;                  // New date (YYYY-MM-DD)
+  partySize: number;             // New party size
+  slotId?: string;               // New slot, from check_availability
+  time?: string;                 // Or the preferred time; the closest open slot is used
+  beforeBook?: (slot: TimeSlot) => Promise<void>;  // Runs once the new slot is picked; throw to refuse it
 }
 
 // Error codes
@@ -170,6 +292,8 @@ export enum ErrorCode {
   INVALID_DATE = 'INVALID_DATE',
   NO_AVAILABILITY = 'NO_AVAILABILITY',
   INVALID_INPUT = 'INVALID_INPUT',
+  BOOKING_CONFLICT = 'BOOKING_CONFLICT',
+  UNKNOWN_LOCATION = 'UNKNOWN_LOCATION',
 }
 
 // Custom error class
@@ -216,6 +340,7 @@ export interface BookingOptions {
     available: boolean;
     bookingUrl?: string;
     requiresAuth: boolean;
+    capabilities: PlatformCapabilities;
   }[];
   phone?: string;
   website?: string;
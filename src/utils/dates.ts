@@ -0,0 +1,451 @@
+/**
+ * Natural-language date expressions
+ *
+ * Turns "friday", "this weekend", "next Thu or Fri", "Valentine's Day",
+ * "the 14th" or "Feb 10-14" into the YYYY-MM-DD dates they name. An
+ * expression with more than one reasonable reading comes back as an
+ * ambiguity listing each reading, and one that can't be read is an error:
+ * nothing falls back to today.
+ *
+ * Past working out today, everything is calendar arithmetic on date
+ * strings, so nothing shifts a day through UTC. Weekday names and dates
+ * without a year mean the next one on or after today. Weeks run Monday to Sunday, and a
+ * weekend is Friday to Sunday, since Friday night counts for dinner.
+ *
+ * The sniper-service compiles this module too, so it may only import
+ * ./time.js.
+ */
+
+import { addDays, daysBetween, dayOfWeek, todayIn } from './time.js';
+
+// Longest range accepted unless the caller says otherwise
+const DEFAULT_MAX_DAYS = 31;
+
+export interface DateInterpretation {
+  label: string;                 // e.g. "this week", "next week"
+  dates: string[];
+}
+
+export interface ResolvedDates {
+  ok: true;
+  kind: 'date' | 'choice' | 'range';  // One day, any of several days, or every day in a span
+  dates: string[];               // YYYY-MM-DD, ascending, none before today
+}
+
+export interface DateExpressionError {
+  ok: false;
+  reason: 'unrecognized' | 'ambiguous' | 'past' | 'invalid';
+  message: string;
+  interpretations?: DateInterpretation[];  // For 'ambiguous': each reading, in the order listed in the message
+}
+
+export type DateExpressionResult = ResolvedDates | DateExpressionError;
+
+export interface DateExpressionOptions {
+  today?: string;                // YYYY-MM-DD; defaults to today in timeZone (or the server's zone)
+  timeZone?: string;
+  maxDays?: number;              // Longest range accepted
+}
+
+interface Reading {
+  label?: string;
+  kind: ResolvedDates['kind'];
+  dates: string[];
+}
+
+interface Context {
+  today: string;
+  ref: string;                   // Floating dates resolve on or after this (the range start, on a range's right side)
+  maxDays: number;
+}
+
+// Thrown inside the parser for expressions that are readable but wrong ("Feb 30", a backwards range)
+class InvalidDate extends Error {}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const WEEKDAY_ABBREVIATIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_ABBREVIATIONS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+function weekdayIndex(word: string): number {
+  if (word === 'weds') return 3;
+  if (word.length < 3) return -1;
+  return WEEKDAYS.findIndex((d) => d.startsWith(word));
+}
+
+function monthIndex(word: string): number {
+  if (word.length < 3) return -1;
+  return MONTHS.findIndex((m) => m.startsWith(word));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// month is 1-12; null when the day doesn't exist
+function toDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function yearOf(date: string): number {
+  return parseInt(date.slice(0, 4), 10);
+}
+
+// The n-th given weekday of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = toDate(year, month, 1)!;
+    return addDays(first, (weekday - dayOfWeek(first) + 7) % 7 + (n - 1) * 7);
+  }
+  const last = toDate(year, month, daysInMonth(year, month))!;
+  return addDays(last, -((dayOfWeek(last) - weekday + 7) % 7));
+}
+
+// Western Easter (anonymous Gregorian algorithm)
+function easter(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDate(year, month, day)!;
+}
+
+// US dining holidays, keyed by every normalized name they go by
+const HOLIDAYS: Array<{ names: string[]; date: (year: number) => string }> = [
+  { names: ['new years day', 'new years'], date: (y) => toDate(y, 1, 1)! },
+  { names: ['valentines day', 'valentines', 'valentine'], date: (y) => toDate(y, 2, 14)! },
+  { names: ['mardi gras', 'fat tuesday'], date: (y) => addDays(easter(y), -47) },
+  { names: ['saint patricks day', 'saint patricks', 'saint paddys day'], date: (y) => toDate(y, 3, 17)! },
+  { names: ['easter', 'easter sunday'], date: easter },
+  { names: ['cinco de mayo'], date: (y) => toDate(y, 5, 5)! },
+  { names: ['mothers day'], date: (y) => nthWeekday(y, 5, 0, 2) },
+  { names: ['memorial day'], date: (y) => nthWeekday(y, 5, 1, -1) },
+  { names: ['fathers day'], date: (y) => nthWeekday(y, 6, 0, 3) },
+  { names: ['independence day', 'fourth of july', '4th of july'], date: (y) => toDate(y, 7, 4)! },
+  { names: ['labor day'], date: (y) => nthWeekday(y, 9, 1, 1) },
+  { names: ['halloween'], date: (y) => toDate(y, 10, 31)! },
+  { names: ['thanksgiving', 'thanksgiving day'], date: (y) => nthWeekday(y, 11, 4, 4) },
+  { names: ['christmas eve'], date: (y) => toDate(y, 12, 24)! },
+  { names: ['christmas', 'christmas day', 'xmas'], date: (y) => toDate(y, 12, 25)! },
+  { names: ['new years eve', 'nye'], date: (y) => toDate(y, 12, 31)! },
+];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[’'.]/g, '')
+    .replace(/\bst\b/g, 'saint')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:on|for) /, '');
+}
+
+/**
+ * Short display form, e.g. "Fri Feb 13"
+ */
+export function formatDateShort(date: string): string {
+  const [, month, day] = date.split('-').map((n) => parseInt(n, 10));
+  return `${WEEKDAY_ABBREVIATIONS[dayOfWeek(date)]} ${MONTH_ABBREVIATIONS[month - 1]} ${day}`;
+}
+
+function single(date: string): Reading[] {
+  return [{ kind: 'date', dates: [date] }];
+}
+
+// The next date on or after ref with this month and day, skipping years without it (Feb 29)
+function nextMonthDay(month: number, day: number, ref: string): string | null {
+  for (let year = yearOf(ref); year <= yearOf(ref) + 8; year++) {
+    const date = toDate(year, month, day);
+    if (date && date >= ref) return date;
+  }
+  return null;
+}
+
+// The next date on or after ref falling on this day of the month
+function nextDayOfMonth(day: number, ref: string): string | null {
+  let year = yearOf(ref);
+  let month = parseInt(ref.slice(5, 7), 10);
+  for (let i = 0; i < 13; i++) {
+    const date = toDate(year, month, day);
+    if (date && date >= ref) return date;
+    month = month === 12 ? 1 : month + 1;
+    if (month === 1) year++;
+  }
+  return null;
+}
+
+// Mon-Sun week containing a date starts on this Monday
+function weekStart(date: string): string {
+  return addDays(date, -((dayOfWeek(date) + 6) % 7));
+}
+
+function span(start: string, end: string, ctx: Context, kind: Reading['kind'] = 'range', label?: string): Reading {
+  if (end < start) throw new InvalidDate(`${formatDateShort(end)} is before ${formatDateShort(start)}`);
+  const days = daysBetween(start, end) + 1;
+  if (days > ctx.maxDays) throw new InvalidDate(`That covers ${days} days; the most is ${ctx.maxDays}`);
+  return { label, kind, dates: Array.from({ length: days }, (_, i) => addDays(start, i)) };
+}
+
+function parseExplicitDate(text: string, ctx: Context): string | null | undefined {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return toDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+
+  // US order: 2/14, 2/14/26, 2/14/2026
+  const numeric = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (numeric) {
+    const month = parseInt(numeric[1], 10);
+    const day = parseInt(numeric[2], 10);
+    if (!numeric[3]) return nextMonthDay(month, day, ctx.ref);
+    const year = parseInt(numeric[3], 10);
+    return toDate(year < 100 ? 2000 + year : year, month, day);
+  }
+
+  // "feb 14", "february 14th, 2026", "14 feb", "the 14th of february"
+  const monthFirst = text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?$/);
+  const dayFirst = text.match(/^(?:the )?(\d{1,2})(?:st|nd|rd|th)? (?:of )?([a-z]+)(?:,? (\d{4}))?$/);
+  const parts = monthFirst
+    ? { month: monthIndex(monthFirst[1]), day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst ? { month: monthIndex(dayFirst[2]), day: dayFirst[1], year: dayFirst[3] } : null;
+  if (parts && parts.month !== -1) {
+    const day = parseInt(parts.day, 10);
+    if (!parts.year) return nextMonthDay(parts.month + 1, day, ctx.ref);
+    return toDate(parseInt(parts.year, 10), parts.month + 1, day);
+  }
+
+  // "the 14th", "14th"
+  const ordinal = text.match(/^(?:the (\d{1,2})(?:st|nd|rd|th)?|(\d{1,2})(?:st|nd|rd|th))$/);
+  if (ordinal) return nextDayOfMonth(parseInt(ordinal[1] ?? ordinal[2], 10), ctx.ref);
+
+  return undefined;
+}
+
+function parseHoliday(text: string, ctx: Context): string | undefined {
+  const match = text.match(/^(.+?)(?: (\d{4}))?$/)!;
+  const name = match[1];
+  const holiday = HOLIDAYS.find((h) => h.names.includes(name));
+  if (!holiday) return undefined;
+
+  if (match[2]) return holiday.date(parseInt(match[2], 10));
+  const thisYear = holiday.date(yearOf(ctx.ref));
+  return thisYear >= ctx.ref ? thisYear : holiday.date(yearOf(ctx.ref) + 1);
+}
+
+function parseWeekday(text: string, ctx: Context): Reading[] | undefined {
+  const match = text.match(/^(?:(this|next|coming|the coming) )?([a-z]+)$/);
+  if (!match) return undefined;
+  const weekday = weekdayIndex(match[2]);
+  if (weekday === -1) return undefined;
+
+  const onOrAfter = addDays(ctx.ref, (weekday - dayOfWeek(ctx.ref) + 7) % 7);
+  if (match[1] !== 'next') return single(onOrAfter);
+
+  // "next friday" on a Monday could be this week's or next week's; on a Saturday it can only be one
+  const upcoming = onOrAfter === ctx.ref ? addDays(onOrAfter, 7) : onOrAfter;
+  if (weekStart(upcoming) !== weekStart(ctx.today)) return single(upcoming);
+  return [
+    { label: 'this week', kind: 'date', dates: [upcoming] },
+    { label: 'next week', kind: 'date', dates: [addDays(upcoming, 7)] },
+  ];
+}
+
+function parseRelative(text: string, ctx: Context): Reading[] | undefined {
+  if (text === 'today' || text === 'tonight') return single(ctx.today);
+  if (text === 'tomorrow' || text === 'tmrw' || text === 'tomorrow night') return single(addDays(ctx.today, 1));
+  if (text === 'day after tomorrow' || text === 'the day after tomorrow') return single(addDays(ctx.today, 2));
+
+  const offset = text.match(/^(?:in (\w+) (day|week)s?|(\w+) (day|week)s? from (?:now|today))$/);
+  if (offset) {
+    const count = NUMBER_WORDS[offset[1] ?? offset[3]] ?? parseInt(offset[1] ?? offset[3], 10);
+    if (isNaN(count)) return undefined;
+    return single(addDays(ctx.today, count * ((offset[2] ?? offset[4]) === 'week' ? 7 : 1)));
+  }
+
+  const week = text.match(/^(this|next) week$/);
+  if (week) {
+    const monday = weekStart(ctx.today);
+    return week[1] === 'this'
+      ? [span(ctx.today, addDays(monday, 6), ctx)]
+      : [span(addDays(monday, 7), addDays(monday, 13), ctx)];
+  }
+
+  const weekend = text.match(/^(?:(this|next|the|coming) )?weekend$/);
+  if (weekend) {
+    const day = dayOfWeek(ctx.today);
+    const inWeekend = day === 5 || day === 6 || day === 0;
+    const friday = inWeekend ? addDays(ctx.today, -((day + 2) % 7)) : addDays(ctx.today, 5 - day);
+    const sunday = addDays(friday, 2);
+    const thisWeekend = span(ctx.today > friday ? ctx.today : friday, sunday, ctx, 'choice');
+    const following = span(addDays(friday, 7), addDays(sunday, 7), ctx, 'choice');
+    if (weekend[1] !== 'next') return [thisWeekend];
+    if (inWeekend) return [following];
+    return [{ ...thisWeekend, label: 'this weekend' }, { ...following, label: 'the weekend after' }];
+  }
+
+  return undefined;
+}
+
+// One date-ish phrase: no ranges or alternatives
+function parseTerm(text: string, ctx: Context): Reading[] | null {
+  const term = text.replace(/ (?:night|evening|for dinner|for lunch|dinner|lunch|brunch)$/, '');
+
+  const relative = parseRelative(term, ctx);
+  if (relative) return relative;
+
+  const weekday = parseWeekday(term, ctx);
+  if (weekday) return weekday;
+
+  const explicit = parseExplicitDate(term, ctx);
+  if (explicit === null) throw new InvalidDate(`"${text}" isn't a date on the calendar`);
+  if (explicit) return single(explicit);
+
+  const holiday = parseHoliday(term, ctx);
+  if (holiday) return single(holiday);
+
+  return null;
+}
+
+// A right-hand bare day number borrows the left side's month: "feb 10-14", "feb 14 or 15"
+function borrowMonth(text: string, from: string): string | null {
+  const bare = text.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  if (!bare) return null;
+  const day = parseInt(bare[1], 10);
+  const date = toDate(yearOf(from), parseInt(from.slice(5, 7), 10), day);
+  return date && date >= from ? date : nextDayOfMonth(day, from);
+}
+
+function parseRange(text: string, ctx: Context): Reading[] | null {
+  const between = text.match(/^between (.+) and (.+)$/);
+  const splits: Array<[string, string]> = between ? [[between[1], between[2]]] : [];
+
+  const separator = / ?(?:-|–|—|\.\.) ?| (?:to|through|thru|until|till) /g;
+  for (const match of text.matchAll(separator)) {
+    const left = text.slice(0, match.index).replace(/^from /, '');
+    splits.push([left, text.slice(match.index! + match[0].length)]);
+  }
+
+  for (const [leftText, rightText] of splits) {
+    let lefts: Reading[] | null;
+    try {
+      lefts = parseTerm(leftText.trim(), ctx);
+    } catch {
+      continue;
+    }
+    if (!lefts || lefts.some((r) => r.dates.length !== 1)) continue;
+
+    const readings: Reading[] = [];
+    for (const left of lefts) {
+      const start = left.dates[0];
+      const borrowed = borrowMonth(rightText.trim(), start);
+      const rights = borrowed ? single(borrowed) : parseTerm(rightText.trim(), { ...ctx, ref: start });
+      if (!rights || rights.some((r) => r.dates.length !== 1)) break;
+
+      for (const right of rights) {
+        const label = [left.label, right.label].filter(Boolean).join(', ') || undefined;
+        readings.push(span(start, right.dates[0], ctx, 'range', label));
+      }
+    }
+    if (readings.length > 0) return readings;
+  }
+
+  return null;
+}
+
+function parseAlternatives(text: string, ctx: Context): Reading[] | null {
+  // Split on "or" and commas, keeping a trailing year with its date ("feb 14, 2027")
+  const pieces: string[] = [];
+  for (const piece of text.split(/,? or |, ?/)) {
+    if (/^\d{4}$/.test(piece) && pieces.length > 0) pieces[pieces.length - 1] += ` ${piece}`;
+    else if (piece.trim()) pieces.push(piece.trim());
+  }
+  if (pieces.length < 2) return null;
+
+  // "next thu or fri": the first piece's this/next carries over to bare weekdays
+  const modifier = pieces[0].match(/^(this|next) /)?.[1];
+
+  const parsed: Reading[][] = [];
+  let previous: string | undefined;
+  for (const piece of pieces) {
+    const withModifier = modifier && weekdayIndex(piece.split(' ')[0]) !== -1 ? `${modifier} ${piece}` : piece;
+    const borrowed = previous ? borrowMonth(piece, previous) : null;
+    const readings = borrowed ? single(borrowed) : parseTerm(withModifier, ctx) ?? parseRange(withModifier, ctx);
+    if (!readings) return null;
+    parsed.push(readings);
+    previous = readings[0].dates[0];
+  }
+
+  // Line up ambiguous pieces reading by reading: "this week" with "this week"
+  const count = Math.max(...parsed.map((p) => p.length));
+  return Array.from({ length: count }, (_, i) => ({
+    label: parsed.find((p) => p.length === count)![i].label,
+    kind: 'choice' as const,
+    dates: parsed.flatMap((p) => (p[i] ?? p[0]).dates),
+  }));
+}
+
+function describe(reading: Reading): string {
+  const dates = reading.dates.length > 3
+    ? `${formatDateShort(reading.dates[0])} to ${formatDateShort(reading.dates[reading.dates.length - 1])}`
+    : reading.dates.map(formatDateShort).join(', ');
+  return reading.label ? `${reading.label} (${dates})` : dates;
+}
+
+/**
+ * Resolve a date expression to the dates it names
+ *
+ * @param input - "2026-02-14", "friday", "this weekend", "next Thu or Fri",
+ *   "Valentine's Day", "the 14th", "Feb 10-14", "between the 3rd and the 5th"
+ */
+export function parseDateExpression(input: string, options: DateExpressionOptions = {}): DateExpressionResult {
+  const today = options.today ?? todayIn(options.timeZone);
+  const ctx: Context = { today, ref: today, maxDays: options.maxDays ?? DEFAULT_MAX_DAYS };
+  const text = normalize(input);
+
+  let readings: Reading[] | null;
+  try {
+    readings = text ? parseTerm(text, ctx) ?? parseRange(text, ctx) ?? parseAlternatives(text, ctx) : null;
+  } catch (error) {
+    if (!(error instanceof InvalidDate)) throw error;
+    return { ok: false, reason: 'invalid', message: error.message };
+  }
+
+  if (!readings) {
+    return {
+      ok: false,
+      reason: 'unrecognized',
+      message: `Can't read "${input}" as a date. Try "2026-02-14", "friday", "this weekend", "next Thu or Fri", "Valentine's Day", "the 14th" or "Feb 10-14".`,
+    };
+  }
+
+  const resolved = readings.map((r) => ({ ...r, dates: Array.from(new Set(r.dates)).sort() }));
+
+  if (resolved.length > 1) {
+    return {
+      ok: false,
+      reason: 'ambiguous',
+      message: `"${input}" could mean ${resolved.map(describe).join(' or ')}. Say which, or give the date (YYYY-MM-DD).`,
+      interpretations: resolved.map((r) => ({ label: r.label ?? describe(r), dates: r.dates })),
+    };
+  }
+
+  const [reading] = resolved;
+  if (reading.dates[0] < today) {
+    return { ok: false, reason: 'past', message: `${reading.dates[0]} is in the past` };
+  }
+
+  return { ok: true, kind: reading.dates.length === 1 ? 'date' : reading.kind, dates: reading.dates };
+}
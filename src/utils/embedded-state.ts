@@ -0,0 +1,41 @@
+/**
+ * Extract JSON state that web apps embed in their HTML pages
+ */
+
+/**
+ * Pull the JSON object assigned to a global (e.g. window.__INITIAL_STATE__) out of a page
+ *
+ * @param html - Page source
+ * @param marker - Name of the global the state is assigned to
+ * @returns The parsed object, or null if the marker or a valid object isn't found
+ */
+export function extractEmbeddedState<T>(html: string, marker: string): T | null {
+  const at = html.indexOf(marker);
+  if (at === -1) return null;
+
+  const start = html.indexOf('{', at);
+  if (start === -1) return null;
+
+  // Scan to the matching brace, skipping braces inside strings
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < html.length; i++) {
+    const ch = html[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(start, i + 1)) as T;
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
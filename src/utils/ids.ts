@@ -0,0 +1,15 @@
+/**
+ * Restaurant ID utilities
+ */
+
+/**
+ * Strip the platform prefix from a restaurant ID, e.g. "resy-12345" -> "12345".
+ * IDs passed without a prefix are returned as-is.
+ */
+export function extractNumericId(fullId: string, platform: string): string {
+  const prefix = `${platform}-`;
+  if (fullId.startsWith(prefix)) {
+    return fullId.slice(prefix.length);
+  }
+  return fullId;
+}
@@ -0,0 +1,181 @@
+/**
+ * Natural-language time expressions
+ *
+ * Turns "7:30pm", "around 8", "before 7", "after 9:15", "early dinner" or
+ * "between 6 and 7:30" into a target time to rank slots against and the
+ * window slots have to fall in, both as "HH:MM" at minute precision.
+ *
+ * Bare hours are read for a restaurant: 1 to 10 are PM and 11 is AM, unless
+ * the phrase is about breakfast, brunch or the morning. "before" and
+ * "after" exclude the time itself; "by" and "from" include it.
+ */
+
+import { minutesToClockTime } from './time.js';
+
+// "around 8" accepts this far either side
+const AROUND_TOLERANCE_MINUTES = 30;
+
+export interface TimeWindow {
+  ok: true;
+  target?: string;               // HH:MM to rank slots by closeness to; absent for "any time"
+  earliest?: string;             // HH:MM, inclusive
+  latest?: string;               // HH:MM, inclusive
+  description: string;           // e.g. "around 20:00 (19:30-20:30)"
+}
+
+export interface TimeExpressionError {
+  ok: false;
+  message: string;
+}
+
+export type TimeExpressionResult = TimeWindow | TimeExpressionError;
+
+interface Clock {
+  minutes: number;
+  bare: boolean;                 // No am/pm and not 24-hour: the meridiem was inferred
+}
+
+// Named meal times: [earliest, target, latest] in minutes since midnight
+const NAMED_WINDOWS: Array<{ names: string[]; window: [number, number, number] }> = [
+  { names: ['breakfast'], window: [7 * 60, 9 * 60, 10 * 60 + 30] },
+  { names: ['brunch'], window: [10 * 60, 11 * 60 + 30, 14 * 60] },
+  { names: ['lunch'], window: [11 * 60 + 30, 12 * 60 + 30, 14 * 60 + 30] },
+  { names: ['afternoon'], window: [14 * 60, 15 * 60, 17 * 60] },
+  { names: ['early dinner', 'early evening', 'early'], window: [17 * 60, 18 * 60, 18 * 60 + 30] },
+  { names: ['dinner', 'evening', 'tonight', 'supper'], window: [17 * 60, 19 * 60, 22 * 60] },
+  { names: ['prime time', 'primetime'], window: [19 * 60, 19 * 60 + 30, 20 * 60 + 30] },
+  { names: ['late dinner', 'late evening'], window: [20 * 60 + 30, 21 * 60, 22 * 60 + 30] },
+  { names: ['late', 'late night', 'night'], window: [21 * 60 + 30, 22 * 60, 23 * 60 + 59] },
+];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d)\.(\d{2})/g, '$1:$2')
+    .replace(/o['’]?clock/g, '')
+    .replace(/\b([ap])\.?m\.?/g, '$1m')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:at|for|an?) /, '');
+}
+
+function parseClock(text: string, morning: boolean): Clock | null {
+  if (text === 'noon' || text === 'midday') return { minutes: 12 * 60, bare: false };
+  if (text === 'midnight') return { minutes: 23 * 60 + 59, bare: false };
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))? ?(am|pm|a|p)?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2] || '0', 10);
+  const meridiem = match[3]?.[0];
+  if (minutes > 59 || hours > 23) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'p' && hours !== 12) hours += 12;
+    if (meridiem === 'a' && hours === 12) hours = 0;
+    return { minutes: hours * 60 + minutes, bare: false };
+  }
+
+  // 24-hour clock: "19:30", "07:00"
+  if (hours === 0 || hours >= 13 || match[1].startsWith('0')) return { minutes: hours * 60 + minutes, bare: false };
+  if (hours === 12) return { minutes: 12 * 60 + minutes, bare: true };
+
+  const pm = morning ? hours < 6 : hours <= 10;
+  return { minutes: (pm ? hours + 12 : hours) * 60 + minutes, bare: true };
+}
+
+function toWindow(target: number | undefined, earliest: number | undefined, latest: number | undefined, description: string): TimeWindow {
+  return {
+    ok: true,
+    target: target === undefined ? undefined : minutesToClockTime(target),
+    earliest: earliest === undefined ? undefined : minutesToClockTime(Math.max(0, earliest)),
+    latest: latest === undefined ? undefined : minutesToClockTime(Math.min(23 * 60 + 59, latest)),
+    description,
+  };
+}
+
+function describeSpan(earliest: number, latest: number): string {
+  return `${minutesToClockTime(earliest)}-${minutesToClockTime(latest)}`;
+}
+
+// "between 6 and 7:30", "6-7:30", "10 to 11:30": bare ends are fixed up so the span runs forward
+function parseSpan(text: string, morning: boolean): TimeWindow | null {
+  const match = text.match(/^(?:between |from )?(.+?) ?(?: and |-|–| to | until | till )(.+)$/);
+  if (!match) return null;
+
+  const start = parseClock(match[1].trim(), morning);
+  const end = parseClock(match[2].trim(), morning);
+  if (!start || !end) return null;
+
+  if (end.minutes < start.minutes && end.bare && end.minutes < 12 * 60) end.minutes += 12 * 60;
+  if (end.minutes < start.minutes && start.bare && start.minutes >= 12 * 60) start.minutes -= 12 * 60;
+  if (end.minutes < start.minutes) return null;
+
+  const target = Math.round((start.minutes + end.minutes) / 2);
+  return toWindow(target, start.minutes, end.minutes, `between ${minutesToClockTime(start.minutes)} and ${minutesToClockTime(end.minutes)}`);
+}
+
+/**
+ * Read a time expression as a target and a window
+ *
+ * @param input - "7:30pm", "19:30", "around 8", "8ish", "before 7", "by 7",
+ *   "after 9:15", "7 or later", "early dinner", "brunch at 11", "between 6 and 7:30", "any time"
+ */
+export function parseTimeExpression(input: string): TimeExpressionResult {
+  const normalized = normalize(input);
+  const morning = /\b(?:breakfast|brunch|morning|am)\b/.test(normalized);
+
+  // "brunch at 11", "dinner around 8": the meal only sets am/pm
+  const text = normalized.replace(/^(?:breakfast|brunch|lunch|dinner|supper) (?:at )?(?=\S)/, '') || normalized;
+
+  if (/^(?:any ?time|whenever|any|flexible)$/.test(text)) return { ok: true, description: 'any time' };
+
+  const named = NAMED_WINDOWS.find((n) => n.names.includes(text.replace(/^(?:around|about) /, '')));
+  if (named) {
+    const [earliest, target, latest] = named.window;
+    return toWindow(target, earliest, latest, `${text} (${describeSpan(earliest, latest)}, ideally ${minutesToClockTime(target)})`);
+  }
+
+  const around = text.match(/^(?:around|about|approximately|approx|roughly|close to|near|~) ?(.+)$/) ?? text.match(/^(.+?)-? ?ish$/);
+  if (around) {
+    const clock = parseClock(around[1], morning);
+    if (clock) {
+      const earliest = clock.minutes - AROUND_TOLERANCE_MINUTES;
+      const latest = clock.minutes + AROUND_TOLERANCE_MINUTES;
+      return toWindow(clock.minutes, earliest, latest, `around ${minutesToClockTime(clock.minutes)} (${describeSpan(Math.max(0, earliest), Math.min(23 * 60 + 59, latest))})`);
+    }
+  }
+
+  const before = text.match(/^(before|earlier than|by|no later than|not after|until) (.+)$/) ?? text.match(/^(.+) (or earlier|at the latest)$/);
+  if (before) {
+    const strict = before[1] === 'before' || before[1] === 'earlier than';
+    const clock = parseClock(/^(?:or earlier|at the latest)$/.test(before[2]) ? before[1] : before[2], morning);
+    if (clock) {
+      const latest = strict ? clock.minutes - 1 : clock.minutes;
+      return toWindow(clock.minutes, undefined, latest, `${strict ? 'before' : 'by'} ${minutesToClockTime(clock.minutes)}`);
+    }
+  }
+
+  const after = text.match(/^(after|later than|from|no earlier than|not before) (.+)$/) ?? text.match(/^(.+) (or later|onwards|at the earliest)$/);
+  if (after) {
+    const strict = after[1] === 'after' || after[1] === 'later than';
+    const clock = parseClock(/^(?:or later|onwards|at the earliest)$/.test(after[2]) ? after[1] : after[2], morning);
+    if (clock) {
+      const earliest = strict ? clock.minutes + 1 : clock.minutes;
+      return toWindow(clock.minutes, earliest, undefined, `${strict ? 'after' : 'from'} ${minutesToClockTime(clock.minutes)}`);
+    }
+  }
+
+  const span = parseSpan(text, morning);
+  if (span) return span;
+
+  const clock = parseClock(text, morning);
+  if (clock) return toWindow(clock.minutes, undefined, undefined, `as close to ${minutesToClockTime(clock.minutes)} as possible`);
+
+  return {
+    ok: false,
+    message: `Can't read "${input}" as a time. Try "7:30pm", "around 8", "before 7", "after 9:15", "early dinner" or "between 6 and 7:30".`,
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Date and time zone utilities
+ *
+ * Dates are plain "YYYY-MM-DD" strings and times are "HH:MM" (24-hour)
+ * wall-clock values. Conversions to real instants always go through an
+ * explicit IANA time zone, never the server's local zone.
+ *
+ * Slot times from the platforms are treated as venue-local: a bare
+ * "2025-02-15 19:00:00" is already the venue's wall clock and is read
+ * as-is, while a timestamp with an offset is converted into the venue's zone.
+ *
+ * The sniper-service compiles this module too, so it must not import anything.
+ */
+
+// Zone assumed for a venue, or a diner, when none is known
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
+/**
+ * Check whether a string is a valid IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock parts of an instant in a time zone
+ */
+function getZonedParts(at: Date, timeZone: string): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+} {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+export function getTimeZoneOffset(timeZone: string, at: Date): number {
+  const p = getZonedParts(at, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(at.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date and time in a time zone to a real instant
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param time - Time in HH:MM (24-hour) format
+ * @param timeZone - IANA time zone, e.g. "America/New_York"
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map((n) => parseInt(n, 10));
+  const [hours, minutes] = time.split(':').map((n) => parseInt(n, 10));
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes || 0);
+
+  // Two passes so instants near a DST transition pick up the right offset
+  const firstOffset = getTimeZoneOffset(timeZone, new Date(wallClock));
+  let instant = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffset(timeZone, new Date(instant));
+  if (secondOffset !== firstOffset) {
+    instant = wallClock - secondOffset;
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a time zone, or in the server's zone if none given
+ */
+export function todayIn(timeZone?: string, now = new Date()): string {
+  if (!timeZone) {
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    return `${now.getFullYear()}-${month}-${day}`;
+  }
+
+  const p = getZonedParts(now, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Add (or subtract) whole days from a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  const ms = new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime();
+  return Math.round(ms / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Day of the week (0 = Sunday) for a YYYY-MM-DD date
+ */
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export interface ClockTime {
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * Parse a clock time like "7:00 PM", "7:30PM", "7pm" or "19:00"
+ */
+export function parseClockTime(timeStr: string): ClockTime {
+  const normalized = timeStr.trim().toUpperCase();
+
+  const match12 = normalized.match(/^(\d{1,2}):?(\d{2})?\s*(AM|PM)$/);
+  if (match12) {
+    let hours = parseInt(match12[1], 10);
+    const minutes = parseInt(match12[2] || '0', 10);
+    const period = match12[3];
+
+    if (period === 'PM' && hours !== 12) hours += 12;
+    if (period === 'AM' && hours === 12) hours = 0;
+
+    return { hours, minutes };
+  }
+
+  const match24 = normalized.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (match24) {
+    return {
+      hours: parseInt(match24[1], 10),
+      minutes: parseInt(match24[2], 10),
+    };
+  }
+
+  throw new Error(`Cannot parse time: ${timeStr}`);
+}
+
+/**
+ * Minutes since midnight for a clock time string
+ */
+export function clockTimeToMinutes(timeStr: string): number {
+  const { hours, minutes } = parseClockTime(timeStr);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export function minutesToClockTime(minutes: number): string {
+  const h = Math.floor(minutes / 60) % 24;
+  const m = minutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+export interface VenueLocalTime {
+  date?: string;     // YYYY-MM-DD, when the timestamp carries a date
+  time: string;      // HH:MM
+  minutes: number;   // Minutes since midnight
+}
+
+/**
+ * Read a slot timestamp as venue-local wall-clock time
+ *
+ * @param timestamp - "2025-02-15 19:00:00", "2025-02-15T19:00:00-05:00", "19:00" or "7:00 PM"
+ * @param timeZone - Venue time zone, used only when the timestamp is an absolute instant
+ * @returns Venue-local date/time, or null if the timestamp can't be read
+ */
+export function toVenueLocalTime(timestamp: string, timeZone?: string): VenueLocalTime | null {
+  const trimmed = timestamp.trim();
+
+  // Absolute instant (Z or explicit offset): convert into the venue's zone
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    const at = new Date(trimmed.replace(' ', 'T'));
+    if (isNaN(at.getTime())) return null;
+
+    // Without a known venue zone the server's zone is the best we can do
+    const p = timeZone
+      ? getZonedParts(at, timeZone)
+      : { year: at.getFullYear(), month: at.getMonth() + 1, day: at.getDate(), hour: at.getHours(), minute: at.getMinutes() };
+    const minutes = p.hour * 60 + p.minute;
+    return {
+      date: `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`,
+      time: minutesToClockTime(minutes),
+      minutes,
+    };
+  }
+
+  // Wall-clock date and time: already venue-local
+  const wallClock = trimmed.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}):(\d{2})/);
+  if (wallClock) {
+    const minutes = parseInt(wallClock[2], 10) * 60 + parseInt(wallClock[3], 10);
+    return { date: wallClock[1], time: minutesToClockTime(minutes), minutes };
+  }
+
+  // Time of day only
+  try {
+    const minutes = clockTimeToMinutes(trimmed);
+    return { time: minutesToClockTime(minutes), minutes };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a slot falls within a tolerance of a preferred clock time, in venue-local time
+ */
+export function slotMatchesTime(
+  slotTime: string,
+  preferredTime: string,
+  toleranceMinutes: number,
+  timeZone?: string
+): boolean {
+  const slot = toVenueLocalTime(slotTime, timeZone);
+  if (!slot) return false;
+
+  try {
+    return Math.abs(slot.minutes - clockTimeToMinutes(preferredTime)) <= toleranceMinutes;
+  } catch {
+    return false;
+  }
+}
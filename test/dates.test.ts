@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseDateExpression } from '../src/utils/dates.js';
+
+// A Wednesday
+const TODAY = '2026-02-25';
+
+function datesFor(expression: string, today = TODAY): string[] | undefined {
+  const result = parseDateExpression(expression, { today });
+  return result.ok ? result.dates : undefined;
+}
+
+describe('parseDateExpression', () => {
+  it.each([
+    ['today', ['2026-02-25']],
+    ['tonight', ['2026-02-25']],
+    ['tomorrow', ['2026-02-26']],
+    ['tomorrow night', ['2026-02-26']],
+    ['the day after tomorrow', ['2026-02-27']],
+    ['in 3 days', ['2026-02-28']],
+    ['in a week', ['2026-03-04']],
+    ['two weeks from now', ['2026-03-11']],
+  ])('reads the relative day "%s"', (expression, dates) => {
+    expect(datesFor(expression)).toEqual(dates);
+  });
+
+  it.each([
+    ['friday', ['2026-02-27']],
+    ['Saturday night', ['2026-02-28']],
+    ['wednesday', ['2026-02-25']],
+    ['this thursday', ['2026-02-26']],
+    ['mon', ['2026-03-02']],
+    ['weds', ['2026-02-25']],
+  ])('takes the weekday "%s" as the next one, counting today', (expression, dates) => {
+    expect(datesFor(expression)).toEqual(dates);
+  });
+
+  it.each([
+    ['next monday', ['2026-03-02']],
+    ['next wednesday', ['2026-03-04']],
+  ])('reads "%s" as the first one past today when it falls in another week', (expression, dates) => {
+    expect(datesFor(expression)).toEqual(dates);
+  });
+
+  it.each([
+    ['next friday', ['2026-02-27'], ['2026-03-06']],
+    ['next thursday', ['2026-02-26'], ['2026-03-05']],
+    ['next sunday', ['2026-03-01'], ['2026-03-08']],
+  ])('asks which week "%s" means when it could be this one', (expression, thisWeek, nextWeek) => {
+    const result = parseDateExpression(expression, { today: TODAY });
+
+    expect(result).toMatchObject({ ok: false, reason: 'ambiguous' });
+    expect(!result.ok && result.interpretations).toEqual([
+      { label: 'this week', dates: thisWeek },
+      { label: 'next week', dates: nextWeek },
+    ]);
+  });
+
+  it.each([
+    ['the 3rd', TODAY, ['2026-03-03']],
+    ['the 28th', TODAY, ['2026-02-28']],
+    ['the 30th', TODAY, ['2026-03-30']],
+    ['in 5 days', TODAY, ['2026-03-02']],
+    ['feb 27-3', TODAY, ['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02', '2026-03-03']],
+    ['2/14', TODAY, ['2027-02-14']],
+    ['feb 29', TODAY, ['2028-02-29']],
+    ['the 2nd', '2026-12-30', ['2027-01-02']],
+    ['in 3 days', '2026-12-30', ['2027-01-02']],
+    ['next week', '2026-12-30', ['2027-01-04', '2027-01-05', '2027-01-06', '2027-01-07', '2027-01-08', '2027-01-09', '2027-01-10']],
+  ])('rolls "%s" on %s over into the following month or year', (expression, today, dates) => {
+    expect(datesFor(expression, today)).toEqual(dates);
+  });
+
+  it.each([
+    ['feb 30', 'invalid'],
+    ['2026-02-20', 'past'],
+    ['someday', 'unrecognized'],
+  ])('refuses "%s" as %s', (expression, reason) => {
+    expect(parseDateExpression(expression, { today: TODAY })).toMatchObject({ ok: false, reason });
+  });
+
+  describe('without a fixed today', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('counts "tonight" from today in the time zone given', () => {
+      // Still the evening of the 28th in New York, already March 1st in UTC
+      vi.useFakeTimers({ now: new Date('2026-03-01T02:00:00Z') });
+
+      expect(parseDateExpression('tonight', { timeZone: 'America/New_York' })).toMatchObject({ dates: ['2026-02-28'] });
+      expect(parseDateExpression('tonight', { timeZone: 'UTC' })).toMatchObject({ dates: ['2026-03-01'] });
+      expect(parseDateExpression('tomorrow', { timeZone: 'America/Los_Angeles' })).toMatchObject({ dates: ['2026-03-01'] });
+    });
+  });
+});
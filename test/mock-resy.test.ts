@@ -0,0 +1,298 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockResyServer, type MockResyServer } from '../src/dev/mock-resy-server.js';
+import { cache } from '../src/services/cache.js';
+import { rateLimiter } from '../src/services/rate-limiter.js';
+import { ManualClock, setClock } from '../src/sniper/clock.js';
+import { addDays, todayIn } from '../src/utils/time.js';
+
+let server: MockResyServer;
+
+// Loaded once the mock is listening, since the clients read RESY_BASE_URL at import
+let search: typeof import('../src/services/search.js');
+let holds: typeof import('../src/services/holds.js');
+let reservations: typeof import('../src/services/reservations.js');
+let platforms: typeof import('../src/platforms/index.js');
+let executor: typeof import('../src/sniper/executor.js');
+let store: typeof import('../src/sniper/store.js');
+
+beforeAll(async () => {
+  server = createMockResyServer();
+  process.env.RESY_BASE_URL = await server.start();
+
+  [search, holds, reservations, platforms, executor, store] = await Promise.all([
+    import('../src/services/search.js'),
+    import('../src/services/holds.js'),
+    import('../src/services/reservations.js'),
+    import('../src/platforms/index.js'),
+    import('../src/sniper/executor.js'),
+    import('../src/sniper/store.js'),
+  ]);
+
+  // Only Resy is faked; keep the other platforms out of searches
+  vi.spyOn(platforms.getPlatform('opentable')!, 'isAvailable').mockResolvedValue(false);
+  vi.spyOn(platforms.getPlatform('tock')!, 'isAvailable').mockResolvedValue(false);
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.setScenario({});
+  // The suite as a whole makes more than Resy's 20 requests a minute
+  rateLimiter.resetAll();
+});
+
+// Each test books on its own date, so earlier bookings never trip the double-booking guard
+function day(offset: number): string {
+  return addDays(todayIn(), offset);
+}
+
+// The mock's config IDs for its default evening slots (17:30, 19:00, 19:30, 21:00)
+function configId(venueId: number, date: string, index: number): number {
+  return venueId * 1000000 + (parseInt(date.replace(/-/g, ''), 10) % 100000) * 10 + index;
+}
+
+function statuses(path: string): number[] {
+  return server.requestLog.filter((r) => r.path === path).map((r) => r.status);
+}
+
+async function snipe(date: string, preferredTimes: string[]) {
+  const config = await store.createSnipe({
+    restaurantId: '1001',
+    platform: 'resy',
+    date,
+    partySize: 2,
+    preferredTimes,
+    releaseTime: new Date().toISOString(),
+  });
+  await executor.executeSnipe(config);
+  return (await store.getSnipe(config.id))!;
+}
+
+describe('findTable', () => {
+  it('books the slot closest to the requested time', async () => {
+    const date = day(3);
+    const result = await search.findTable('Carbone', 'New York', date, '7:30 PM', 2, 'book');
+
+    expect(result.success).toBe(true);
+    expect(result.restaurant).toMatchObject({ id: 'resy-1001', platform: 'resy' });
+    expect(result.booking?.success).toBe(true);
+    expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1001, day: date, time: '19:30' }));
+  });
+
+  it('sees no slots before a release drop and every slot after it', async () => {
+    const date = day(4);
+    server.setScenario({ releaseAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() });
+
+    const before = await search.findTable('Don Angie', 'New York', date, '7 PM', 2, 'search');
+    expect(before.availableSlots).toHaveLength(0);
+    expect(before.selectedSlot).toBeUndefined();
+
+    server.releaseNow();
+    // The empty pre-drop listing would otherwise be served from the availability cache
+    cache.clear();
+
+    const after = await search.findTable('Don Angie', 'New York', date, '7 PM', 2, 'search');
+    expect(after.availableSlots).toHaveLength(4);
+    expect(after.selectedSlot?.slotId).toBe(String(configId(1002, date, 1)));
+  });
+});
+
+describe('checkAvailabilityRange', () => {
+  it('accepts an end date the full range after the start and nothing further', async () => {
+    const start = day(40);
+    // An empty calendar keeps the scan from fetching any day
+    vi.spyOn(platforms.getPlatform('resy')!, 'getAvailabilityCalendar').mockResolvedValueOnce([]);
+
+    const result = await search.checkAvailabilityRange('resy-1001', start, addDays(start, search.MAX_AVAILABILITY_RANGE_DAYS), 2);
+    expect(result.unknown).toHaveLength(search.MAX_AVAILABILITY_RANGE_DAYS + 1);
+
+    await expect(search.checkAvailabilityRange('resy-1001', start, addDays(start, search.MAX_AVAILABILITY_RANGE_DAYS + 1), 2))
+      .rejects.toThrow(`at most ${search.MAX_AVAILABILITY_RANGE_DAYS} days after start_date`);
+  });
+
+  it('lists days the calendar leaves out as unknown', async () => {
+    const start = day(14);
+    vi.spyOn(platforms.getPlatform('resy')!, 'getAvailabilityCalendar').mockResolvedValueOnce([
+      { date: start, status: 'available' },
+      { date: addDays(start, 2), status: 'sold-out' },
+    ]);
+
+    const result = await search.checkAvailabilityRange('resy-1002', start, addDays(start, 3), 2);
+
+    expect(Object.keys(result.grid)).toEqual([start]);
+    expect(result.soldOut).toEqual([addDays(start, 2)]);
+    expect(result.unknown).toEqual([addDays(start, 1), addDays(start, 3)]);
+  });
+});
+
+describe('makeReservation', () => {
+  const resy = () => platforms.getPlatform('resy')!;
+
+  it('logs in again and retries when the auth token has expired', async () => {
+    const date = day(5);
+    server.expireToken();
+    const logins = statuses('/3/auth/password').length;
+
+    const result = await reservations.bookReservation(
+      resy(),
+      { restaurantId: 'resy-1002', platform: 'resy', slotId: String(configId(1002, date, 0)), date, partySize: 2 },
+      { source: 'make_reservation' }
+    );
+
+    expect(result.success).toBe(true);
+    expect(statuses('/3/details')).toContain(401);
+    expect(statuses('/3/auth/password').slice(logins)).toEqual([200]);
+    expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1002, day: date, time: '17:30' }));
+  });
+
+  it('reports a slot taken by someone else without booking it', async () => {
+    const date = day(6);
+    const slotId = configId(1002, date, 3);
+    server.setScenario({ raceConfigIds: [slotId] });
+
+    const result = await reservations.bookReservation(
+      resy(),
+      { restaurantId: 'resy-1002', platform: 'resy', slotId: String(slotId), date, partySize: 2 },
+      { source: 'make_reservation' }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeTruthy();
+    expect(server.reservations.some((r) => r.configId === slotId)).toBe(false);
+  });
+});
+
+describe('modifyReservation', () => {
+  const resy = () => platforms.getPlatform('resy')!;
+
+  async function book(date: string, index: number): Promise<string> {
+    const result = await reservations.bookReservation(
+      resy(),
+      { restaurantId: 'resy-1002', platform: 'resy', slotId: String(configId(1002, date, index)), date, partySize: 2 },
+      { source: 'make_reservation' }
+    );
+    return result.reservationId!;
+  }
+
+  it('moves a booking without counting it as a conflict with itself', async () => {
+    const date = day(11);
+    const original = await book(date, 0);
+
+    const moved = await reservations.modifyReservation('resy', { reservationId: original, restaurantId: 'resy-1002', date, partySize: 2, time: '7:00 PM' });
+
+    expect(moved.success).toBe(true);
+    expect(server.reservations).toContainEqual(expect.objectContaining({ resyToken: original, status: 'cancelled' }));
+    expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1002, day: date, time: '19:00', status: 'confirmed' }));
+  });
+
+  it('refuses to move a booking next to another reservation', async () => {
+    const date = day(12);
+    const original = await book(date, 0);
+    await book(date, 3);
+    const booked = server.reservations.length;
+
+    const moved = await reservations.modifyReservation('resy', { reservationId: original, restaurantId: 'resy-1002', date, partySize: 2, time: '7:30 PM' });
+
+    expect(moved.success).toBe(false);
+    expect(moved.message).toMatch(/already have a reservation.*unchanged/s);
+    expect(server.reservations).toHaveLength(booked);
+    expect(server.reservations).toContainEqual(expect.objectContaining({ resyToken: original, status: 'confirmed' }));
+  });
+});
+
+describe('confirmHold', () => {
+  it('refuses a card for a hold placed with require_no_charge and keeps the hold', async () => {
+    const date = day(13);
+    const found = await search.findTable('Carbone', 'New York', date, '5:30 PM', 2, 'hold', undefined, undefined, undefined, { requireNoCharge: true });
+    const holdId = found.hold!.holdId;
+    const booked = server.reservations.length;
+
+    const refused = await holds.confirmHold(holdId, undefined, { paymentMethodId: '1' });
+    expect(refused.success).toBe(false);
+    expect(refused.error).toMatch(/can't be used together; the hold was placed with require_no_charge/);
+    expect(server.reservations).toHaveLength(booked);
+
+    const confirmed = await holds.confirmHold(holdId);
+    expect(confirmed.success).toBe(true);
+    expect(confirmed.booking?.paymentMethod).toBeUndefined();
+  });
+});
+
+describe('executeSnipe', () => {
+  it('polls through the release drop and books the preferred time', async () => {
+    const date = day(7);
+    server.setScenario({ releaseAt: new Date(Date.now() + 1200).toISOString() });
+
+    const result = await snipe(date, ['9:00 PM']);
+
+    expect(result.status).toBe('success');
+    expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1001, day: date, time: '21:00' }));
+    // Polled empty inventory before the drop
+    expect(statuses('/4/find').length).toBeGreaterThan(1);
+  });
+
+  it('backs off on 429s instead of failing', async () => {
+    const date = day(8);
+    const clock = new ManualClock();
+    setClock(clock);
+
+    try {
+      server.setScenario({ rateLimitEvery: 1 });
+      const start = server.requestLog.length;
+      const throttledUntil = clock.now() + 1500;
+      const config = await store.createSnipe({
+        restaurantId: '1001',
+        platform: 'resy',
+        date,
+        partySize: 2,
+        preferredTimes: ['5:30 PM'],
+        releaseTime: new Date(clock.now()).toISOString(),
+      });
+
+      let done = false;
+      const run = executor.executeSnipe(config).finally(() => { done = true; });
+
+      // Step the clock only while the loop is parked on a sleep; the mock answers over real HTTP
+      while (!done) {
+        await vi.waitFor(() => expect(done || clock.pendingTimers > 0).toBe(true), { timeout: 5000 });
+        if (clock.now() >= throttledUntil) server.setScenario({});
+        await clock.advance(500);
+      }
+      await run;
+
+      expect((await store.getSnipe(config.id))?.status).toBe('success');
+      // Polling every 500 ms would be throttled 4 times before the limit lifts; backing off (1s, then 2s) only twice
+      const throttled = server.requestLog.slice(start).filter((r) => r.path === '/4/find' && r.status === 429);
+      expect(throttled).toHaveLength(2);
+      expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1001, day: date, time: '17:30' }));
+    } finally {
+      setClock();
+    }
+  });
+
+  it('moves on to the next preferred slot when another diner takes the first', async () => {
+    const date = day(9);
+    server.setScenario({ raceConfigIds: [configId(1001, date, 2)] });
+
+    const result = await snipe(date, ['7:30 PM', '9:00 PM']);
+
+    expect(result.status).toBe('success');
+    expect(statuses('/3/book')).toContain(412);
+    expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1001, day: date, time: '21:00' }));
+  });
+
+  it('skips a slot whose quoted fees are over the configured limits', async () => {
+    const date = day(10);
+    process.env.MAX_BOOKING_DEPOSIT = '10';
+    try {
+      const result = await snipe(date, ['7:00 PM', '7:30 PM']);
+
+      expect(result.status).toBe('success');
+      expect(server.reservations).toContainEqual(expect.objectContaining({ venueId: 1001, day: date, time: '19:30' }));
+    } finally {
+      delete process.env.MAX_BOOKING_DEPOSIT;
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import {
+  FixturePageSource,
+  ScraperAdapter,
+  parseAvailability,
+  parseRestaurantDetails,
+  parseSearchResults,
+} from '../src/opentable/scraper.js';
+import type { OpenTableAvailabilityPayload, OpenTableProfileState, OpenTableSearchState } from '../src/opentable/types.js';
+import { extractEmbeddedState } from '../src/utils/embedded-state.js';
+
+const FIXTURES = fileURLToPath(new URL('../fixtures/opentable/', import.meta.url));
+
+function fixture(name: string): Promise<string> {
+  return readFile(`${FIXTURES}${name}`, 'utf-8');
+}
+
+async function availabilityFixture(): Promise<OpenTableAvailabilityPayload> {
+  return JSON.parse(await fixture('availability.json')) as OpenTableAvailabilityPayload;
+}
+
+describe('parseSearchResults', () => {
+  it('maps every restaurant in the embedded search state', async () => {
+    const state = extractEmbeddedState<OpenTableSearchState>(await fixture('search.html'), '__INITIAL_STATE__');
+    const restaurants = parseSearchResults(state);
+
+    expect(restaurants.map((r) => r.id)).toEqual(['opentable-1234', 'opentable-5678', 'opentable-9012']);
+    expect(restaurants[0]).toMatchObject({
+      platform: 'opentable',
+      platformId: 1234,
+      name: 'Gramercy Tavern',
+      location: 'New York',
+      neighborhood: 'Flatiron',
+      cuisine: 'American',
+      cuisines: ['American', 'Contemporary American'],
+      priceRange: 4,
+      rating: 4.7,
+      reviewCount: 8421,
+      imageUrl: 'https://resizer.otstatic.com/v2/photos/medium/1/1234.jpg',
+      coordinates: { lat: 40.7385, lng: -73.9884 },
+    });
+  });
+
+  it('keeps quotes and braces inside a restaurant name', async () => {
+    const state = extractEmbeddedState<OpenTableSearchState>(await fixture('search.html'), '__INITIAL_STATE__');
+    const smith = parseSearchResults(state).find((r) => r.platformId === 9012);
+
+    expect(smith).toMatchObject({ name: 'The Smith - "Midtown" {East}', priceRange: 2, cuisine: 'American' });
+    expect(smith?.cuisines).toBeUndefined();
+    expect(smith?.coordinates).toBeUndefined();
+  });
+
+  it('returns nothing for a page without embedded state', () => {
+    expect(parseSearchResults(null)).toEqual([]);
+  });
+});
+
+describe('parseRestaurantDetails', () => {
+  it('reads the profile page', async () => {
+    const state = extractEmbeddedState<OpenTableProfileState>(await fixture('restaurant.html'), '__INITIAL_STATE__');
+    const details = parseRestaurantDetails(state);
+
+    expect(details).toMatchObject({
+      id: 'opentable-1234',
+      platformIds: { opentable: 1234 },
+      name: 'Gramercy Tavern',
+      cuisines: ['American', 'Contemporary American'],
+      priceRange: 4,
+      rating: 4.7,
+      reviewCount: 8421,
+      address: {
+        street: '42 E 20th St',
+        city: 'New York',
+        state: 'NY',
+        zip: '10003',
+        neighborhood: 'Flatiron',
+        coordinates: { lat: 40.7385, lng: -73.9884 },
+      },
+      phone: '(212) 477-0777',
+      website: 'https://www.gramercytavern.com',
+      menuUrl: 'https://www.gramercytavern.com/menus',
+      bookingUrls: { opentable: 'https://www.opentable.com/restaurant/profile/1234' },
+      tags: ['Good for special occasions', 'Seasonal'],
+    });
+    expect(details?.images).toEqual([
+      'https://resizer.otstatic.com/v2/photos/xlarge/1/1234-1.jpg',
+      'https://resizer.otstatic.com/v2/photos/xlarge/1/1234-2.jpg',
+    ]);
+  });
+
+  it('returns null without a restaurant in the state', () => {
+    expect(parseRestaurantDetails(null)).toBeNull();
+    expect(parseRestaurantDetails({ restaurantProfile: {} })).toBeNull();
+  });
+});
+
+describe('parseAvailability', () => {
+  it('turns offsets from the requested time into bookable slots for that day', async () => {
+    const slots = parseAvailability(await availabilityFixture(), 1234, '2026-05-01', '19:00', 2);
+
+    // Unavailable slots and the next day's are dropped
+    expect(slots.map((s) => [s.time, s.type])).toEqual([
+      ['17:30', 'Standard'],
+      ['18:45', 'Bar'],
+      ['19:00', 'Standard'],
+      ['19:45', 'Outdoor'],
+      ['21:00', 'Standard'],
+    ]);
+    expect(slots[0]).toMatchObject({
+      slotId: 'ot-1234-2026-05-01-17:30',
+      platform: 'opentable',
+      bookingUrl: 'https://www.opentable.com/booking/experiences-availability?rid=1234&datetime=2026-05-01T17%3A30&covers=2',
+    });
+  });
+
+  it('ignores availability for other restaurants', async () => {
+    expect(parseAvailability(await availabilityFixture(), 5678, '2026-05-01', '19:00', 2)).toEqual([]);
+  });
+});
+
+describe('FixturePageSource', () => {
+  const adapter = new ScraperAdapter(new FixturePageSource(FIXTURES));
+
+  it('re-keys the shared availability recording to the restaurant asked for', async () => {
+    const slots = await adapter.getAvailability(5678, '2026-05-01', 4);
+
+    expect(slots).toHaveLength(5);
+    expect(slots[0]).toMatchObject({
+      slotId: 'ot-5678-2026-05-01-17:30',
+      bookingUrl: 'https://www.opentable.com/booking/experiences-availability?rid=5678&datetime=2026-05-01T17%3A30&covers=4',
+    });
+  });
+
+  it('serves the search and profile recordings through the adapter', async () => {
+    const results = await adapter.search({ query: 'tavern', location: 'New York' });
+    expect(results).toHaveLength(3);
+
+    const details = await adapter.getDetails(1234);
+    expect(details?.name).toBe('Gramercy Tavern');
+  });
+});
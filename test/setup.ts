@@ -0,0 +1,24 @@
+/**
+ * Runs before each test file. The store and credentials live under HOME, so
+ * every file gets a throwaway one, and nothing from the shell's environment
+ * (real tokens, fee limits, a base URL) leaks into the clients.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll } from 'vitest';
+
+const home = mkdtempSync(join(tmpdir(), 'restaurant-mcp-test-'));
+process.env.HOME = home;
+
+for (const name of ['RESY_AUTH_TOKEN', 'RESY_BASE_URL', 'MAX_BOOKING_DEPOSIT', 'MAX_CANCELLATION_FEE', 'BOOKING_CONFLICT_WINDOW_MINUTES']) {
+  delete process.env[name];
+}
+
+// Matches the mock Resy server's default login
+process.env.API_KEY = 'test-api-key';
+process.env.RESY_EMAIL = 'diner@example.com';
+process.env.RESY_PASSWORD = 'password';
+
+afterAll(() => rmSync(home, { recursive: true, force: true }));
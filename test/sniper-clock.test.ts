@@ -0,0 +1,243 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManualClock, setClock } from '../src/sniper/clock.js';
+import { resyClient } from '../src/resy/client.js';
+import type { ResyBookDetailsResponse, ResyTimeSlot } from '../src/resy/types.js';
+import { getPlatform } from '../src/platforms/index.js';
+import { MAX_POLL_DURATION_MS, executeCampaign, executeSnipe } from '../src/sniper/executor.js';
+import { isSnipeScheduled, scheduleSnipeJob, startScheduler, stopScheduler } from '../src/sniper/scheduler.js';
+import {
+  createCampaign,
+  createSnipe,
+  deleteSnipe,
+  getCampaign,
+  getSnipe,
+  listCampaigns,
+  listSnipes,
+  updateCampaign,
+  updateSnipeStatus,
+  type SnipeConfig,
+} from '../src/sniper/store.js';
+import { cancelCampaign, cancelSnipe } from '../src/tools/snipe.js';
+import { recordBooking } from '../src/services/ledger.js';
+
+const RELEASE = Date.parse('2026-03-01T15:00:00Z');
+const PRE_RELEASE_MS = 30000;
+
+let clock: ManualClock;
+
+// Resy's API is stubbed here; real HTTP would outrun what a ManualClock step flushes
+const getAvailability = () => vi.mocked(resyClient.getAvailability);
+const makeReservation = () => vi.mocked(resyClient.makeReservation);
+
+function slot(date: string, time: string): ResyTimeSlot {
+  return { slotId: `${date}-${time}`, token: 'config-token', time: `${date} ${time}:00`, endTime: `${date} 21:00:00`, type: 'Dining Room', timeZone: 'America/New_York' };
+}
+
+const details: ResyBookDetailsResponse = {
+  book_token: { value: 'book-token', date_expires: '2026-03-01T16:00:00Z' },
+  user: { payment_methods: [] },
+};
+
+// Store and ledger writes hit the disk and can outlast the flush inside a clock step,
+// so wait for the poll loop to park on its next sleep before moving time on
+const settle = { timeout: 5000 };
+
+async function runUntil(at: number): Promise<void> {
+  while (clock.now() < at) {
+    await vi.waitFor(() => expect(clock.pendingTimers).toBeGreaterThan(0), settle);
+    await clock.advance(Math.min(500, at - clock.now()));
+  }
+}
+
+function snipe(date: string, overrides: Partial<SnipeConfig> = {}): Promise<SnipeConfig> {
+  return createSnipe({
+    restaurantId: '1001',
+    platform: 'resy',
+    date,
+    partySize: 2,
+    preferredTimes: ['7:00 PM'],
+    releaseTime: new Date(RELEASE).toISOString(),
+    ...overrides,
+  });
+}
+
+beforeEach(() => {
+  clock = new ManualClock(RELEASE - 60 * 60 * 1000);
+  setClock(clock);
+
+  // Inventory drops at the release time
+  vi.spyOn(resyClient, 'getAvailability').mockImplementation(async (_venueId, date) =>
+    clock.now() >= RELEASE ? [slot(date, '19:00')] : []
+  );
+  vi.spyOn(resyClient, 'getBookingDetails').mockResolvedValue(details);
+  vi.spyOn(resyClient, 'makeReservation').mockResolvedValue({ resy_token: 'resy-token', reservation_id: 42 });
+  vi.spyOn(getPlatform('resy')!, 'listReservations').mockResolvedValue([]);
+});
+
+afterEach(async () => {
+  stopScheduler();
+  setClock();
+  vi.restoreAllMocks();
+
+  // startScheduler picks up everything in the store, so each test starts from an empty one
+  for (const s of await listSnipes()) await deleteSnipe(s.id);
+  for (const c of await listCampaigns()) {
+    if (c.status === 'pending' || c.status === 'running') {
+      await updateCampaign(c.id, { status: 'cancelled', options: c.options });
+    }
+  }
+});
+
+describe('startScheduler', () => {
+  it('fails snipes whose release passed while the server was down', async () => {
+    const missed = await snipe('2026-03-30', { releaseTime: new Date(RELEASE - 2 * 60 * 60 * 1000).toISOString() });
+    const upcoming = await snipe('2026-03-31');
+
+    await startScheduler();
+
+    expect(await getSnipe(missed.id)).toMatchObject({ status: 'failed', result: 'Missed release time (server was not running)' });
+    expect(await getSnipe(upcoming.id)).toMatchObject({ status: 'pending' });
+    expect(isSnipeScheduled(upcoming.id)).toBe(true);
+    expect(isSnipeScheduled(missed.id)).toBe(false);
+  });
+
+  it('starts polling before the release and books once slots drop', async () => {
+    const config = await snipe('2026-04-01');
+    await startScheduler();
+
+    await clock.advanceTo(RELEASE - PRE_RELEASE_MS - 1000);
+    expect(getAvailability()).not.toHaveBeenCalled();
+
+    await clock.advanceTo(RELEASE - PRE_RELEASE_MS);
+    await vi.waitFor(() => expect(getAvailability()).toHaveBeenCalled(), settle);
+    expect(await getSnipe(config.id)).toMatchObject({ status: 'running' });
+
+    await runUntil(RELEASE);
+
+    await vi.waitFor(async () => expect(await getSnipe(config.id)).toMatchObject({ status: 'success' }), settle);
+    expect(makeReservation()).toHaveBeenCalledOnce();
+    // Polled the empty listing through the 30 seconds before the drop
+    expect(getAvailability().mock.calls.length).toBeGreaterThan(50);
+  });
+
+  it('resumes a snipe interrupted mid-run while its poll window is open', async () => {
+    const config = await snipe('2026-04-02');
+    await updateSnipeStatus(config.id, 'running');
+    await clock.advanceTo(RELEASE + 60000);
+
+    await startScheduler();
+    expect(isSnipeScheduled(config.id)).toBe(true);
+    await clock.advance(0);
+
+    await vi.waitFor(async () => expect(await getSnipe(config.id)).toMatchObject({ status: 'success' }), settle);
+    expect(makeReservation()).toHaveBeenCalledOnce();
+  });
+
+  it('gives a resumed snipe only what is left of its poll window', async () => {
+    const config = await snipe('2026-04-07');
+    getAvailability().mockResolvedValue([]);
+    await updateSnipeStatus(config.id, 'running');
+    await clock.advanceTo(RELEASE + 100000);
+
+    await startScheduler();
+    await runUntil(RELEASE + MAX_POLL_DURATION_MS);
+
+    await vi.waitFor(async () => expect(await getSnipe(config.id)).toMatchObject({ status: 'failed' }), settle);
+    expect(clock.pendingTimers).toBe(0);
+  });
+
+  it('fails a snipe interrupted mid-run once its poll window has closed', async () => {
+    const config = await snipe('2026-04-03');
+    await updateSnipeStatus(config.id, 'running');
+    await clock.advanceTo(RELEASE + MAX_POLL_DURATION_MS + 1000);
+
+    await startScheduler();
+
+    expect(isSnipeScheduled(config.id)).toBe(false);
+    expect(await getSnipe(config.id)).toMatchObject({
+      status: 'failed',
+      result: 'Interrupted by a server restart before a slot was found',
+    });
+  });
+});
+
+describe('executeSnipe', () => {
+  it('gives up when nothing matches within the poll window', async () => {
+    const config = await snipe('2026-04-04');
+    getAvailability().mockResolvedValue([]);
+    await clock.advanceTo(RELEASE - PRE_RELEASE_MS);
+
+    const run = executeSnipe(config);
+    await runUntil(RELEASE + MAX_POLL_DURATION_MS);
+    await run;
+
+    expect(await getSnipe(config.id)).toMatchObject({ status: 'failed', result: 'Snipe timed out - no matching slots became available' });
+    expect(makeReservation()).not.toHaveBeenCalled();
+  });
+
+  it('stops polling when the snipe is cancelled mid-run', async () => {
+    const config = await snipe('2026-04-05');
+    await clock.advanceTo(RELEASE - PRE_RELEASE_MS);
+
+    const run = executeSnipe(config);
+    await runUntil(clock.now() + 2000);
+
+    expect(await cancelSnipe({ snipe_id: config.id })).toMatchObject({ success: true });
+    const polls = getAvailability().mock.calls.length;
+
+    // The loop wakes from its sleep, sees the snipe is gone and returns without polling again
+    await clock.advance(500);
+    await run;
+
+    expect(getAvailability().mock.calls.length).toBe(polls);
+    expect(clock.pendingTimers).toBe(0);
+    expect(makeReservation()).not.toHaveBeenCalled();
+    expect(await getSnipe(config.id)).toBeNull();
+  });
+});
+
+describe('executeCampaign', () => {
+  it('drops an option that would double-book and books the next one', async () => {
+    await recordBooking({
+      platform: 'opentable',
+      restaurantId: 'opentable-1234',
+      date: '2026-04-08',
+      time: '19:30',
+      partySize: 2,
+      source: 'make_reservation',
+      status: 'confirmed',
+    });
+    await clock.advanceTo(RELEASE);
+
+    const campaign = await createCampaign('Date night', [
+      { restaurantId: '1001', platform: 'resy', date: '2026-04-08', partySize: 2, preferredTimes: ['7:00 PM'], releaseTime: new Date(RELEASE).toISOString() },
+      { restaurantId: '1002', platform: 'resy', date: '2026-04-09', partySize: 2, preferredTimes: ['7:00 PM'], releaseTime: new Date(RELEASE).toISOString() },
+    ]);
+    await executeCampaign(campaign);
+
+    const result = await getCampaign(campaign.id);
+    expect(result).toMatchObject({ status: 'success', bookedOption: 1 });
+    expect(result?.options[0]).toMatchObject({ status: 'failed', result: expect.stringContaining('2026-04-08') });
+    expect(makeReservation()).toHaveBeenCalledOnce();
+  });
+
+  it('stays cancelled when the cancel lands while a booking is in flight', async () => {
+    await clock.advanceTo(RELEASE);
+
+    let quote!: (value: ResyBookDetailsResponse) => void;
+    vi.mocked(resyClient.getBookingDetails).mockImplementation(() => new Promise((resolve) => { quote = resolve; }));
+
+    const campaign = await createCampaign('Anniversary', [
+      { restaurantId: '1001', platform: 'resy', date: '2026-04-06', partySize: 2, preferredTimes: ['7:00 PM'], releaseTime: new Date(RELEASE).toISOString() },
+    ]);
+
+    const run = executeCampaign(campaign);
+    await vi.waitFor(() => expect(resyClient.getBookingDetails).toHaveBeenCalled(), settle);
+
+    expect(await cancelCampaign({ campaign_id: campaign.id })).toMatchObject({ success: true });
+    quote(details);
+    await run;
+
+    expect(await getCampaign(campaign.id)).toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -0,0 +1,123 @@
+import { join } from 'path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ManualClock, setClock } from '../src/sniper/clock.js';
+
+const RELEASE = Date.parse('2026-03-01T15:00:00Z');
+const PRE_RELEASE_MS = 30000;
+const MAX_POLL_MS = 120000;
+
+// Loaded once SNIPER_DATA_DIR points into the test HOME, since the store reads it at import
+let sniper: typeof import('../sniper-service/src/sniper.js');
+let store: typeof import('../sniper-service/src/store.js');
+let resy: typeof import('../sniper-service/src/resy-client.js');
+
+let clock: ManualClock;
+
+beforeAll(async () => {
+  process.env.SNIPER_DATA_DIR = join(process.env.HOME!, 'sniper-service');
+  [sniper, store, resy] = await Promise.all([
+    import('../sniper-service/src/sniper.js'),
+    import('../sniper-service/src/store.js'),
+    import('../sniper-service/src/resy-client.js'),
+  ]);
+});
+
+beforeEach(() => {
+  clock = new ManualClock(RELEASE - 60 * 60 * 1000);
+  setClock(clock);
+
+  // Inventory drops at the release time
+  vi.spyOn(resy.resyClient, 'getAvailability').mockImplementation(async (_venueId, date) =>
+    clock.now() >= RELEASE
+      ? [{ config: { id: 7, type: 'Dining Room', token: 'config-token' }, date: { start: `${date} 19:00:00`, end: `${date} 21:00:00` } }]
+      : []
+  );
+  vi.spyOn(resy.resyClient, 'getBookingDetails').mockResolvedValue({
+    book_token: { value: 'book-token', date_expires: '2026-03-01T16:00:00Z' },
+    user: { payment_methods: [] },
+  });
+  vi.spyOn(resy.resyClient, 'makeReservation').mockResolvedValue({ resy_token: 'resy-token', reservation_id: 42 });
+});
+
+afterEach(async () => {
+  for (const s of await store.listSnipes()) {
+    sniper.cancelSnipe(s.id);
+    await store.deleteSnipe(s.id);
+  }
+  setClock();
+  vi.restoreAllMocks();
+});
+
+function snipe(date: string, releaseTime = RELEASE) {
+  return store.createSnipe({
+    restaurantId: 1001,
+    restaurantName: 'Carbone',
+    date,
+    partySize: 2,
+    preferredTimes: ['7:00 PM'],
+    releaseTime: new Date(releaseTime).toISOString(),
+  });
+}
+
+async function statusOf(id: string): Promise<string | undefined> {
+  return (await store.getSnipe(id))?.status;
+}
+
+// Store writes hit the disk and can outlast the flush inside a clock step
+const settle = { timeout: 5000 };
+
+describe('sniper-service loadPendingSnipes', () => {
+  it('fails snipes whose release passed while the service was down', async () => {
+    const missed = await snipe('2026-03-30', RELEASE - 2 * 60 * 60 * 1000);
+    const upcoming = await snipe('2026-03-31');
+
+    await sniper.loadPendingSnipes();
+
+    expect(await store.getSnipe(missed.id)).toMatchObject({ status: 'failed', result: 'Missed release time (server was restarted)' });
+    expect(sniper.isSnipeScheduled(missed.id)).toBe(false);
+    expect(sniper.isSnipeScheduled(upcoming.id)).toBe(true);
+  });
+
+  it('runs a scheduled snipe from its warm-up and books once slots drop', async () => {
+    const config = await snipe('2026-04-01');
+    await sniper.loadPendingSnipes();
+
+    await clock.advanceTo(RELEASE - PRE_RELEASE_MS);
+    await vi.waitFor(() => expect(resy.resyClient.getAvailability).toHaveBeenCalled(), settle);
+    expect(await statusOf(config.id)).toBe('running');
+
+    while (clock.now() < RELEASE) {
+      await vi.waitFor(() => expect(clock.pendingTimers).toBeGreaterThan(0), settle);
+      await clock.advance(500);
+    }
+
+    await vi.waitFor(async () => expect(await statusOf(config.id)).toBe('success'), settle);
+    expect(resy.resyClient.makeReservation).toHaveBeenCalledOnce();
+  });
+
+  it('resumes a snipe interrupted mid-run while its poll window is open', async () => {
+    const config = await snipe('2026-04-02');
+    await store.updateSnipe(config.id, 'running');
+    await clock.advanceTo(RELEASE + 60000);
+
+    await sniper.loadPendingSnipes();
+    expect(sniper.isSnipeScheduled(config.id)).toBe(true);
+    await clock.advance(0);
+
+    await vi.waitFor(async () => expect(await statusOf(config.id)).toBe('success'), settle);
+  });
+
+  it('fails a snipe interrupted mid-run once its poll window has closed', async () => {
+    const config = await snipe('2026-04-03');
+    await store.updateSnipe(config.id, 'running');
+    await clock.advanceTo(RELEASE + MAX_POLL_MS + 1000);
+
+    await sniper.loadPendingSnipes();
+
+    expect(sniper.isSnipeScheduled(config.id)).toBe(false);
+    expect(await store.getSnipe(config.id)).toMatchObject({
+      status: 'failed',
+      result: 'Interrupted by a server restart before a slot was found',
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import {
+  FixturePageSource,
+  ScraperAdapter,
+  buildTockBookingUrl,
+  parseCalendar,
+  parseSearchResults,
+  parseVenueDetails,
+} from '../src/tock/scraper.js';
+import type { TockCalendarPayload, TockSearchState, TockVenueState } from '../src/tock/types.js';
+import { TockPlatformClient } from '../src/platforms/tock.js';
+import { extractEmbeddedState } from '../src/utils/embedded-state.js';
+
+const FIXTURES = fileURLToPath(new URL('../fixtures/tock/', import.meta.url));
+const RECORDED_DATE = '2025-03-14';
+
+function fixture(name: string): Promise<string> {
+  return readFile(`${FIXTURES}${name}`, 'utf-8');
+}
+
+async function venueState(): Promise<TockVenueState | null> {
+  return extractEmbeddedState<TockVenueState>(await fixture('venue.html'), '$REDUX_STATE');
+}
+
+async function calendarFixture(): Promise<TockCalendarPayload> {
+  return JSON.parse(await fixture('calendar.json')) as TockCalendarPayload;
+}
+
+describe('parseSearchResults', () => {
+  it('maps every business in the embedded search state', async () => {
+    const state = extractEmbeddedState<TockSearchState>(await fixture('search.html'), '$REDUX_STATE');
+    const restaurants = parseSearchResults(state);
+
+    expect(restaurants.map((r) => r.id)).toEqual(['tock-atomix', 'tock-lebernardin', 'tock-cotenyc']);
+    expect(restaurants[0]).toMatchObject({
+      platform: 'tock',
+      platformId: 'atomix',
+      name: 'Atomix',
+      location: 'New York',
+      neighborhood: 'NoMad',
+      cuisine: 'Korean',
+      cuisines: ['Korean', 'Tasting Menu'],
+      priceRange: 4,
+      rating: 0,
+      imageUrl: 'https://images.exploretock.com/atomix/hero.jpg',
+    });
+    expect(restaurants[2].priceRange).toBe(3);
+  });
+
+  it('returns nothing for a page without embedded state', () => {
+    expect(parseSearchResults(null)).toEqual([]);
+  });
+});
+
+describe('parseVenueDetails', () => {
+  it('reads the venue and its bookable experiences', async () => {
+    const details = parseVenueDetails(await venueState());
+
+    expect(details).toMatchObject({
+      id: 'tock-atomix',
+      platformIds: { tock: 'atomix' },
+      name: 'Atomix',
+      cuisines: ['Korean', 'Tasting Menu'],
+      priceRange: 4,
+      address: {
+        street: '104 E 30th St',
+        city: 'New York',
+        state: 'NY',
+        zip: '10016',
+        neighborhood: 'NoMad',
+        coordinates: { lat: 40.7443, lng: -73.9822 },
+      },
+      phone: '(646) 707-3222',
+      website: 'https://www.atomixnyc.com',
+      bookingUrls: { tock: 'https://www.exploretock.com/atomix' },
+      images: ['https://images.exploretock.com/atomix/hero.jpg'],
+    });
+
+    // The gift card isn't an experience you can book a table for
+    expect(details?.experiences).toEqual([
+      {
+        id: '218301',
+        name: "Chef's Counter Tasting Menu",
+        description: 'Fourteen-course tasting menu at the counter.',
+        price: 375,
+        prepaid: true,
+        bookingUrl: 'https://www.exploretock.com/atomix/experience/218301/chef-s-counter-tasting-menu',
+      },
+      {
+        id: '218302',
+        name: 'Atoboy Bar "À La Carte" {Lounge}',
+        description: 'Walk-in style bar seating with a la carte menu.',
+        price: 0,
+        prepaid: false,
+        bookingUrl: 'https://www.exploretock.com/atomix/experience/218302/atoboy-bar-la-carte-lounge',
+      },
+    ]);
+  });
+
+  it('returns null without a business in the state', () => {
+    expect(parseVenueDetails(null)).toBeNull();
+    expect(parseVenueDetails({ app: {} })).toBeNull();
+  });
+});
+
+describe('parseCalendar', () => {
+  it('lists the day\'s ticket groups with room for the party, in time order', async () => {
+    const slots = parseCalendar(await calendarFixture(), await venueState(), RECORDED_DATE, 2);
+
+    // Sold-out groups and the next day's are dropped
+    expect(slots.map((s) => [s.time, s.experienceId])).toEqual([
+      ['17:30', '218301'],
+      ['18:00', '218302'],
+      ['19:00', '218301'],
+      ['20:45', '218301'],
+    ]);
+    expect(slots[0]).toEqual({
+      slotId: 'tock-218301-2025-03-14-17:30',
+      platform: 'tock',
+      time: '17:30',
+      type: "Chef's Counter Tasting Menu",
+      experienceId: '218301',
+      experienceName: "Chef's Counter Tasting Menu",
+      price: 375,
+      prepaid: true,
+      bookingUrl: 'https://www.exploretock.com/atomix/experience/218301/chef-s-counter-tasting-menu?date=2025-03-14&size=2&time=17%3A30',
+      timeZone: 'America/New_York',
+    });
+    expect(slots[1]).toMatchObject({ type: 'Atoboy Bar "À La Carte" {Lounge}', price: 0, prepaid: false });
+  });
+
+  it('prefers a ticket group\'s own price over the experience price', async () => {
+    const slots = parseCalendar(await calendarFixture(), await venueState(), RECORDED_DATE, 2);
+    expect(slots.find((s) => s.time === '19:00')?.price).toBe(425);
+  });
+
+  it('respects each group\'s purchase size limits', async () => {
+    const solo = parseCalendar(await calendarFixture(), await venueState(), RECORDED_DATE, 1);
+    expect(solo.map((s) => s.time)).toEqual(['17:30', '18:00', '20:45']);
+
+    const large = parseCalendar(await calendarFixture(), await venueState(), RECORDED_DATE, 5);
+    expect(large.map((s) => [s.time, s.experienceId])).toEqual([['18:00', '218302']]);
+  });
+
+  it('returns nothing without the venue state', async () => {
+    expect(parseCalendar(await calendarFixture(), null, RECORDED_DATE, 2)).toEqual([]);
+  });
+});
+
+describe('FixturePageSource', () => {
+  const adapter = new ScraperAdapter(new FixturePageSource(FIXTURES));
+
+  it('moves the recorded day to the date asked for', async () => {
+    const slots = await adapter.getAvailability('atomix', '2026-06-12', 2);
+
+    expect(slots.map((s) => s.slotId)).toEqual([
+      'tock-218301-2026-06-12-17:30',
+      'tock-218302-2026-06-12-18:00',
+      'tock-218301-2026-06-12-19:00',
+      'tock-218301-2026-06-12-20:45',
+    ]);
+  });
+});
+
+describe('buildBookingUrl', () => {
+  const tock = new TockPlatformClient(new ScraperAdapter(new FixturePageSource(FIXTURES)));
+
+  it('links to the venue when no experience is known', () => {
+    expect(tock.buildBookingUrl('atomix', '2026-06-12', 2)).toBe('https://www.exploretock.com/atomix?date=2026-06-12&size=2');
+  });
+
+  it('deep-links to an experience and time', () => {
+    expect(buildTockBookingUrl('atomix', '2026-06-12', 4, { time: '19:00', experienceId: '218301' }))
+      .toBe('https://www.exploretock.com/atomix/experience/218301?date=2026-06-12&size=4&time=19%3A00');
+    expect(buildTockBookingUrl('atomix', '2026-06-12', 4, { experienceId: '218301', experienceName: "Chef's Counter Tasting Menu" }))
+      .toBe('https://www.exploretock.com/atomix/experience/218301/chef-s-counter-tasting-menu?date=2026-06-12&size=4');
+  });
+
+  it('hands back a deep link for the booked slot', async () => {
+    const result = await tock.makeReservation({
+      restaurantId: 'tock-atomix',
+      platform: 'tock',
+      slotId: 'tock-218301-2026-06-12-19:00',
+      date: '2026-06-12',
+      partySize: 2,
+    });
+
+    expect(result).toMatchObject({
+      success: true,
+      platform: 'tock',
+      bookingUrl: 'https://www.exploretock.com/atomix/experience/218301?date=2026-06-12&size=2&time=19%3A00',
+    });
+  });
+
+  it('falls back to the venue link for a slot ID it can\'t read', async () => {
+    const result = await tock.makeReservation({
+      restaurantId: 'tock-atomix',
+      platform: 'tock',
+      slotId: 'walk-in',
+      date: '2026-06-12',
+      partySize: 2,
+    });
+
+    expect(result.bookingUrl).toBe('https://www.exploretock.com/atomix?date=2026-06-12&size=2');
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    // The suites start local servers and write a store each; one file at a time
+    fileParallelism: false,
+    testTimeout: 30000,
+  },
+});